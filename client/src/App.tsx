@@ -5,7 +5,7 @@
  */
 
 import { Switch, Route, useSearch } from "wouter";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -15,15 +15,25 @@ import { BackToTop } from "@/components/layout/BackToTop";
 import { usePreflight } from "@/hooks/use-preflight";
 import { useGame } from "@/hooks/use-game";
 import type { GameId } from "@/types/database";
+import { AlertTriangle } from "lucide-react";
 
 import Home from "@/pages/Home";
 import Pokedex from "@/pages/Pokedex";
 import PokemonDetail from "@/pages/PokemonDetail";
+import Moves from "@/pages/Moves";
+import MoveDetail from "@/pages/MoveDetail";
+import Abilities from "@/pages/Abilities";
+import AbilityDetail from "@/pages/AbilityDetail";
 import Encounters from "@/pages/Encounters";
 import Trainers from "@/pages/Trainers";
 import TrainersList from "@/pages/TrainersList";
 import TrainerDetail from "@/pages/TrainerDetail";
-import TrainerDetail from "@/pages/TrainerDetail";
+import DamageCalc from "@/pages/DamageCalc";
+import Run from "@/pages/Run";
+import TeamBuilder from "@/pages/TeamBuilder";
+import SpeedTiers from "@/pages/SpeedTiers";
+import Roadmap from "@/pages/Roadmap";
+import SplitOverview from "@/pages/SplitOverview";
 import Preflight from "@/pages/Preflight";
 import Styleguide from "@/pages/Styleguide";
 import NotFound from "@/pages/not-found";
@@ -49,11 +59,16 @@ function AppContent() {
     }
   }, [search, currentGame, setCurrentGame]);
 
-  const { isLoading } = usePreflight(currentGame);
+  const { data: preflight, isLoading, isError } = usePreflight(currentGame);
+  // Game for which the user chose to continue despite failing checks.
+  const [degradedGame, setDegradedGame] = useState<GameId | null>(null);
+  const failed = isError || (preflight !== undefined && !preflight.isReady);
+  const degraded = failed && degradedGame === currentGame;
 
-  // Show preflight screen while checking - if failed, let the app load and show errors in components
-  if (isLoading) {
-    return <Preflight />;
+  // Show the preflight report while checking and whenever a view fails,
+  // until the user opts into degraded mode for this game.
+  if (isLoading || (failed && !degraded)) {
+    return <Preflight onContinue={() => setDegradedGame(currentGame)} />;
   }
 
   return (
@@ -69,17 +84,49 @@ function AppContent() {
 
       <Navigation />
 
+      {degraded && (
+        <div
+          className="bg-destructive/10 text-destructive border-b border-destructive/30"
+          role="status"
+          data-testid="degraded-banner"
+        >
+          <div className="max-w-[1280px] mx-auto px-4 py-2 d-flex align-items-center gap-2 text-sm">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              Running in degraded mode: some database views failed their checks, so parts of the
+              app may be empty or show errors.
+            </span>
+            <button
+              type="button"
+              className="ms-auto underline font-medium"
+              onClick={() => setDegradedGame(null)}
+            >
+              View report
+            </button>
+          </div>
+        </div>
+      )}
+
       <main id="main-content" className="py-8">
         <div className="max-w-[1280px] mx-auto px-4">
           <Switch>
             <Route path="/" component={Home} />
             <Route path="/pokedex" component={Pokedex} />
             <Route path="/pokemon/:formeId" component={PokemonDetail} />
+            <Route path="/moves" component={Moves} />
+            <Route path="/move/:moveId" component={MoveDetail} />
+            <Route path="/abilities" component={Abilities} />
+            <Route path="/ability/:abilityId" component={AbilityDetail} />
             <Route path="/encounters" component={Encounters} />
             <Route path="/trainers" component={Trainers} />
             <Route path="/trainers/list" component={TrainersList} />
             <Route path="/trainer/:trainerId" component={TrainerDetail} />
-            <Route path="/trainer/:trainerId" component={TrainerDetail} />
+            <Route path="/calc" component={DamageCalc} />
+            <Route path="/run" component={Run} />
+            <Route path="/team" component={TeamBuilder} />
+            <Route path="/speed" component={SpeedTiers} />
+            <Route path="/roadmap" component={Roadmap} />
+            <Route path="/split/:name" component={SplitOverview} />
             <Route path="/styleguide" component={Styleguide} />
             <Route component={NotFound} />
           </Switch>
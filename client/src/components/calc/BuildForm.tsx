@@ -0,0 +1,271 @@
+/**
+ * @file BuildForm component
+ * Edits one side of a damage calculation: species, level, nature, ability,
+ * item, IVs/EVs, and battle state (stat stages, burn, current HP). Shows the
+ * resulting stats so typos in spreads are obvious.
+ */
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { PokemonPicker } from '@/components/pokemon/PokemonPicker';
+import { abilitiesOf, baseStatsOf, type BattleState, type PokemonBuild } from '@/lib/builds';
+import { CALC_ABILITIES, CALC_ITEMS } from '@/lib/damage';
+import {
+  MAX_EV,
+  MAX_IV,
+  NATURE_NAMES,
+  STAT_KEYS,
+  STAT_LABELS,
+  calcStats,
+  type BoostableStat,
+  type StatKey,
+} from '@/lib/stats';
+import type { PokedexDetail } from '@/types/database';
+
+const stageStats: BoostableStat[] = ['atk', 'def', 'spa', 'spd'];
+const stages = Array.from({ length: 13 }, (_, i) => i - 6);
+
+interface BuildFormProps {
+  title: string;
+  /** Prefix for input ids and test ids, e.g. `attacker`. */
+  idPrefix: string;
+  build: PokemonBuild;
+  onBuildChange: (build: PokemonBuild) => void;
+  state: BattleState;
+  onStateChange: (state: BattleState) => void;
+  /** Detail row of the selected species, once loaded. */
+  detail?: PokedexDetail;
+}
+
+/** Clamp a numeric input to a range, treating blanks as the minimum. */
+function clampInput(value: string, min: number, max: number): number {
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) ? min : Math.max(min, Math.min(max, n));
+}
+
+export function BuildForm({
+  title,
+  idPrefix,
+  build,
+  onBuildChange,
+  state,
+  onStateChange,
+  detail,
+}: BuildFormProps) {
+  const speciesAbilities = detail ? abilitiesOf(detail) : [];
+  const otherAbilities = CALC_ABILITIES.filter((a) => !speciesAbilities.includes(a));
+  const stats = detail ? calcStats(baseStatsOf(detail), build.level, build.ivs, build.evs, build.nature) : null;
+
+  const setSpread = (kind: 'ivs' | 'evs', stat: StatKey, value: string) =>
+    onBuildChange({
+      ...build,
+      [kind]: { ...build[kind], [stat]: clampInput(value, 0, kind === 'ivs' ? MAX_IV : MAX_EV) },
+    });
+
+  return (
+    <Card className="h-full" data-testid={`${idPrefix}-form`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg d-flex align-items-center gap-2 flex-wrap">
+          {title}
+          {detail && (
+            <span className="d-flex gap-1">
+              <TypeBadge type={detail.type1_id} />
+              {detail.type2_id && <TypeBadge type={detail.type2_id} />}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <PokemonPicker
+          label="Pokémon"
+          selectedName={detail?.display_name}
+          onSelect={(p) => onBuildChange({ ...build, formeId: p.forme_id, ability: undefined, moves: [] })}
+          data-testid={`${idPrefix}-pokemon`}
+        />
+
+        <div className="row g-2">
+          <div className="col-4">
+            <label htmlFor={`${idPrefix}-level`} className="form-label">
+              Level
+            </label>
+            <input
+              id={`${idPrefix}-level`}
+              type="number"
+              min={1}
+              max={100}
+              className="form-control"
+              value={build.level}
+              onChange={(e) => onBuildChange({ ...build, level: clampInput(e.target.value, 1, 100) })}
+            />
+          </div>
+          <div className="col-8">
+            <label htmlFor={`${idPrefix}-nature`} className="form-label">
+              Nature
+            </label>
+            <select
+              id={`${idPrefix}-nature`}
+              className="form-select"
+              value={build.nature}
+              onChange={(e) => onBuildChange({ ...build, nature: e.target.value })}
+            >
+              {NATURE_NAMES.map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="col-6">
+            <label htmlFor={`${idPrefix}-ability`} className="form-label">
+              Ability
+            </label>
+            <select
+              id={`${idPrefix}-ability`}
+              className="form-select"
+              value={build.ability ?? ''}
+              onChange={(e) => onBuildChange({ ...build, ability: e.target.value || undefined })}
+            >
+              <option value="">None</option>
+              {speciesAbilities.length > 0 && (
+                <optgroup label="Species">
+                  {speciesAbilities.map((a) => (
+                    <option key={a} value={a}>
+                      {a}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              <optgroup label="Other">
+                {otherAbilities.map((a) => (
+                  <option key={a} value={a}>
+                    {a}
+                  </option>
+                ))}
+              </optgroup>
+            </select>
+          </div>
+          <div className="col-6">
+            <label htmlFor={`${idPrefix}-item`} className="form-label">
+              Item
+            </label>
+            <select
+              id={`${idPrefix}-item`}
+              className="form-select"
+              value={build.item ?? ''}
+              onChange={(e) => onBuildChange({ ...build, item: e.target.value || undefined })}
+            >
+              <option value="">None</option>
+              {/* Keep an unsupported recorded item selectable rather than dropping it. */}
+              {build.item && !CALC_ITEMS.includes(build.item) && (
+                <option value={build.item}>{build.item}</option>
+              )}
+              {CALC_ITEMS.map((i) => (
+                <option key={i} value={i}>
+                  {i}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="row g-2">
+          {stageStats.map((stat) => (
+            <div className="col-3" key={stat}>
+              <label htmlFor={`${idPrefix}-stage-${stat}`} className="form-label small">
+                {STAT_LABELS[stat]} stage
+              </label>
+              <select
+                id={`${idPrefix}-stage-${stat}`}
+                className="form-select form-select-sm"
+                value={state.boosts[stat] ?? 0}
+                onChange={(e) =>
+                  onStateChange({ ...state, boosts: { ...state.boosts, [stat]: Number(e.target.value) } })
+                }
+              >
+                {stages.map((s) => (
+                  <option key={s} value={s}>
+                    {s > 0 ? `+${s}` : s}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="row g-2 align-items-end">
+          <div className="col-6">
+            <label htmlFor={`${idPrefix}-hp`} className="form-label small">
+              Current HP %
+            </label>
+            <input
+              id={`${idPrefix}-hp`}
+              type="number"
+              min={1}
+              max={100}
+              className="form-control form-control-sm"
+              value={state.hpPercent}
+              onChange={(e) => onStateChange({ ...state, hpPercent: clampInput(e.target.value, 1, 100) })}
+            />
+          </div>
+          <div className="col-6">
+            <div className="form-check">
+              <input
+                id={`${idPrefix}-burned`}
+                type="checkbox"
+                className="form-check-input"
+                checked={state.burned}
+                onChange={(e) => onStateChange({ ...state, burned: e.target.checked })}
+              />
+              <label htmlFor={`${idPrefix}-burned`} className="form-check-label">
+                Burned
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <details>
+          <summary className="cursor-pointer text-sm text-muted-foreground">IVs &amp; EVs</summary>
+          <table className="table table-sm mt-2 mb-0 text-center align-middle">
+            <thead>
+              <tr>
+                <th scope="col" />
+                {STAT_KEYS.map((stat) => (
+                  <th scope="col" key={stat} className="small">
+                    {STAT_LABELS[stat]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(['ivs', 'evs'] as const).map((kind) => (
+                <tr key={kind}>
+                  <th scope="row" className="small text-uppercase">
+                    {kind === 'ivs' ? 'IV' : 'EV'}
+                  </th>
+                  {STAT_KEYS.map((stat) => (
+                    <td key={stat} className="p-1">
+                      <input
+                        type="number"
+                        min={0}
+                        max={kind === 'ivs' ? MAX_IV : MAX_EV}
+                        className="form-control form-control-sm px-1 text-center"
+                        aria-label={`${STAT_LABELS[stat]} ${kind === 'ivs' ? 'IV' : 'EV'}`}
+                        value={build[kind][stat]}
+                        onChange={(e) => setSpread(kind, stat, e.target.value)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+
+        {stats && (
+          <p className="text-xs text-muted-foreground font-mono mb-0" data-testid={`${idPrefix}-stats`}>
+            {STAT_KEYS.map((stat) => `${STAT_LABELS[stat]} ${stats[stat]}`).join(' · ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * @file DamageResultView component
+ * Presents one damage calculation: the damage range as HP and percent, the
+ * KO verdict, per-hit KO chances, and every random roll.
+ */
+import { Badge } from '@/components/ui/badge';
+import { MoveCategoryBadge } from '@/components/moves/MoveCategoryBadge';
+import { describeKo, type DamageResult } from '@/lib/damage';
+
+interface DamageResultViewProps {
+  result: DamageResult;
+  /** e.g. `Lv. 50 Gengar Shadow Ball vs. Lv. 52 Alakazam`. */
+  heading: string;
+}
+
+/** Label for an effectiveness multiplier, or nothing when neutral. */
+export function effectivenessLabel(effectiveness: number): string | null {
+  if (effectiveness === 0) return 'Immune';
+  if (effectiveness >= 4) return '4× super effective';
+  if (effectiveness >= 2) return 'Super effective';
+  if (effectiveness <= 0.25) return '¼× not very effective';
+  if (effectiveness < 1) return 'Not very effective';
+  return null;
+}
+
+/** `min–max (min%–max%)` summary of a result. */
+export function formatDamageRange(result: DamageResult): string {
+  return `${result.min}–${result.max} (${result.minPercent.toFixed(1)}%–${result.maxPercent.toFixed(1)}%)`;
+}
+
+export function DamageResultView({ result, heading }: DamageResultViewProps) {
+  const label = effectivenessLabel(result.effectiveness);
+
+  return (
+    <div className="space-y-3" data-testid="damage-result">
+      <p className="text-sm text-muted-foreground mb-0">{heading}</p>
+      <div className="d-flex flex-wrap align-items-center gap-2">
+        <span className="text-2xl font-bold" data-testid="damage-range">
+          {formatDamageRange(result)}
+        </span>
+        <MoveCategoryBadge category={result.category} />
+        {label && <Badge variant={result.effectiveness > 1 ? 'destructive' : 'secondary'}>{label}</Badge>}
+      </div>
+      <p className="font-semibold mb-0" data-testid="damage-ko">
+        {describeKo(result)}
+        <span className="text-muted-foreground font-normal">
+          {' '}
+          · defender at {result.defenderHp}/{result.defenderMaxHp} HP
+        </span>
+      </p>
+
+      {result.koChances.length > 0 && (
+        <table className="table table-sm w-auto mb-0">
+          <thead>
+            <tr>
+              {result.koChances.map((c) => (
+                <th key={c.hits} scope="col" className="small">
+                  {c.hits === 1 ? 'OHKO' : `${c.hits}HKO`}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              {result.koChances.map((c) => (
+                <td key={c.hits} className="font-mono small">
+                  {(c.chance * 100).toFixed(1)}%
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      )}
+
+      <details>
+        <summary className="cursor-pointer text-sm text-muted-foreground">All 16 rolls</summary>
+        <p className="font-mono text-xs mt-2 mb-0">{result.rolls.join(', ')}</p>
+      </details>
+    </div>
+  );
+}
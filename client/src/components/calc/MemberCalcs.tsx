@@ -0,0 +1,81 @@
+/**
+ * @file MemberCalcs component
+ * Inline damage calcs between one trainer Pokémon and the user's Pokémon:
+ * every enemy move against the user, and every user move against the enemy.
+ * The enemy's IVs are the game's estimated trainer IVs, so the calcs say so.
+ */
+import {
+  calculateDamage,
+  describeKo,
+  type CalcOptions,
+  type CalcPokemon,
+  type DamageResult,
+} from '@/lib/damage';
+import { toCalcMove } from '@/lib/builds';
+import type { LearnsetMove, TrainerMove } from '@/types/database';
+import { formatDamageRange } from '@/components/calc/DamageResultView';
+
+interface MemberCalcsProps {
+  /** The trainer's Pokémon with its recorded build. */
+  enemy: CalcPokemon;
+  /** Estimated IVs the enemy's build assumes in every stat, see `trainerIv`. */
+  enemyIv: number;
+  enemyMoves: TrainerMove[];
+  /** The user's Pokémon. */
+  player: CalcPokemon;
+  playerMoves: LearnsetMove[];
+  options: CalcOptions;
+}
+
+interface CalcRow {
+  move: string;
+  result: DamageResult;
+}
+
+function CalcTable({ caption, rows }: { caption: string; rows: CalcRow[] }) {
+  if (!rows.length) return null;
+  return (
+    <table className="table table-sm mb-0 text-xs">
+      <caption className="caption-top text-muted-foreground p-0 pb-1">{caption}</caption>
+      <tbody>
+        {rows.map(({ move, result }) => {
+          const ko = describeKo(result);
+          const dangerous = (result.koChances[0]?.chance ?? 0) > 0;
+          return (
+            <tr key={move}>
+              <th scope="row" className="font-medium text-truncate">
+                {move}
+              </th>
+              <td className="font-mono text-nowrap">{result.max > 0 ? formatDamageRange(result) : '—'}</td>
+              <td className={dangerous ? 'text-destructive fw-semibold' : 'text-muted-foreground'}>{ko}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+export function MemberCalcs({ enemy, enemyIv, enemyMoves, player, playerMoves, options }: MemberCalcsProps) {
+  const incoming = enemyMoves
+    .filter((m) => m.category !== 'STATUS')
+    .map((m) => ({ move: m.name, result: calculateDamage(enemy, player, toCalcMove(m), options) }));
+  const outgoing = playerMoves.map((m) => ({
+    move: m.name,
+    result: calculateDamage(player, enemy, toCalcMove(m), options),
+  }));
+
+  return (
+    <div className="space-y-3 mt-3 pt-3 border-t border-border/40" data-testid="member-calcs">
+      <CalcTable caption={`${enemy.name} → your ${player.name}`} rows={incoming} />
+      <CalcTable caption={`Your ${player.name} → ${enemy.name}`} rows={outgoing} />
+      {!incoming.length && !outgoing.length ? (
+        <p className="text-xs text-muted-foreground mb-0">No damaging moves to compare.</p>
+      ) : (
+        <p className="text-xs text-muted-foreground mb-0">
+          Estimated: {enemy.name} is assumed to have {enemyIv} IVs, as the hack's trainer IVs are not documented.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * @file PlayerBuildCard component
+ * Compact editor for the user's own Pokémon used by inline damage calcs:
+ * species, level, nature, ability, item, and up to four damaging moves.
+ */
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { PokemonPicker } from '@/components/pokemon/PokemonPicker';
+import { abilitiesOf, defaultBuild, learnsetMoves, type PokemonBuild } from '@/lib/builds';
+import { CALC_ITEMS } from '@/lib/damage';
+import { NATURE_NAMES } from '@/lib/stats';
+import type { PokedexDetail } from '@/types/database';
+import { Calculator, X } from 'lucide-react';
+
+const MOVE_SLOTS = 4;
+
+interface PlayerBuildCardProps {
+  build?: PokemonBuild;
+  onChange: (build: PokemonBuild | undefined) => void;
+  /** Detail row of the selected species, once loaded. */
+  detail?: PokedexDetail;
+}
+
+export function PlayerBuildCard({ build, onChange, detail }: PlayerBuildCardProps) {
+  const moves = detail ? learnsetMoves(detail).filter((m) => m.category !== 'STATUS') : [];
+  const abilities = detail ? abilitiesOf(detail) : [];
+
+  const setMove = (slot: number, name: string) => {
+    if (!build) return;
+    const next = [...build.moves];
+    next[slot] = name;
+    onChange({ ...build, moves: next.filter(Boolean) });
+  };
+
+  return (
+    <Card data-testid="player-build">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg d-flex align-items-center gap-2">
+          <Calculator className="w-5 h-5" />
+          Calc against your Pokémon
+          {build && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ms-auto"
+              onClick={() => onChange(undefined)}
+              aria-label="Clear your Pokémon"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="row g-2 align-items-end">
+          <div className="col-12 col-md-4">
+            <PokemonPicker
+              label="Your Pokémon"
+              selectedName={detail?.display_name}
+              onSelect={(p) => onChange({ ...defaultBuild(p.forme_id), level: build?.level ?? 50 })}
+              data-testid="player-pokemon"
+            />
+          </div>
+          <div className="col-4 col-md-2">
+            <label htmlFor="player-level" className="form-label">
+              Level
+            </label>
+            <input
+              id="player-level"
+              type="number"
+              min={1}
+              max={100}
+              className="form-control"
+              disabled={!build}
+              value={build?.level ?? 50}
+              onChange={(e) =>
+                build &&
+                onChange({ ...build, level: Math.max(1, Math.min(100, parseInt(e.target.value, 10) || 1)) })
+              }
+            />
+          </div>
+          <div className="col-8 col-md-2">
+            <label htmlFor="player-nature" className="form-label">
+              Nature
+            </label>
+            <select
+              id="player-nature"
+              className="form-select"
+              disabled={!build}
+              value={build?.nature ?? 'Hardy'}
+              onChange={(e) => build && onChange({ ...build, nature: e.target.value })}
+            >
+              {NATURE_NAMES.map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="col-6 col-md-2">
+            <label htmlFor="player-ability" className="form-label">
+              Ability
+            </label>
+            <select
+              id="player-ability"
+              className="form-select"
+              disabled={!build}
+              value={build?.ability ?? ''}
+              onChange={(e) => build && onChange({ ...build, ability: e.target.value || undefined })}
+            >
+              <option value="">None</option>
+              {abilities.map((a) => (
+                <option key={a} value={a}>
+                  {a}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="col-6 col-md-2">
+            <label htmlFor="player-item" className="form-label">
+              Item
+            </label>
+            <select
+              id="player-item"
+              className="form-select"
+              disabled={!build}
+              value={build?.item ?? ''}
+              onChange={(e) => build && onChange({ ...build, item: e.target.value || undefined })}
+            >
+              <option value="">None</option>
+              {CALC_ITEMS.map((i) => (
+                <option key={i} value={i}>
+                  {i}
+                </option>
+              ))}
+            </select>
+          </div>
+          {Array.from({ length: MOVE_SLOTS }, (_, slot) => (
+            <div className="col-6 col-md-3" key={slot}>
+              <label htmlFor={`player-move-${slot}`} className="form-label small">
+                Move {slot + 1}
+              </label>
+              <select
+                id={`player-move-${slot}`}
+                className="form-select form-select-sm"
+                disabled={!moves.length}
+                value={build?.moves[slot] ?? ''}
+                onChange={(e) => setMove(slot, e.target.value)}
+              >
+                <option value="">—</option>
+                {moves.map((m) => (
+                  <option key={m.move_id} value={m.name}>
+                    {m.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+        {!build && (
+          <p className="text-sm text-muted-foreground mt-3 mb-0">
+            Pick one of your Pokémon to see how hard each enemy move hits it, and how hard its
+            moves hit back.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
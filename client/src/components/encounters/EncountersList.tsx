@@ -11,13 +11,20 @@
  * server-side and pagination is handled with explicit Previous/Next buttons
  * rather than auto-loading on scroll. Encounter rows show a high-contrast
  * progress bar for rates and tables virtualize when lists exceed 100 rows.
+ * While a Nuzlocke run is active the header shows whether the route's
+ * encounter is used, or links to the Run page to log it. Species the run's
+ * rule set would re-roll (dupes and species clauses) are marked or hidden,
+ * and every row shows its odds once those re-rolls are taken into account.
 */
 import { useState, useEffect, useMemo, type CSSProperties } from 'react';
 import { Link } from 'wouter';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQueryClient } from '@tanstack/react-query';
 import { useSearchParams } from '@/hooks/use-search-params';
+import { useEncounterFilters, useRouteEncounters, useRouteSlots } from '@/hooks/use-encounters';
+import { useCurrentRun } from '@/hooks/use-run';
+import { effectiveOdds, rerollChecker, ruleSetOf, type RerollReason } from '@/lib/rules';
+import { prefetchPokemonDetail, useEvolutionFamilies } from '@/hooks/use-pokedex';
 import { FixedSizeList as List, type ListChildComponentProps } from 'react-window';
-import { supabase } from '@/lib/supabase';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
@@ -26,8 +33,9 @@ import { Button } from '@/components/ui/button';
 import { TypeBadge } from '@/components/pokemon/TypeBadge';
 import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
-import { RouteEncounter, GameId, PokedexDetail } from '@/types/database';
+import { RouteEncounter, GameId } from '@/types/database';
 import { Sprite } from '@/components/common/Sprite';
+import { OutcomeBadge } from '@/components/run/OutcomeBadge';
 import { Map, Search, PawPrint } from 'lucide-react';
 
 interface EncountersListProps {
@@ -35,6 +43,18 @@ interface EncountersListProps {
   routeId: string;
 }
 
+/** Run rules applied to the encounter table. */
+interface RunClauses {
+  reroll: (formeId: string) => RerollReason | undefined;
+  /** Percent chance per encounter id after re-rolls. */
+  odds: Map<string, number>;
+}
+
+const rerollLabels: Record<RerollReason, string> = {
+  dupe: 'Dupe',
+  species: 'Seen',
+};
+
 /**
  * Maps encounter methods to background utility classes so tabs and
  * grouped tables share consistent color cues. Unknown methods fall back
@@ -84,6 +104,9 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
   const [timeOfDay, setTimeOfDay] = useState<string>('all');
   const [page, setPage] = useState(1);
   const [params, setParams] = useSearchParams();
+  const run = useCurrentRun();
+  const runEncounter = run?.encounters[routeId];
+  const [hideRerolled, setHideRerolled] = useState(false);
 
   // Debounce search input to avoid filtering on every keystroke
   useEffect(() => {
@@ -94,96 +117,35 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
   // Pagination page size
   const PAGE_SIZE = 50;
 
-  interface EncountersResponse {
-    rows: RouteEncounter[];
-    hasMore: boolean;
-  }
-
   const {
     data,
     isLoading,
     error,
     refetch,
-  } = useQuery<EncountersResponse>({
-    queryKey: [
-      'encounters',
-      gameId,
-      routeId,
-      selectedMethod,
-      timeOfDay,
-      debouncedSearchTerm,
-      page,
-    ],
-    staleTime: 5 * 60 * 1000,
-    gcTime: 15 * 60 * 1000,
-    queryFn: async () => {
-      let query = supabase
-        .from('v_route_encounters_full')
-        .select('*')
-        .eq('game_id', gameId)
-        .eq('route_id', routeId);
-
-      if (selectedMethod !== 'all') {
-        query = query.eq('method', selectedMethod);
-      }
-
-      if (timeOfDay && timeOfDay !== 'all') {
-        query = query.eq('time_of_day', timeOfDay);
-      }
+  } = useRouteEncounters(gameId, routeId, {
+    method: selectedMethod !== 'all' ? selectedMethod : undefined,
+    time: timeOfDay && timeOfDay !== 'all' ? timeOfDay : undefined,
+    search: debouncedSearchTerm || undefined,
+    page,
+    pageSize: PAGE_SIZE,
+  });
 
-      if (debouncedSearchTerm) {
-        query = query.ilike('forme_label', `%${debouncedSearchTerm}%`);
-      }
+  // Odds after re-rolls need every slot of the route, whatever page or search is shown.
+  const { data: slotTable } = useRouteSlots(gameId, routeId, Boolean(run));
 
-      const start = (page - 1) * PAGE_SIZE;
-      const end = start + PAGE_SIZE;
-
-      const { data, error } = await query
-        .order('sort_index')
-        .order('method')
-        .order('slot_no')
-        .range(start, end);
-
-      if (error) throw error;
-      const rows = (data ?? []).slice(0, PAGE_SIZE);
-      const hasMore = (data ?? []).length > PAGE_SIZE;
-      return { rows, hasMore };
-    },
-    enabled: !!routeId,
-  });
+  const familyOf = useEvolutionFamilies(gameId);
+  const clauses = useMemo<RunClauses | undefined>(() => {
+    if (!run) return undefined;
+    const reroll = rerollChecker(run, ruleSetOf(run), familyOf);
+    return { reroll, odds: effectiveOdds(slotTable ?? [], reroll) };
+  }, [run, slotTable, familyOf]);
 
-  // Fetch minimal encounter rows to derive available methods and times of day
-  const { data: metaRows = [] } = useQuery<Pick<RouteEncounter, 'method' | 'time_of_day' | 'route_name'>[]>({
-    queryKey: ['encounter-filters', gameId, routeId],
-    staleTime: 5 * 60 * 1000,
-    gcTime: 15 * 60 * 1000,
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('v_route_encounters_full')
-        .select('method, time_of_day, route_name')
-        .eq('game_id', gameId)
-        .eq('route_id', routeId);
-      if (error) throw error;
-      return data || [];
-    },
-    enabled: !!routeId,
-  });
+  // Available encounter methods and times of day for stable tab lists
+  const { data: filters } = useEncounterFilters(gameId, routeId);
 
-  // All encounter methods and times are derived up front for stable tab lists
-  const methods = useMemo(
-    () => Array.from(new Set(metaRows.map((e) => e.method))).sort(),
-    [metaRows]
-  );
-  const timesOfDay = useMemo(
-    () =>
-      Array.from(
-        new Set(
-          metaRows.map((e) => e.time_of_day).filter((t): t is string => Boolean(t))
-        )
-      ).sort(),
-    [metaRows]
-  );
-  const routeName = metaRows[0]?.route_name || 'Unknown Route';
+  const methods = useMemo(() => filters?.methods ?? [], [filters]);
+  const timesOfDay = useMemo(() => filters?.times_of_day ?? [], [filters]);
+  const routeName = filters?.route_name || 'Unknown Route';
 
   // Read method, time, search, and page from the URL whenever the query string changes
   useEffect(() => {
@@ -254,9 +216,9 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
     );
   }
 
-  const encounters = data?.rows ?? [];
+  const rows = data?.rows ?? [];
 
-  if (!encounters.length) {
+  if (!rows.length) {
     return (
       <div className="text-center py-12">
         <Search className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
@@ -266,7 +228,7 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
     );
   }
 
-  if ((debouncedSearchTerm || timeOfDay !== 'all') && encounters.length === 0) {
+  if ((debouncedSearchTerm || timeOfDay !== 'all') && rows.length === 0) {
     return (
       <div className="text-center py-12">
         <Search className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
@@ -276,6 +238,9 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
     );
   }
 
+  const encounters = hideRerolled && clauses ? rows.filter((e) => !clauses.reroll(e.forme_id)) : rows;
+  const rerolledCount = clauses ? rows.filter((e) => clauses.reroll(e.forme_id)).length : 0;
+
   // Group encounters by method for rendering
   const encountersByMethod = encounters.reduce((acc, encounter) => {
     if (!acc[encounter.method]) {
@@ -289,7 +254,7 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
   const displayedEncounters =
     selectedMethod === 'all' ? encounters : encountersByMethod[selectedMethod] ?? [];
   const isFiltered =
-    selectedMethod !== 'all' || !!debouncedSearchTerm || timeOfDay !== 'all';
+    selectedMethod !== 'all' || !!debouncedSearchTerm || timeOfDay !== 'all' || (hideRerolled && rerolledCount > 0);
 
   return (
     <Card>
@@ -306,6 +271,22 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
             </CardTitle>
             <p className="text-muted-foreground text-sm">Wild Pokémon encounters and rates</p>
           </div>
+          {run && (
+            <div className="flex items-center gap-2 text-sm flex-shrink-0" data-testid="route-run-status">
+              {runEncounter ? (
+                <>
+                  <OutcomeBadge outcome={runEncounter.outcome} />
+                  <span className="text-muted-foreground">
+                    {runEncounter.nickname || runEncounter.species || 'Encounter used'}
+                  </span>
+                </>
+              ) : (
+                <Link href={`/run?game=${gameId}&route=${routeId}`} className="underline">
+                  Log encounter
+                </Link>
+              )}
+            </div>
+          )}
         </div>
       </CardHeader>
 
@@ -321,6 +302,25 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
             Showing {displayedEncounters.length} Pokémon
             {isFiltered && ' (filtered)'}
           </p>
+          {clauses && run && (
+            <div className="flex flex-wrap items-center gap-3 text-sm" data-testid="run-clauses">
+              <div className="form-check mb-0">
+                <input
+                  id="hide-rerolled"
+                  type="checkbox"
+                  className="form-check-input"
+                  checked={hideRerolled}
+                  onChange={(e) => setHideRerolled(e.target.checked)}
+                />
+                <label htmlFor="hide-rerolled" className="form-check-label">
+                  Hide re-rolled species ({rerolledCount})
+                </label>
+              </div>
+              <span className="text-muted-foreground">
+                Odds after re-rolls follow {ruleSetOf(run).label} rules
+              </span>
+            </div>
+          )}
         </div>
 
         <Tabs value={selectedMethod} onValueChange={setSelectedMethod}>
@@ -369,7 +369,7 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
           )}
 
           <TabsContent value="all" className="mt-0">
-            <EncountersTable gameId={gameId} encounters={encounters} groupByMethod={true} />
+            <EncountersTable gameId={gameId} encounters={encounters} groupByMethod={true} clauses={clauses} />
           </TabsContent>
 
           {methods.map((method) => (
@@ -378,6 +378,7 @@ export function EncountersList({ gameId, routeId }: EncountersListProps) {
                 gameId={gameId}
                 encounters={encountersByMethod[method] ?? []}
                 groupByMethod={false}
+                clauses={clauses}
               />
             </TabsContent>
           ))}
@@ -418,10 +419,12 @@ function EncountersTable({
   gameId,
   encounters,
   groupByMethod,
+  clauses,
 }: {
   gameId: GameId;
   encounters: RouteEncounter[];
   groupByMethod: boolean;
+  clauses?: RunClauses;
 }) {
   const useVirtual = !groupByMethod && encounters.length > 100;
 
@@ -460,7 +463,13 @@ function EncountersTable({
                 </thead>
                 <tbody>
                   {methodEncounters.map((encounter, index) => (
-                    <EncounterRow key={`${encounter.id}-${index}`} encounter={encounter} gameId={gameId} showMethod={false} />
+                    <EncounterRow
+                      key={`${encounter.id}-${index}`}
+                      encounter={encounter}
+                      gameId={gameId}
+                      showMethod={false}
+                      clauses={clauses}
+                    />
                   ))}
                 </tbody>
               </table>
@@ -504,6 +513,7 @@ function EncountersTable({
                 gameId={gameId}
                 showMethod={false}
                 style={style}
+                clauses={clauses}
               />
             )}
           </List>
@@ -531,7 +541,13 @@ function EncountersTable({
         </thead>
         <tbody>
           {encounters.map((encounter, index) => (
-            <EncounterRow key={`${encounter.id}-${index}`} encounter={encounter} gameId={gameId} showMethod={false} />
+            <EncounterRow
+              key={`${encounter.id}-${index}`}
+              encounter={encounter}
+              gameId={gameId}
+              showMethod={false}
+              clauses={clauses}
+            />
           ))}
         </tbody>
       </table>
@@ -542,32 +558,21 @@ function EncountersTable({
 /**
  * Displays a single encounter row with sprite, typing, level range, slim rate
  * progress bar and other metadata. The sprite and name link to the detailed
- * Pokémon view for the current game.
+ * Pokémon view for the current game. With run clauses, re-rolled species are
+ * dimmed and tagged, and the rate is followed by the odds after re-rolls.
  */
-function EncounterRow({ encounter, showMethod, gameId, style }: { encounter: RouteEncounter, showMethod: boolean, gameId: GameId, style?: CSSProperties }) {
+function EncounterRow({ encounter, showMethod, gameId, style, clauses }: { encounter: RouteEncounter, showMethod: boolean, gameId: GameId, style?: CSSProperties, clauses?: RunClauses }) {
   const queryClient = useQueryClient();
-  const prefetch = () =>
-    queryClient.prefetchQuery<PokedexDetail | null>({
-      queryKey: ['pokedex-detail', encounter.forme_id, gameId],
-      staleTime: 5 * 60 * 1000,
-      gcTime: 15 * 60 * 1000,
-      queryFn: async () => {
-        const { data, error } = await supabase
-          .from('v_pokedex_detail_app')
-          .select('*')
-          .eq('game_id', gameId)
-          .eq('forme_id', encounter.forme_id)
-          .maybeSingle();
-        if (error) throw error;
-        return data;
-      },
-    });
+  const prefetch = () => prefetchPokemonDetail(queryClient, gameId, encounter.forme_id);
+  const reroll = clauses?.reroll(encounter.forme_id);
+  const odds = clauses?.odds.get(encounter.id);
 
   return (
     <tr
       style={style}
-      className="odd:bg-muted/10 even:bg-muted/5 hover:bg-muted/20 transition-colors"
+      className={`odd:bg-muted/10 even:bg-muted/5 hover:bg-muted/20 transition-colors ${reroll ? 'opacity-50' : ''}`}
       data-testid={`encounter-${encounter.forme_id}`}
+      data-reroll={reroll}
     >
       <td>
         <Link
@@ -588,6 +593,11 @@ function EncounterRow({ encounter, showMethod, gameId, style }: { encounter: Rou
           <span className="font-medium truncate">
             {encounter.forme_label}
           </span>
+          {reroll && (
+            <span className="px-2 py-0.5 bg-muted text-muted-foreground text-xs rounded" title="Re-rolled by the run's rules">
+              {rerollLabels[reroll]}
+            </span>
+          )}
         </Link>
       </td>
       <td>
@@ -614,6 +624,11 @@ function EncounterRow({ encounter, showMethod, gameId, style }: { encounter: Rou
           <span className="font-mono fw-semibold whitespace-nowrap">
             {encounter.rate}%
           </span>
+          {odds !== undefined && (
+            <span className="font-mono text-muted-foreground whitespace-nowrap" title="Chance after re-rolls">
+              → {Number(odds.toFixed(1))}%
+            </span>
+          )}
         </div>
       </td>
       {encounter.subarea && (
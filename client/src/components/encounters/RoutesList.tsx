@@ -2,7 +2,8 @@
  * @file Searchable route selection combobox.
  * Uses a `Command` interface to filter routes by name with optional
  * A–Z grouping. Designed for use in both the desktop sidebar and
- * mobile sheet drawer so routing logic lives in one place.
+ * mobile sheet drawer so routing logic lives in one place. Routes whose
+ * encounter is already used in the current run are checked off.
  */
 import { useMemo } from 'react';
 import {
@@ -13,17 +14,15 @@ import {
   CommandItem,
   CommandList,
 } from '@/components/ui/command';
-
-interface Route {
-  route_id: string;
-  route_name: string;
-  sort_index: number;
-}
+import type { RouteSummary as Route } from '@/types/database';
+import { CheckCircle2 } from 'lucide-react';
 
 interface RoutesListProps {
   routes: Route[];
   selectedRoute: string | null;
   onRouteSelect: (routeId: string) => void;
+  /** Route ids whose encounter the current run has already used. */
+  usedRoutes?: ReadonlySet<string>;
 }
 
 /**
@@ -31,7 +30,7 @@ interface RoutesListProps {
  * first letter and selecting an item notifies the parent so it can close
  * the drawer and sync the URL.
  */
-export function RoutesList({ routes, selectedRoute, onRouteSelect }: RoutesListProps) {
+export function RoutesList({ routes, selectedRoute, onRouteSelect, usedRoutes }: RoutesListProps) {
   const groups = useMemo(() => {
     const map = new Map<string, Route[]>();
     routes.forEach((r) => {
@@ -65,8 +64,14 @@ export function RoutesList({ routes, selectedRoute, onRouteSelect }: RoutesListP
                 onSelect={() => onRouteSelect(route.route_id)}
                 data-selected={selectedRoute === route.route_id}
                 data-testid={`route-${route.route_id}`}
+                data-used={usedRoutes?.has(route.route_id) || undefined}
               >
-                {route.route_name}
+                <span className={usedRoutes?.has(route.route_id) ? 'text-muted-foreground' : undefined}>
+                  {route.route_name}
+                </span>
+                {usedRoutes?.has(route.route_id) && (
+                  <CheckCircle2 className="ms-auto h-4 w-4 text-muted-foreground" aria-label="Encounter used" />
+                )}
               </CommandItem>
             ))}
           </CommandGroup>
@@ -5,6 +5,7 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { ArrowUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
 
 /**
  * Renders the Back to Top control.
@@ -8,7 +8,7 @@ import { Link, useLocation } from "wouter";
 import { useEffect, useState, type CSSProperties } from "react";
 import { GameSwitcher } from "@/components/ui/game-switcher";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
-import { Chrome as Home, Book, Map, Users } from "lucide-react";
+import { Chrome as Home, Book, Map, Users, Swords, Flag, Zap, Sparkles, Shield, Gauge, Milestone } from "lucide-react";
 import { useGame } from "@/hooks/use-game";
 import { useGames } from "@/hooks/use-games";
 import type { GameId } from "@/types/database";
@@ -21,8 +21,18 @@ function getSectionLabel(pathname: string): string {
   const sections: Record<string, string> = {
     '/': 'Home',
     '/pokedex': 'Pokédex',
+    '/moves': 'Moves',
+    '/move': 'Moves',
+    '/abilities': 'Abilities',
+    '/ability': 'Abilities',
     '/encounters': 'Encounters',
     '/trainers': 'Trainers',
+    '/calc': 'Damage Calc',
+    '/run': 'Run',
+    '/team': 'Team Builder',
+    '/speed': 'Speed Tiers',
+    '/roadmap': 'Roadmap',
+    '/split': 'Roadmap',
   };
 
   const match = Object.keys(sections).find((key) =>
@@ -37,8 +47,15 @@ function getSectionLabel(pathname: string): string {
 const navItems = [
   { href: "/", label: "Home", icon: Home },
   { href: "/pokedex", label: "Pokédex", icon: Book },
+  { href: "/moves", label: "Moves", icon: Zap },
+  { href: "/abilities", label: "Abilities", icon: Sparkles },
   { href: "/encounters", label: "Encounters", icon: Map },
   { href: "/trainers", label: "Trainers", icon: Users },
+  { href: "/calc", label: "Calc", icon: Swords },
+  { href: "/run", label: "Run", icon: Flag },
+  { href: "/team", label: "Team", icon: Shield },
+  { href: "/speed", label: "Speed", icon: Gauge },
+  { href: "/roadmap", label: "Roadmap", icon: Milestone },
 ];
 
 /**
@@ -138,8 +155,8 @@ export function Navigation() {
           <GameSwitcher />
           <ThemeToggle />
         </div>
+        </div>
       </div>
     </nav>
-    </nav>
   );
 }
@@ -0,0 +1,60 @@
+/**
+ * @file DefensiveMatchups component
+ * Grid of the attacking types that hit a Pokémon for 4×, 2×, ½×, ¼×, or not
+ * at all under the game's type chart, followed by the immunities its
+ * abilities can add, such as Levitate against Ground.
+ */
+import { TypeBadge } from './TypeBadge';
+import { gameGeneration, gameTypeChart } from '@/lib/games';
+import { abilityImmunities, defensiveMatchups, typeEffectiveness } from '@/lib/type-chart';
+import type { GameId, PokedexDetail } from '@/types/database';
+
+interface DefensiveMatchupsProps {
+  pokemon: PokedexDetail;
+  gameId: GameId;
+}
+
+export function DefensiveMatchups({ pokemon, gameId }: DefensiveMatchupsProps) {
+  const chart = gameTypeChart(gameId);
+  const types = [pokemon.type1_id, pokemon.type2_id];
+  const buckets = defensiveMatchups(types, chart);
+  const immunities = abilityImmunities(
+    [pokemon.ability1_name, pokemon.ability2_name, pokemon.hidden_ability_name],
+    types,
+    chart,
+    gameGeneration(gameId),
+  );
+
+  return (
+    <div data-testid="defensive-matchups">
+      <dl className="grid gap-2 mb-0">
+        {buckets.map((bucket) => (
+          <div key={bucket.label} className="grid grid-cols-[4rem_1fr] items-center gap-2">
+            <dt className="text-sm font-semibold tabular-nums">{bucket.label}</dt>
+            <dd className="flex flex-wrap gap-1 mb-0" data-testid={`matchup-${bucket.multiplier}`}>
+              {bucket.types.length ? (
+                bucket.types.map((t) => <TypeBadge key={t} type={t} className="text-xs" />)
+              ) : (
+                <span className="text-sm text-muted-foreground">—</span>
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      {immunities.length > 0 && (
+        <ul className="list-none p-0 mt-3 mb-0 space-y-1 text-sm" data-testid="ability-immunities">
+          {immunities.map(({ ability, types: blocked }) => (
+            <li key={ability}>
+              <span className="font-medium">{ability}</span> makes it immune to{' '}
+              {blocked
+                .map((t) => `${t.charAt(0).toUpperCase()}${t.slice(1)} (${typeEffectiveness(t, types, chart)}×)`)
+                .join(', ')}
+              .
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground mt-3 mb-0">{chart.label} type chart.</p>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * @file EvolutionChain component
+ * Renders a Pokémon's evolution family from its first stage, with the hack's
+ * method for each step. Branching evolutions stack vertically; every stage
+ * links to its detail page in the same game.
+ */
+import { Link } from 'wouter';
+import { Sprite } from '@/components/common/Sprite';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { useEvolutions } from '@/hooks/use-pokedex';
+import { describeEvolution, evolutionChain, type EvolutionNode } from '@/lib/evolution';
+import type { GameId } from '@/types/database';
+import { ArrowRight } from 'lucide-react';
+
+interface EvolutionChainProps {
+  gameId: GameId;
+  formeId: string;
+}
+
+function Stage({ node, gameId, current }: { node: EvolutionNode; gameId: GameId; current: string }) {
+  const active = node.formeId === current;
+  return (
+    <div className="flex items-center gap-2">
+      {node.evolution && (
+        <div className="flex flex-col items-center text-xs text-muted-foreground text-center w-24">
+          <ArrowRight className="h-4 w-4" aria-hidden="true" />
+          <span>{describeEvolution(node.evolution)}</span>
+        </div>
+      )}
+      <Link
+        href={`/pokemon/${node.formeId}?game=${gameId}`}
+        className={`flex flex-col items-center rounded-md p-2 ${active ? 'bg-muted/50 ring-1 ring-primary' : 'hover:bg-muted/30'}`}
+        aria-current={active ? 'page' : undefined}
+        data-testid={`evolution-${node.formeId}`}
+      >
+        <Sprite src={node.spriteUrl} alt={node.name} size={64} width={64} height={64} />
+        <span className="text-sm font-medium">{node.name}</span>
+      </Link>
+      {node.next.length > 0 && (
+        <div className="flex flex-col gap-2">
+          {node.next.map((child) => (
+            <Stage key={child.formeId} node={child} gameId={gameId} current={current} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function EvolutionChain({ gameId, formeId }: EvolutionChainProps) {
+  const { data: evolutions, isLoading, error } = useEvolutions(gameId);
+
+  if (isLoading) return <LoadingSkeleton className="h-24 w-full" />;
+  if (error) return <p className="text-sm text-destructive mb-0">Evolution data could not be loaded.</p>;
+
+  const chain = evolutionChain(evolutions ?? [], formeId);
+  if (!chain) return <p className="text-sm text-muted-foreground mb-0">This Pokémon does not evolve.</p>;
+
+  return (
+    <div className="overflow-x-auto" data-testid="evolution-chain">
+      <Stage node={chain} gameId={gameId} current={formeId} />
+    </div>
+  );
+}
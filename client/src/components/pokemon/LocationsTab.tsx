@@ -0,0 +1,101 @@
+/**
+ * @file LocationsTab component
+ * Lists every wild encounter table a Pokémon appears in across the game's
+ * routes, in route order, with links into the Encounters page filtered to
+ * the route and method. Says plainly when the Pokémon is not found in the
+ * wild, pointing at its pre-evolution when it has one.
+ */
+import { Link } from 'wouter';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { ErrorBoundary } from '@/components/ui/error-boundary';
+import { usePokemonEncounters } from '@/hooks/use-encounters';
+import { useEvolutions } from '@/hooks/use-pokedex';
+import { summarizeLocations } from '@/lib/locations';
+import type { GameId } from '@/types/database';
+
+interface LocationsTabProps {
+  gameId: GameId;
+  formeId: string;
+  name: string;
+}
+
+const titleCase = (value: string): string =>
+  value
+    .toLowerCase()
+    .split(/[\s_-]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+export function LocationsTab({ gameId, formeId, name }: LocationsTabProps) {
+  const { data: encounters, isLoading, error, refetch } = usePokemonEncounters(gameId, formeId);
+  const { data: evolutions } = useEvolutions(gameId);
+
+  if (isLoading) return <LoadingSkeleton count={4} className="h-8" />;
+  if (error) {
+    return <ErrorBoundary error={error} onRetry={() => refetch()} title="Failed to load locations" />;
+  }
+
+  const locations = summarizeLocations(encounters ?? []);
+  if (!locations.length) {
+    const parent = evolutions?.find((e) => e.to_forme_id === formeId);
+    return (
+      <div className="text-center py-8" data-testid="locations-unobtainable">
+        <p className="font-semibold text-foreground mb-1">{name} is not found in the wild in {gameId}.</p>
+        <p className="text-muted-foreground mb-0">
+          {parent ? (
+            <>
+              Evolve{' '}
+              <Link href={`/pokemon/${parent.from_forme_id}?game=${gameId}`} className="underline">
+                {parent.from_name}
+              </Link>{' '}
+              or look for it as a gift, trade, or event Pokémon.
+            </>
+          ) : (
+            'Look for it as a gift, trade, or event Pokémon.'
+          )}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-sm align-middle text-sm mb-0" data-testid="locations-table">
+        <thead>
+          <tr>
+            <th>Route</th>
+            <th>Method</th>
+            <th>Time</th>
+            <th>Subarea</th>
+            <th className="text-end">Levels</th>
+            <th className="text-end">Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {locations.map((l) => (
+            <tr key={`${l.routeId}-${l.method}-${l.timeOfDay ?? ''}-${l.subarea ?? ''}-${l.weather ?? ''}`}>
+              <td>
+                <Link
+                  href={`/encounters?game=${gameId}&route=${encodeURIComponent(l.routeId)}&method=${encodeURIComponent(l.method)}`}
+                  className="underline"
+                >
+                  {l.routeName}
+                </Link>
+              </td>
+              <td>
+                {titleCase(l.method)}
+                {l.weather && <span className="text-muted-foreground"> ({titleCase(l.weather)})</span>}
+              </td>
+              <td>{l.timeOfDay ? titleCase(l.timeOfDay) : 'Any'}</td>
+              <td>{l.subarea ?? '—'}</td>
+              <td className="text-end tabular-nums">
+                {l.minLevel === l.maxLevel ? l.minLevel : `${l.minLevel}–${l.maxLevel}`}
+              </td>
+              <td className="text-end tabular-nums">{l.rate}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -6,11 +6,11 @@
 import { Link } from 'wouter';
 import { Card, CardContent } from '@/components/ui/card';
 import { TypeBadge } from './TypeBadge';
-import { PokedexEntry, PokedexDetail } from '@/types/database';
+import { PokedexEntry } from '@/types/database';
 import { useGame } from '@/hooks/use-game';
+import { prefetchPokemonDetail } from '@/hooks/use-pokedex';
 import { Sprite } from '@/components/common/Sprite';
 import { useQueryClient } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
 
 interface PokemonCardProps {
   pokemon: PokedexEntry;
@@ -26,22 +26,7 @@ export function PokemonCard({ pokemon }: PokemonCardProps) {
   const queryClient = useQueryClient();
 
   // Prefetch detailed data when the card receives focus or hover
-  const prefetch = () =>
-    queryClient.prefetchQuery<PokedexDetail | null>({
-      queryKey: ['pokedex-detail', pokemon.forme_id, currentGame],
-      staleTime: 5 * 60 * 1000,
-      gcTime: 15 * 60 * 1000,
-      queryFn: async () => {
-        const { data, error } = await supabase
-          .from('v_pokedex_detail_app')
-          .select('*')
-          .eq('game_id', currentGame)
-          .eq('forme_id', pokemon.forme_id)
-          .maybeSingle();
-        if (error) throw error;
-        return data;
-      },
-    });
+  const prefetch = () => prefetchPokemonDetail(queryClient, currentGame, pokemon.forme_id);
 
   return (
     <Link
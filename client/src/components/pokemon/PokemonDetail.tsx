@@ -1,11 +1,10 @@
 /**
- * @file Detailed view for a single Pokémon including stats, abilities, and
- * learnset. The layout employs responsive grids and cards while sprites use
- * Bootstrap ratio utilities and explicit sizing to remain crisp across breakpoints.
+ * @file Detailed view for a single Pokémon including stats, a stat calculator, abilities,
+ * defensive type matchups, evolution chain, learnset, wild locations, and trainers using it. The
+ * layout employs responsive grids and cards while sprites use Bootstrap ratio
+ * utilities and explicit sizing to remain crisp across breakpoints.
 */
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TypeBadge } from './TypeBadge';
@@ -15,6 +14,13 @@ import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { PokedexDetail, GameId } from '@/types/database';
 import { Sprite } from '@/components/common/Sprite';
 import { InfoTooltip } from '@/components/ui/InfoTooltip';
+import { usePokemonDetail } from '@/hooks/use-pokedex';
+import { compareLearnMethods } from '@/lib/moves';
+import { DefensiveMatchups } from './DefensiveMatchups';
+import { EvolutionChain } from './EvolutionChain';
+import { LocationsTab } from './LocationsTab';
+import { StatCalculator } from './StatCalculator';
+import { TrainersTab } from './TrainersTab';
 
 interface PokemonDetailProps {
   formeId: string;
@@ -78,10 +84,10 @@ function buildMoveTooltip(move: {
 }
 
 /**
- * Show types, abilities, and base stats inside responsive cards for the
- * overview tab.
+ * Show types, abilities, base stats, a stat calculator, defensive matchups,
+ * and the evolution chain inside responsive cards for the overview tab.
  */
-function OverviewTab({ pokemon }: { pokemon: PokedexDetail }) {
+function OverviewTab({ pokemon, gameId }: { pokemon: PokedexDetail; gameId: GameId }) {
   return (
     <div className="grid gap-6">
       <Card>
@@ -129,6 +135,27 @@ function OverviewTab({ pokemon }: { pokemon: PokedexDetail }) {
           <BaseStatsDisplay pokemon={pokemon} />
         </CardContent>
       </Card>
+
+      <Card>
+        <CardContent>
+          <h3 className="mb-3 text-lg font-semibold text-foreground">Stat Calculator</h3>
+          <StatCalculator pokemon={pokemon} gameId={gameId} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <h3 className="mb-3 text-lg font-semibold text-foreground">Type Matchups</h3>
+          <DefensiveMatchups pokemon={pokemon} gameId={gameId} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <h3 className="mb-3 text-lg font-semibold text-foreground">Evolution</h3>
+          <EvolutionChain gameId={gameId} formeId={pokemon.forme_id} />
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -148,15 +175,7 @@ function LearnsetTab({ learnset }: { learnset: PokedexDetail['learnset'] }) {
   }
 
   // Sort methods in a logical order
-  const methodOrder = ['LEVEL', 'TM', 'HM', 'TUTOR', 'EGG', 'OTHER'];
-  const sortedMethods = Object.keys(learnset).sort((a, b) => {
-    const aIndex = methodOrder.indexOf(a);
-    const bIndex = methodOrder.indexOf(b);
-    if (aIndex === -1 && bIndex === -1) return a.localeCompare(b);
-    if (aIndex === -1) return 1;
-    if (bIndex === -1) return -1;
-    return aIndex - bIndex;
-  });
+  const sortedMethods = Object.keys(learnset).sort(compareLearnMethods);
 
   return (
     <div className="grid gap-6">
@@ -216,23 +235,9 @@ function LearnsetTab({ learnset }: { learnset: PokedexDetail['learnset'] }) {
  * @param gameId - Game context used for data queries.
  */
 export default function PokemonDetail({ formeId, gameId }: PokemonDetailProps) {
-  const [tab, setTab] = useState<'overview' | 'learnset'>('overview');
+  const [tab, setTab] = useState<'overview' | 'learnset' | 'locations' | 'trainers'>('overview');
 
-  const { data: pokemon, isLoading, error, refetch } = useQuery<PokedexDetail | null>({
-    queryKey: ['pokedex-detail', formeId, gameId],
-    staleTime: 5 * 60 * 1000,
-    gcTime: 15 * 60 * 1000,
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('v_pokedex_detail_app')
-        .select('*')
-        .eq('game_id', gameId)
-        .eq('forme_id', formeId)
-        .maybeSingle();
-      if (error) throw error;
-      return data;
-    },
-  });
+  const { data: pokemon, isLoading, error, refetch } = usePokemonDetail(gameId, formeId);
 
   if (isLoading) return <LoadingSkeleton count={6} className="h-8" />;
   if (error) return <ErrorBoundary error={error} onRetry={() => refetch()} title="Failed to load Pokémon" />;
@@ -265,18 +270,28 @@ export default function PokemonDetail({ formeId, gameId }: PokemonDetailProps) {
         <Card>
           <CardContent className="p-0">
             <Tabs value={tab} onValueChange={(v: any) => setTab(v)}>
-              <TabsList className="grid w-full grid-cols-2 gap-1 rounded-lg bg-muted/40 p-1">
+              <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 gap-1 rounded-lg bg-muted/40 p-1">
                 <TabsTrigger value="overview" className="data-[state=active]:bg-background data-[state=active]:shadow">Overview</TabsTrigger>
                 <TabsTrigger value="learnset" className="data-[state=active]:bg-background data-[state=active]:shadow">Learnset</TabsTrigger>
+                <TabsTrigger value="locations" className="data-[state=active]:bg-background data-[state=active]:shadow">Locations</TabsTrigger>
+                <TabsTrigger value="trainers" className="data-[state=active]:bg-background data-[state=active]:shadow">Used by trainers</TabsTrigger>
               </TabsList>
 
               <TabsContent value="overview" className="p-6">
-                <OverviewTab pokemon={pokemon} />
+                <OverviewTab pokemon={pokemon} gameId={gameId} />
               </TabsContent>
 
               <TabsContent value="learnset" className="p-6">
                 <LearnsetTab learnset={pokemon.learnset} />
               </TabsContent>
+
+              <TabsContent value="locations" className="p-6">
+                <LocationsTab gameId={gameId} formeId={formeId} name={pokemon.display_name} />
+              </TabsContent>
+
+              <TabsContent value="trainers" className="p-6">
+                <TrainersTab gameId={gameId} formeId={formeId} name={pokemon.display_name} />
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
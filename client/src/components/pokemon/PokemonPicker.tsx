@@ -0,0 +1,109 @@
+/**
+ * @file PokemonPicker component
+ * Search-as-you-type field for choosing a Pokémon of the current game.
+ * Matches are read from the paginated Pokédex endpoint and listed in a
+ * keyboard-accessible dropdown below the input.
+ */
+import { useId, useState } from 'react';
+import { Sprite } from '@/components/common/Sprite';
+import { useGame } from '@/hooks/use-game';
+import { usePokedex } from '@/hooks/use-pokedex';
+import type { PokedexEntry } from '@/types/database';
+
+interface PokemonPickerProps {
+  /** Label shown above the input. */
+  label: string;
+  /** Display name of the current selection, shown when not searching. */
+  selectedName?: string;
+  onSelect: (pokemon: PokedexEntry) => void;
+  'data-testid'?: string;
+}
+
+export function PokemonPicker({ label, selectedName, onSelect, ...rest }: PokemonPickerProps) {
+  const { currentGame } = useGame();
+  const inputId = useId();
+  const listId = useId();
+  const [search, setSearch] = useState('');
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const { data } = usePokedex(currentGame, { search: search.trim(), page: 1, perPage: 8 });
+  const matches = open ? data?.items ?? [] : [];
+
+  const choose = (pokemon: PokedexEntry) => {
+    onSelect(pokemon);
+    setSearch('');
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!matches.length) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive((i) => (i + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive((i) => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(matches[active] ?? matches[0]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="position-relative">
+      <label htmlFor={inputId} className="form-label">
+        {label}
+      </label>
+      <input
+        id={inputId}
+        type="search"
+        className="form-control"
+        role="combobox"
+        aria-expanded={matches.length > 0}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        placeholder={selectedName || 'Search Pokémon'}
+        value={open ? search : selectedName ?? ''}
+        onFocus={() => {
+          setOpen(true);
+          setActive(0);
+        }}
+        onBlur={() => setOpen(false)}
+        onChange={(e) => {
+          setSearch(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        data-testid={rest['data-testid']}
+      />
+      {matches.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="list-group position-absolute w-100 shadow z-10 mt-1"
+        >
+          {matches.map((pokemon, i) => (
+            <li
+              key={pokemon.forme_id}
+              role="option"
+              aria-selected={i === active}
+              className={`list-group-item list-group-item-action d-flex align-items-center gap-2 py-1 ${
+                i === active ? 'active' : ''
+              }`}
+              // Keep focus in the input so blur does not close the list first.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(pokemon)}
+            >
+              <Sprite src={pokemon.sprite_default_url} alt="" size="w-8 h-8" />
+              {pokemon.display_name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
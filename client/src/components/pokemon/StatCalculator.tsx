@@ -0,0 +1,208 @@
+/**
+ * @file StatCalculator component
+ * Actual stats of a species at a chosen level, nature, IVs, and EVs, using
+ * the Generation III–V formula. The level starts at the next level cap
+ * from the game's splits, judged by the highest level in the run's party.
+ * Entering a stat seen in game solves the IVs that can produce it.
+ */
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useRun } from '@/hooks/use-run';
+import { useSplits } from '@/hooks/use-splits';
+import { baseStatsOf } from '@/lib/builds';
+import { runPokemon } from '@/lib/run';
+import { levelCaps, nextLevelCap } from '@/lib/splits';
+import {
+  MAX_EV,
+  MAX_IV,
+  MAX_TOTAL_EVS,
+  NATURES,
+  NATURE_NAMES,
+  STAT_KEYS,
+  STAT_LABELS,
+  calcStat,
+  ivRange,
+  uniformSpread,
+  type StatKey,
+  type StatSpread,
+} from '@/lib/stats';
+import type { GameId, PokedexDetail } from '@/types/database';
+
+/** Level shown when the game has no level caps. */
+const DEFAULT_LEVEL = 50;
+
+/** Nature name with the stats it raises and lowers, e.g. `Adamant (+Atk, −SpA)`. */
+function natureLabel(nature: string): string {
+  const { plus, minus } = NATURES[nature];
+  return plus && minus ? `${nature} (+${STAT_LABELS[plus]}, −${STAT_LABELS[minus]})` : nature;
+}
+
+function formatRange({ min, max }: { min: number; max: number }): string {
+  return min === max ? String(min) : `${min}–${max}`;
+}
+
+interface StatCalculatorProps {
+  pokemon: PokedexDetail;
+  gameId: GameId;
+}
+
+export function StatCalculator({ pokemon, gameId }: StatCalculatorProps) {
+  const { data: splits = [] } = useSplits(gameId);
+  const run = useRun((state) => state.runs[gameId]);
+  const [level, setLevel] = useState<number>();
+  const [nature, setNature] = useState('Hardy');
+  const [ivs, setIvs] = useState<StatSpread>(uniformSpread(MAX_IV));
+  const [evs, setEvs] = useState<StatSpread>(uniformSpread(0));
+  const [observed, setObserved] = useState<Partial<Record<StatKey, string>>>({});
+
+  const partyLevel = run ? Math.max(0, ...runPokemon(run, 'party').map((e) => e.level ?? 0)) : undefined;
+  const defaultLevel = nextLevelCap(splits, partyLevel) ?? DEFAULT_LEVEL;
+  const effectiveLevel = level ?? defaultLevel;
+  const caps = levelCaps(splits);
+  const base = baseStatsOf(pokemon);
+  const { plus, minus } = NATURES[nature] ?? {};
+  const evTotal = STAT_KEYS.reduce((sum, stat) => sum + evs[stat], 0);
+
+  const clamp = (value: string, max: number) => Math.max(0, Math.min(max, parseInt(value, 10) || 0));
+
+  return (
+    <div className="space-y-3" data-testid="stat-calculator">
+      <div className="row g-2 align-items-end">
+        <div className="col-6 col-md-3">
+          <label htmlFor="stat-calc-level" className="form-label">
+            Level
+          </label>
+          <input
+            id="stat-calc-level"
+            type="number"
+            min={1}
+            max={100}
+            className="form-control"
+            value={effectiveLevel}
+            onChange={(e) => setLevel(Math.max(1, Math.min(100, parseInt(e.target.value, 10) || 1)))}
+          />
+        </div>
+        {splits.length > 0 && (
+          <div className="col-6 col-md-4">
+            <label htmlFor="stat-calc-cap" className="form-label">
+              Level cap
+            </label>
+            <select
+              id="stat-calc-cap"
+              className="form-select"
+              value=""
+              onChange={(e) => e.target.value && setLevel(Number(e.target.value))}
+            >
+              <option value="">Jump to a split…</option>
+              {splits.map((s, i) =>
+                caps[i] ? (
+                  <option key={s.name} value={caps[i]}>
+                    {s.name} (Lv. {caps[i]})
+                  </option>
+                ) : null,
+              )}
+            </select>
+          </div>
+        )}
+        <div className="col-12 col-md-5">
+          <label htmlFor="stat-calc-nature" className="form-label">
+            Nature
+          </label>
+          <select id="stat-calc-nature" className="form-select" value={nature} onChange={(e) => setNature(e.target.value)}>
+            {NATURE_NAMES.map((n) => (
+              <option key={n} value={n}>
+                {natureLabel(n)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="table-responsive">
+        <table className="table table-sm align-middle text-sm mb-0 text-center">
+          <thead>
+            <tr>
+              <th scope="col" className="text-start">
+                Stat
+              </th>
+              <th scope="col">Base</th>
+              <th scope="col">IV</th>
+              <th scope="col">EV</th>
+              <th scope="col">Stat</th>
+              <th scope="col">Seen in game</th>
+              <th scope="col">Possible IVs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {STAT_KEYS.map((stat) => {
+              const value = calcStat(stat, base[stat], ivs[stat], evs[stat], effectiveLevel, nature);
+              const seen = parseInt(observed[stat] ?? '', 10);
+              const range = Number.isNaN(seen)
+                ? undefined
+                : ivRange(stat, base[stat], seen, evs[stat], effectiveLevel, nature);
+              const natureClass = stat === plus ? 'text-green-600' : stat === minus ? 'text-red-600' : undefined;
+              return (
+                <tr key={stat} data-testid={`stat-row-${stat}`}>
+                  <th scope="row" className={cn('text-start', natureClass)}>
+                    {STAT_LABELS[stat]}
+                    {stat === plus && <span aria-label="raised by nature"> ↑</span>}
+                    {stat === minus && <span aria-label="lowered by nature"> ↓</span>}
+                  </th>
+                  <td className="tabular-nums">{base[stat]}</td>
+                  <td className="p-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_IV}
+                      className="form-control form-control-sm px-1 text-center"
+                      aria-label={`${STAT_LABELS[stat]} IV`}
+                      value={ivs[stat]}
+                      onChange={(e) => setIvs({ ...ivs, [stat]: clamp(e.target.value, MAX_IV) })}
+                    />
+                  </td>
+                  <td className="p-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_EV}
+                      className="form-control form-control-sm px-1 text-center"
+                      aria-label={`${STAT_LABELS[stat]} EV`}
+                      value={evs[stat]}
+                      onChange={(e) => setEvs({ ...evs, [stat]: clamp(e.target.value, MAX_EV) })}
+                    />
+                  </td>
+                  <td className={cn('tabular-nums font-semibold', natureClass)}>{value}</td>
+                  <td className="p-1">
+                    <input
+                      type="number"
+                      min={1}
+                      className="form-control form-control-sm px-1 text-center"
+                      aria-label={`${STAT_LABELS[stat]} seen in game`}
+                      value={observed[stat] ?? ''}
+                      onChange={(e) => setObserved({ ...observed, [stat]: e.target.value })}
+                    />
+                  </td>
+                  <td className="tabular-nums" data-testid={`iv-range-${stat}`}>
+                    {Number.isNaN(seen) ? (
+                      '—'
+                    ) : range ? (
+                      formatRange(range)
+                    ) : (
+                      <span className="text-destructive">None</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className={cn('text-xs mb-0', evTotal > MAX_TOTAL_EVS ? 'text-destructive' : 'text-muted-foreground')}>
+        {evTotal}/{MAX_TOTAL_EVS} EVs.
+        {level === undefined && splits.length > 0 && ` Level ${defaultLevel} is the next level cap.`} A stat
+        with no possible IVs means the level, nature, or EVs differ from the game.
+      </p>
+    </div>
+  );
+}
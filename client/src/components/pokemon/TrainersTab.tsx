@@ -0,0 +1,98 @@
+/**
+ * @file TrainersTab component
+ * Lists every trainer that fields a Pokémon, in split order, with the
+ * trainer's split and level cap and the member's level, ability, item,
+ * nature, and moves. Trainer names link to their detail pages.
+ */
+import { Link } from 'wouter';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { ErrorBoundary } from '@/components/ui/error-boundary';
+import { TypeBadge } from './TypeBadge';
+import { usePokemonTrainers } from '@/hooks/use-trainers';
+import type { GameId, TrainerPokemonUse } from '@/types/database';
+
+interface TrainersTabProps {
+  gameId: GameId;
+  formeId: string;
+  name: string;
+}
+
+function titleize(s?: string | null): string | undefined {
+  if (!s) return undefined;
+  return s.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function TrainerUse({ use, gameId }: { use: TrainerPokemonUse; gameId: GameId }) {
+  const { trainer, pokemon } = use;
+  const details = [
+    { label: 'Ability', value: pokemon.ability },
+    { label: 'Item', value: pokemon.item },
+    { label: 'Nature', value: titleize(pokemon.nature) },
+  ];
+
+  return (
+    <li className="list-group-item" data-testid={`trainer-use-${trainer.trainer_id}`}>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <Link href={`/trainer/${trainer.trainer_id}?game=${gameId}`} className="font-semibold underline">
+          {trainer.trainer_class} {trainer.trainer_name}
+        </Link>
+        {trainer.split && <Badge variant="outline">{trainer.split}</Badge>}
+        {trainer.level_cap && (
+          <Badge variant="destructive" className="font-mono">
+            Cap {trainer.level_cap}
+          </Badge>
+        )}
+        <Badge variant="secondary" className="font-mono ms-auto">
+          Lv.{pokemon.level}
+        </Badge>
+      </div>
+      <dl className="grid grid-cols-3 gap-2 text-sm mb-2">
+        {details.map((d) => (
+          <div key={d.label}>
+            <dt className="text-muted-foreground font-normal">{d.label}</dt>
+            <dd className="font-medium mb-0">{d.value || '—'}</dd>
+          </div>
+        ))}
+      </dl>
+      {pokemon.moves.length > 0 && (
+        <ul className="flex flex-wrap gap-1 list-none p-0 mb-0">
+          {pokemon.moves.map((move) => (
+            <li key={move.slot} className="flex items-center gap-1 rounded bg-muted/30 px-2 py-1 text-xs">
+              <span className="font-medium">{move.name}</span>
+              <TypeBadge type={move.type_id} className="text-[10px] px-1" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function TrainersTab({ gameId, formeId, name }: TrainersTabProps) {
+  const { data: uses, isLoading, error, refetch } = usePokemonTrainers(gameId, formeId);
+
+  if (isLoading) return <LoadingSkeleton count={4} className="h-16" />;
+  if (error) {
+    return <ErrorBoundary error={error} onRetry={() => refetch()} title="Failed to load trainers" />;
+  }
+  if (!uses?.length) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground mb-0">No trainer in {gameId} uses {name}.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="list-group" data-testid="pokemon-trainers">
+      {uses.map((use) => (
+        <TrainerUse
+          key={`${use.trainer.trainer_id}-${use.trainer.variant_key}-${use.pokemon.slot_no}`}
+          use={use}
+          gameId={gameId}
+        />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * @file CatchCard component
+ * One caught Pokémon of the run with editable nickname and level and
+ * buttons to move it between party, box, and graveyard.
+ */
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Sprite } from '@/components/common/Sprite';
+import { canMoveTo, encounterKey, RUN_BOXES, type CatchPatch, type Run, type RunBox, type RunEncounter } from '@/lib/run';
+import { Sparkles } from 'lucide-react';
+
+interface CatchCardProps {
+  run: Run;
+  encounter: RunEncounter;
+  onChange: (patch: CatchPatch) => void;
+  onMove: (box: RunBox) => void;
+}
+
+export function CatchCard({ run, encounter, onChange, onMove }: CatchCardProps) {
+  const { formeId, species, spriteUrl } = encounter;
+  const key = encounterKey(encounter);
+  const fallen = encounter.box === 'graveyard';
+
+  return (
+    <li
+      className={`list-group-item d-flex flex-wrap align-items-center gap-2 ${fallen ? 'opacity-75' : ''}`}
+      data-testid={`catch-${key}`}
+    >
+      <Sprite src={spriteUrl} alt={species ?? ''} size="w-10 h-10" className={fallen ? 'grayscale' : ''} />
+      <div className="flex-grow-1 min-w-0">
+        <input
+          aria-label={`Nickname of ${species ?? 'Pokémon'}`}
+          className="form-control form-control-sm fw-semibold"
+          placeholder={species ?? 'Nickname'}
+          maxLength={12}
+          value={encounter.nickname ?? ''}
+          onChange={(e) => onChange({ nickname: e.target.value || undefined })}
+        />
+        <div className="text-xs text-muted-foreground text-truncate mt-1">
+          {formeId ? (
+            <Link href={`/pokemon/${formeId}?game=${run.gameId}`} className="underline">
+              {species}
+            </Link>
+          ) : (
+            species
+          )}{' '}
+          {encounter.shiny && <Sparkles className="inline h-3 w-3 text-warning" aria-label="Shiny" />}·{' '}
+          {encounter.routeName}
+          {encounter.bonus && ' (bonus)'}
+        </div>
+      </div>
+      <div style={{ width: '4.5rem' }}>
+        <input
+          aria-label={`Level of ${encounter.nickname || species || 'Pokémon'}`}
+          type="number"
+          min={1}
+          max={100}
+          className="form-control form-control-sm"
+          value={encounter.level ?? ''}
+          onChange={(e) => onChange({ level: Math.max(1, Math.min(100, parseInt(e.target.value, 10) || 1)) })}
+        />
+      </div>
+      <div className="d-flex gap-1">
+        {RUN_BOXES.filter((b) => b.value !== encounter.box).map((b) => (
+          <Button
+            key={b.value}
+            size="sm"
+            variant={b.value === 'graveyard' ? 'destructive' : 'outline'}
+            disabled={!canMoveTo(run, key, b.value)}
+            onClick={() => onMove(b.value)}
+          >
+            {b.value === 'graveyard' ? 'Fainted' : `To ${b.label.toLowerCase()}`}
+          </Button>
+        ))}
+      </div>
+    </li>
+  );
+}
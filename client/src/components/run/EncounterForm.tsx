@@ -0,0 +1,182 @@
+/**
+ * @file EncounterForm component
+ * Logs the encounter of one route in the current run: route, outcome,
+ * species, and for catches a nickname and level. Routes that are already
+ * used are listed last so the next free route is easy to find. Species the
+ * rule set would re-roll are flagged before the encounter is logged, and
+ * shinies caught under the shiny clause are logged as bonus catches.
+ */
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { PokemonPicker } from '@/components/pokemon/PokemonPicker';
+import { ENCOUNTER_OUTCOMES, type EncounterInput, type EncounterOutcome, type Run } from '@/lib/run';
+import type { RerollReason, RuleSet } from '@/lib/rules';
+import type { PokedexEntry, RouteSummary } from '@/types/database';
+
+interface EncounterFormProps {
+  run: Run;
+  ruleSet: RuleSet;
+  /** Why the run would re-roll a species, if it would. */
+  reroll: (formeId: string) => RerollReason | undefined;
+  routes: RouteSummary[];
+  /** Route to preselect, e.g. from the Encounters page. */
+  initialRouteId?: string;
+  onSubmit: (encounter: EncounterInput) => void;
+}
+
+export function EncounterForm({ run, ruleSet, reroll, routes, initialRouteId, onSubmit }: EncounterFormProps) {
+  const [routeId, setRouteId] = useState(initialRouteId ?? '');
+  const [outcome, setOutcome] = useState<EncounterOutcome>('caught');
+  const [pokemon, setPokemon] = useState<PokedexEntry>();
+  const [nickname, setNickname] = useState('');
+  const [level, setLevel] = useState(5);
+  const [shiny, setShiny] = useState(false);
+
+  useEffect(() => {
+    if (initialRouteId) setRouteId(initialRouteId);
+  }, [initialRouteId]);
+
+  const free = routes.filter((r) => !run.encounters[r.route_id]);
+  const used = routes.filter((r) => run.encounters[r.route_id]);
+  const route = routes.find((r) => r.route_id === routeId);
+  const caught = outcome === 'caught';
+  const bonus = caught && shiny && ruleSet.shinyClause;
+  const rerollReason = pokemon && outcome !== 'dupe-skipped' && !bonus ? reroll(pokemon.forme_id) : undefined;
+  // Skipped dupes may be logged without naming the species.
+  const valid = Boolean(route) && (Boolean(pokemon) || outcome === 'dupe-skipped');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!route || !valid) return;
+    onSubmit({
+      routeId: route.route_id,
+      routeName: route.route_name,
+      outcome,
+      formeId: pokemon?.forme_id,
+      species: pokemon?.display_name,
+      spriteUrl: shiny ? pokemon?.sprite_shiny_url ?? pokemon?.sprite_default_url : pokemon?.sprite_default_url,
+      types: pokemon ? [pokemon.type1_id, pokemon.type2_id].filter((t): t is string => Boolean(t)) : undefined,
+      shiny: shiny || undefined,
+      bonus: bonus || undefined,
+      nickname: caught ? nickname.trim() || undefined : undefined,
+      level: caught ? level : undefined,
+    });
+    setRouteId('');
+    setPokemon(undefined);
+    setNickname('');
+    setShiny(false);
+  };
+
+  return (
+    <form className="row g-2 align-items-end" onSubmit={submit} data-testid="encounter-form">
+      <div className="col-12 col-md-4">
+        <label htmlFor="run-route" className="form-label">
+          Route
+        </label>
+        <select
+          id="run-route"
+          className="form-select"
+          value={routeId}
+          onChange={(e) => setRouteId(e.target.value)}
+        >
+          <option value="">Select a route</option>
+          <optgroup label="Available">
+            {free.map((r) => (
+              <option key={r.route_id} value={r.route_id}>
+                {r.route_name}
+              </option>
+            ))}
+          </optgroup>
+          {used.length > 0 && (
+            <optgroup label="Already used (replaces the logged encounter)">
+              {used.map((r) => (
+                <option key={r.route_id} value={r.route_id}>
+                  {r.route_name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+      <div className="col-6 col-md-2">
+        <label htmlFor="run-outcome" className="form-label">
+          Outcome
+        </label>
+        <select
+          id="run-outcome"
+          className="form-select"
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as EncounterOutcome)}
+        >
+          {ENCOUNTER_OUTCOMES.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="col-6 col-md-3">
+        <PokemonPicker
+          label="Pokémon"
+          selectedName={pokemon?.display_name}
+          onSelect={setPokemon}
+          data-testid="run-pokemon"
+        />
+      </div>
+      {caught && (
+        <>
+          <div className="col-8 col-md-2">
+            <label htmlFor="run-nickname" className="form-label">
+              Nickname
+            </label>
+            <input
+              id="run-nickname"
+              className="form-control"
+              maxLength={12}
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+            />
+          </div>
+          <div className="col-4 col-md-1">
+            <label htmlFor="run-level" className="form-label">
+              Level
+            </label>
+            <input
+              id="run-level"
+              type="number"
+              min={1}
+              max={100}
+              className="form-control"
+              value={level}
+              onChange={(e) => setLevel(Math.max(1, Math.min(100, parseInt(e.target.value, 10) || 1)))}
+            />
+          </div>
+        </>
+      )}
+      <div className="col-12 d-flex flex-wrap align-items-center gap-3">
+        <div className="form-check mb-0">
+          <input
+            id="run-shiny"
+            type="checkbox"
+            className="form-check-input"
+            checked={shiny}
+            onChange={(e) => setShiny(e.target.checked)}
+          />
+          <label htmlFor="run-shiny" className="form-check-label">
+            Shiny
+          </label>
+        </div>
+        <Button type="submit" disabled={!valid} data-testid="log-encounter">
+          {bonus ? 'Log shiny bonus catch' : 'Log encounter'}
+        </Button>
+        {rerollReason && (
+          <span className="text-sm text-warning" role="status" data-testid="reroll-hint">
+            {rerollReason === 'dupe'
+              ? `${pokemon?.display_name} is a dupe; the dupes clause lets you re-roll it.`
+              : `${pokemon?.display_name} was already encountered; the species clause lets you re-roll it.`}
+          </span>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * @file OutcomeBadge component
+ * Colour-coded badge for the outcome of a route's run encounter.
+ */
+import { Badge } from '@/components/ui/badge';
+import { ENCOUNTER_OUTCOMES, type EncounterOutcome } from '@/lib/run';
+
+const outcomeVariants: Record<EncounterOutcome, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  caught: 'default',
+  fled: 'secondary',
+  killed: 'destructive',
+  'dupe-skipped': 'outline',
+};
+
+export function outcomeLabel(outcome: EncounterOutcome): string {
+  return ENCOUNTER_OUTCOMES.find((o) => o.value === outcome)?.label ?? outcome;
+}
+
+export function OutcomeBadge({ outcome }: { outcome: EncounterOutcome }) {
+  return (
+    <Badge variant={outcomeVariants[outcome]} data-testid={`outcome-${outcome}`}>
+      {outcomeLabel(outcome)}
+    </Badge>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * @file TeamMemberCard component
+ * One Pokémon of the team builder: sprite, types, four move slots picked
+ * from its learnset, and warnings when the Pokémon or a move is not
+ * obtainable by the chosen split.
+ */
+import { useId } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Sprite } from '@/components/common/Sprite';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { learnsetMoves } from '@/lib/builds';
+import { TEAM_MOVES, type TeamMember } from '@/lib/team';
+import type { GameId, PokedexDetail } from '@/types/database';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface TeamMemberCardProps {
+  member: TeamMember;
+  /** Detail row of the species, once loaded. */
+  detail?: PokedexDetail;
+  gameId: GameId;
+  /** Why the Pokémon is not obtainable by the chosen split, if it is not. */
+  unavailable?: string;
+  /** Chosen moves learned only by level-up above the level cap, with their level. */
+  lateMoves: Record<string, number>;
+  onMoveChange: (slot: number, move: string | undefined) => void;
+  onRemove: () => void;
+}
+
+export function TeamMemberCard({
+  member,
+  detail,
+  gameId,
+  unavailable,
+  lateMoves,
+  onMoveChange,
+  onRemove,
+}: TeamMemberCardProps) {
+  const idPrefix = useId();
+  const moves = detail ? learnsetMoves(detail) : [];
+  const name = detail?.display_name ?? member.formeId;
+  const warnings = [
+    ...(unavailable ? [unavailable] : []),
+    ...Object.entries(lateMoves).map(([move, level]) => `${move} is learned at Lv. ${level}, above the level cap.`),
+  ];
+
+  return (
+    <Card data-testid={`team-member-${member.formeId}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <Sprite src={detail?.sprite_default_url} alt={name} size={48} width={48} height={48} />
+          <div className="min-w-0">
+            <Link href={`/pokemon/${member.formeId}?game=${gameId}`} className="font-semibold underline">
+              {name}
+            </Link>
+            {detail && (
+              <div className="flex gap-1 mt-1">
+                <TypeBadge type={detail.type1_id} className="text-xs" />
+                {detail.type2_id && <TypeBadge type={detail.type2_id} className="text-xs" />}
+              </div>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" className="ms-auto" onClick={onRemove} aria-label={`Remove ${name}`}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {Array.from({ length: TEAM_MOVES }, (_, slot) => (
+            <div key={slot}>
+              <label htmlFor={`${idPrefix}-move-${slot}`} className="form-label small mb-1">
+                Move {slot + 1}
+              </label>
+              <select
+                id={`${idPrefix}-move-${slot}`}
+                className="form-select form-select-sm"
+                disabled={!moves.length || slot > member.moves.length}
+                value={member.moves[slot] ?? ''}
+                onChange={(e) => onMoveChange(slot, e.target.value || undefined)}
+              >
+                <option value="">—</option>
+                {moves.map((m) => (
+                  <option key={m.move_id} value={m.name}>
+                    {m.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {warnings.length > 0 && (
+          <ul className="list-none p-0 mb-0 space-y-1 text-sm text-destructive" data-testid="availability-warnings">
+            {warnings.map((w) => (
+              <li key={w} className="flex items-start gap-1">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+                {w}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
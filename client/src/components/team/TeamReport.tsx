@@ -0,0 +1,130 @@
+/**
+ * @file TeamReport component
+ * Analysis of the user's team: the types its chosen moves hit
+ * super-effectively and the gaps left, weaknesses shared by several
+ * members, and speed tiers at a given level.
+ */
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { sharedWeaknesses, teamOffense } from '@/lib/coverage';
+import type { Generation } from '@/lib/games';
+import { speedTiers } from '@/lib/team';
+import type { TypeChart } from '@/lib/type-chart';
+import type { LearnsetMove, PokedexDetail } from '@/types/database';
+
+interface TeamReportProps {
+  /** Loaded members with their chosen moves. */
+  members: { detail: PokedexDetail; moves: LearnsetMove[] }[];
+  chart: TypeChart;
+  /** Decides which abilities grant immunities. */
+  generation: Generation;
+  /** Level for speed tiers, e.g. the chosen split's level cap. */
+  level: number;
+}
+
+function TypeRow({ label, types, empty }: { label: string; types: string[]; empty: string }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{label}</h4>
+      {types.length ? (
+        <div className="flex flex-wrap gap-1">
+          {types.map((t) => (
+            <TypeBadge key={t} type={t} className="text-xs" />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground mb-0">{empty}</p>
+      )}
+    </div>
+  );
+}
+
+export function TeamReport({ members, chart, generation, level }: TeamReportProps) {
+  const offense = teamOffense(members, chart);
+  const hasAttacks = Object.keys(offense).length > 0;
+  const weaknesses = sharedWeaknesses(
+    members.map(({ detail }) => ({ type1_id: detail.type1_id, type2_id: detail.type2_id })),
+    chart,
+    generation,
+  );
+  const tiers = speedTiers(members.map((m) => m.detail), level);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4" data-testid="team-report">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Offensive Coverage</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {hasAttacks ? (
+            <>
+              <TypeRow
+                label="Hit super-effectively"
+                types={chart.types.filter((t) => (offense[t] ?? 0) >= 2)}
+                empty="No type is hit super-effectively."
+              />
+              <TypeRow
+                label="Coverage gaps"
+                types={chart.types.filter((t) => (offense[t] ?? 0) < 2)}
+                empty="Every type is hit super-effectively."
+              />
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground mb-0">Choose damaging moves to see coverage.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Shared Weaknesses</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {weaknesses.length ? (
+            <ul className="list-none p-0 mb-0 space-y-2" data-testid="shared-weaknesses">
+              {weaknesses.map((w) => (
+                <li key={w.type} className="flex items-center gap-2 text-sm">
+                  <TypeBadge type={w.type} className="text-xs" />
+                  <span>
+                    {w.weak} weak, {w.resist} resist
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground mb-0">No type hits two or more members super-effectively.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Speed Tiers</CardTitle>
+          <p className="text-sm text-muted-foreground mb-0">At Lv. {level} with max IVs and no EVs.</p>
+        </CardHeader>
+        <CardContent>
+          <table className="table table-sm align-middle text-sm mb-0" data-testid="speed-tiers">
+            <thead>
+              <tr>
+                <th>Pokémon</th>
+                <th className="text-end">Base</th>
+                <th className="text-end">Neutral</th>
+                <th className="text-end">+Spe</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tiers.map((t, i) => (
+                <tr key={`${t.formeId}-${i}`}>
+                  <td>{t.name}</td>
+                  <td className="text-end tabular-nums">{t.base}</td>
+                  <td className="text-end tabular-nums">{t.neutral}</td>
+                  <td className="text-end tabular-nums">{t.boosted}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * @file CounterFinder component
+ * Ranks the game's Pokédex against a trainer's team: typing and ability
+ * against every damaging move on the team, then team members hit
+ * super-effectively by moves learnable by the trainer's level cap. Can be
+ * narrowed to Pokémon obtainable by the trainer's split or caught in the run.
+ */
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Sprite } from '@/components/common/Sprite';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { useAttackTypes, useEvolutions } from '@/hooks/use-pokedex';
+import { useCurrentRun } from '@/hooks/use-run';
+import { useSplits } from '@/hooks/use-splits';
+import { formatMultiplier } from '@/lib/coverage';
+import { rankCounters, teamAttackTypes } from '@/lib/counters';
+import { gameGeneration } from '@/lib/games';
+import { runPokemon } from '@/lib/run';
+import { pokemonAvailability } from '@/lib/splits';
+import type { TypeChart } from '@/lib/type-chart';
+import type { GameId, Trainer, TrainerPokemon } from '@/types/database';
+
+/** Counters listed at once. */
+const COUNTER_LIMIT = 20;
+
+interface CounterFinderProps {
+  trainer: Pick<Trainer, 'split' | 'level_cap'>;
+  team: TrainerPokemon[];
+  gameId: GameId;
+  chart: TypeChart;
+}
+
+export function CounterFinder({ trainer, team, gameId, chart }: CounterFinderProps) {
+  const [bySplit, setBySplit] = useState(false);
+  const [caughtOnly, setCaughtOnly] = useState(false);
+  const { data: candidates = [], isLoading } = useAttackTypes(gameId, trainer.level_cap);
+  const { data: splits = [] } = useSplits(gameId);
+  const { data: evolutions = [] } = useEvolutions(gameId);
+  const run = useCurrentRun();
+
+  const availableFrom = useMemo(() => pokemonAvailability(splits, evolutions), [splits, evolutions]);
+  const splitIndex = splits.findIndex((s) => s.name === trainer.split);
+  const caught = useMemo(
+    () => new Set(run ? [...runPokemon(run, 'party'), ...runPokemon(run, 'box')].map((e) => e.formeId) : []),
+    [run],
+  );
+
+  const counters = useMemo(() => {
+    const pool = candidates.filter((p) => {
+      if (bySplit && splitIndex >= 0 && (availableFrom.get(p.forme_id) ?? Infinity) > splitIndex) return false;
+      return !caughtOnly || caught.has(p.forme_id);
+    });
+    return rankCounters(pool, team, chart, gameGeneration(gameId));
+  }, [candidates, bySplit, splitIndex, availableFrom, caughtOnly, caught, team, chart, gameId]);
+
+  const attackCount = teamAttackTypes(team).length;
+
+  return (
+    <Card data-testid="counter-finder">
+      <CardHeader>
+        <CardTitle className="text-lg">Find Counters</CardTitle>
+        <p className="text-sm text-muted-foreground mb-0">
+          Ranked by the worst hit taken from the team's {attackCount} damaging move types, then by resistances, then by
+          team members hit super-effectively with moves learnable
+          {trainer.level_cap ? ` by Lv. ${trainer.level_cap}` : ''}.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="d-flex flex-wrap gap-3">
+          {splitIndex >= 0 && (
+            <div className="form-check">
+              <input
+                id="counters-by-split"
+                type="checkbox"
+                className="form-check-input"
+                checked={bySplit}
+                onChange={(e) => setBySplit(e.target.checked)}
+              />
+              <label htmlFor="counters-by-split" className="form-check-label">
+                Only obtainable by {trainer.split}
+              </label>
+            </div>
+          )}
+          {run && (
+            <div className="form-check">
+              <input
+                id="counters-caught"
+                type="checkbox"
+                className="form-check-input"
+                checked={caughtOnly}
+                onChange={(e) => setCaughtOnly(e.target.checked)}
+              />
+              <label htmlFor="counters-caught" className="form-check-label">
+                Only Pokémon caught in my run
+              </label>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground mb-0">Loading Pokédex…</p>
+        ) : counters.length === 0 ? (
+          <p className="text-sm text-muted-foreground mb-0">No Pokémon match these filters.</p>
+        ) : (
+          <div className="table-responsive">
+            <table className="table table-sm align-middle text-sm mb-0" data-testid="counter-table">
+              <thead>
+                <tr>
+                  <th>Pokémon</th>
+                  <th>Types</th>
+                  <th className="text-end">Worst hit</th>
+                  <th className="text-end">Resists</th>
+                  <th className="text-end">Weak to</th>
+                  <th className="text-end">Hits</th>
+                </tr>
+              </thead>
+              <tbody>
+                {counters.slice(0, COUNTER_LIMIT).map((c) => (
+                  <tr key={c.pokemon.forme_id}>
+                    <td>
+                      <div className="flex items-center gap-2">
+                        <Sprite
+                          src={c.pokemon.sprite_default_url}
+                          alt={c.pokemon.display_name}
+                          size={32}
+                          width={32}
+                          height={32}
+                        />
+                        <div>
+                          <Link href={`/pokemon/${c.pokemon.forme_id}?game=${gameId}`} className="underline">
+                            {c.pokemon.display_name}
+                          </Link>
+                          {c.ability && <div className="text-xs text-muted-foreground">with {c.ability}</div>}
+                        </div>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="flex gap-1">
+                        <TypeBadge type={c.pokemon.type1_id} className="text-xs" />
+                        {c.pokemon.type2_id && <TypeBadge type={c.pokemon.type2_id} className="text-xs" />}
+                      </div>
+                    </td>
+                    <td className="text-end tabular-nums">{formatMultiplier(c.worst)}</td>
+                    <td className="text-end tabular-nums">
+                      {c.resisted}/{attackCount}
+                    </td>
+                    <td className="text-end tabular-nums">
+                      {c.weakTo}/{attackCount}
+                    </td>
+                    <td className="text-end tabular-nums">
+                      {c.hits}/{team.length}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
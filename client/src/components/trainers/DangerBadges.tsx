@@ -0,0 +1,34 @@
+/**
+ * @file DangerBadges component
+ * Badges for the danger flags a trainer Pokémon raises, each explaining the
+ * threat in a tooltip. Renders nothing for members without flags.
+ */
+import { Badge } from '@/components/ui/badge';
+import { InfoTooltip } from '@/components/ui/InfoTooltip';
+import { cn } from '@/lib/utils';
+import { DANGER_RULES, dangerFlags } from '@shared/danger';
+import type { TrainerPokemon } from '@/types/database';
+import { AlertTriangle } from 'lucide-react';
+
+interface DangerBadgesProps {
+  member: TrainerPokemon;
+  className?: string;
+}
+
+export function DangerBadges({ member, className }: DangerBadgesProps) {
+  const flags = dangerFlags(member);
+  if (!flags.length) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)} data-testid="danger-flags">
+      {flags.map((flag) => (
+        <InfoTooltip key={flag} content={DANGER_RULES[flag].description}>
+          <Badge variant="destructive" className="gap-1 text-[10px] px-1.5" data-testid={`danger-${flag}`}>
+            <AlertTriangle className="h-3 w-3" aria-hidden="true" />
+            {DANGER_RULES[flag].label}
+          </Badge>
+        </InfoTooltip>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * @file MemberStats component
+ * Estimated battle stats of a trainer's Pokémon from its level, nature, and
+ * the game's estimated trainer IVs, with a speed tier line naming the run's
+ * Pokémon that outspeed it at the level cap.
+ */
+import { cn } from '@/lib/utils';
+import { NATURES, STAT_KEYS, STAT_LABELS, toNature, type StatSpread } from '@/lib/stats';
+import { speedMatchup, type SpeedTier } from '@/lib/team';
+
+interface MemberStatsProps {
+  stats: StatSpread;
+  nature?: string;
+  /** IVs assumed in every stat; an estimate, see `trainerIv`. */
+  iv: number;
+  /** Our Pokémon's speeds at `levelCap`; no speed line without them. */
+  ourSpeeds?: SpeedTier[];
+  levelCap?: number;
+}
+
+const names = (tiers: SpeedTier[]) => tiers.map((t) => t.name).join(', ');
+
+export function MemberStats({ stats, nature, iv, ourSpeeds, levelCap }: MemberStatsProps) {
+  const { plus, minus } = NATURES[toNature(nature) ?? ''] ?? {};
+  const matchup = ourSpeeds?.length ? speedMatchup(ourSpeeds, stats.spe) : undefined;
+
+  return (
+    <div className="mb-3 text-sm" data-testid="member-stats">
+      <div className="grid grid-cols-6 gap-1 text-center">
+        {STAT_KEYS.map((stat) => (
+          <div
+            key={stat}
+            className={cn(
+              'rounded bg-muted/30 px-1 py-0.5',
+              stat === plus && 'text-green-600',
+              stat === minus && 'text-red-600',
+            )}
+          >
+            <div className="text-[10px] text-muted-foreground">{STAT_LABELS[stat]}</div>
+            <div className="font-mono font-semibold">{stats[stat]}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mt-1 mb-0">
+        Estimated: assumes {iv} IVs and no EVs, as the hack's trainer IVs are not documented.
+      </p>
+      {matchup && (
+        <p className="text-xs mt-1 mb-0" data-testid="member-speed-tier">
+          <span className="text-muted-foreground">At Lv. {levelCap}: </span>
+          {matchup.faster.length ? `${names(matchup.faster)} outspeed it` : 'None of your Pokémon outspeed it'}
+          {matchup.withNature.length > 0 && `; ${names(matchup.withNature)} only with a +Spe nature`}.
+        </p>
+      )}
+    </div>
+  );
+}
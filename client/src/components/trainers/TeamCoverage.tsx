@@ -0,0 +1,123 @@
+/**
+ * @file TeamCoverage component
+ * Offensive and defensive type matrices for a trainer's team. Rows are team
+ * members and columns the game's types: the offensive matrix marks the
+ * types each member's damaging moves hit super-effectively, the defensive
+ * matrix each member's weaknesses, resistances, and immunities.
+ */
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { cn } from '@/lib/utils';
+import { defensiveCoverage, formatMultiplier, offensiveCoverage, type TypeMultipliers } from '@/lib/coverage';
+import type { Generation } from '@/lib/games';
+import type { PokemonType, TypeChart } from '@/lib/type-chart';
+import type { TrainerPokemon } from '@/types/database';
+
+interface TeamCoverageProps {
+  team: TrainerPokemon[];
+  chart: TypeChart;
+  /** Decides which abilities grant immunities. */
+  generation: Generation;
+}
+
+function offenseCell(multiplier: number | undefined) {
+  if (multiplier === undefined || multiplier === 1) return { label: '', className: '' };
+  if (multiplier > 1) return { label: formatMultiplier(multiplier), className: 'bg-green-500/20 font-semibold' };
+  return { label: formatMultiplier(multiplier), className: 'text-muted-foreground' };
+}
+
+function defenseCell(multiplier: number | undefined) {
+  if (multiplier === undefined || multiplier === 1) return { label: '', className: '' };
+  if (multiplier > 1) return { label: formatMultiplier(multiplier), className: 'bg-red-500/20 font-semibold' };
+  if (multiplier === 0) return { label: formatMultiplier(multiplier), className: 'bg-muted font-semibold' };
+  return { label: formatMultiplier(multiplier), className: 'bg-green-500/20' };
+}
+
+function Matrix({
+  title,
+  description,
+  team,
+  types,
+  rows,
+  cell,
+  testId,
+}: {
+  title: string;
+  description: string;
+  team: TrainerPokemon[];
+  types: readonly PokemonType[];
+  rows: TypeMultipliers[];
+  cell: (multiplier: number | undefined) => { label: string; className: string };
+  testId: string;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <p className="text-sm text-muted-foreground mb-0">{description}</p>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="table table-sm align-middle text-xs mb-0" data-testid={testId}>
+          <thead>
+            <tr>
+              <th scope="col">Pokémon</th>
+              {types.map((t) => (
+                <th key={t} scope="col" className="text-center">
+                  <TypeBadge type={t} className="text-[10px] px-1" />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {team.map((member, index) => (
+              <tr key={`${member.forme_id}-${index}`}>
+                <th scope="row" className="whitespace-nowrap font-medium">
+                  {member.name} <span className="text-muted-foreground">Lv.{member.level}</span>
+                </th>
+                {Object.keys(rows[index]).length ? (
+                  types.map((t) => {
+                    const { label, className } = cell(rows[index][t]);
+                    return (
+                      <td key={t} className={cn('text-center tabular-nums', className)}>
+                        {label}
+                      </td>
+                    );
+                  })
+                ) : (
+                  <td colSpan={types.length} className="text-muted-foreground">
+                    No damaging moves
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function TeamCoverage({ team, chart, generation }: TeamCoverageProps) {
+  return (
+    <>
+      <Matrix
+        title="Offensive Coverage"
+        description="Best multiplier each member's damaging moves reach against each type."
+        team={team}
+        types={chart.types}
+        rows={team.map((member) => offensiveCoverage(member, chart))}
+        cell={offenseCell}
+        testId="offensive-matrix"
+      />
+      <Matrix
+        title="Defensive Coverage"
+        description="How hard each attacking type hits each member, counting immunities from its ability."
+        team={team}
+        types={chart.types}
+        rows={team.map((member) => defensiveCoverage(member, chart, generation))}
+        cell={defenseCell}
+        testId="defensive-matrix"
+      />
+    </>
+  );
+}
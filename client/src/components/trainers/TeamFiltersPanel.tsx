@@ -0,0 +1,148 @@
+/**
+ * @file TeamFiltersPanel component
+ * Filters for the trainers list that look inside trainer teams: a Pokémon
+ * picker, move, ability, and held item fields, and a danger flag toggle.
+ * Move and ability fields suggest the game's names; text fields apply on
+ * Enter, on blur, or when a suggestion is picked, since names must match
+ * exactly.
+ */
+import { useEffect, useId, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { PokemonPicker } from '@/components/pokemon/PokemonPicker';
+import { useAbilities } from '@/hooks/use-abilities';
+import { useMoves } from '@/hooks/use-moves';
+import { usePokemonDetail } from '@/hooks/use-pokedex';
+import type { GameId, TeamFilters } from '@/types/database';
+import { X } from 'lucide-react';
+
+interface TeamFiltersPanelProps {
+  gameId: GameId;
+  filters: TeamFilters;
+  onChange: (next: TeamFilters) => void;
+}
+
+function NameFilter({
+  label,
+  value,
+  suggestions,
+  onCommit,
+  testId,
+}: {
+  label: string;
+  value?: string;
+  suggestions: string[];
+  onCommit: (value: string | undefined) => void;
+  testId: string;
+}) {
+  const inputId = useId();
+  const listId = useId();
+  const [draft, setDraft] = useState(value ?? '');
+
+  // Follow outside changes such as Clear or back navigation.
+  useEffect(() => setDraft(value ?? ''), [value]);
+
+  const commit = (next: string) => {
+    const trimmed = next.trim();
+    if (trimmed !== (value ?? '')) onCommit(trimmed || undefined);
+  };
+
+  return (
+    <div>
+      <label htmlFor={inputId} className="form-label">
+        {label}
+      </label>
+      <input
+        id={inputId}
+        type="search"
+        className="form-control"
+        placeholder={`Any ${label.toLowerCase()}`}
+        list={suggestions.length ? listId : undefined}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (suggestions.includes(e.target.value)) commit(e.target.value);
+        }}
+        onBlur={() => commit(draft)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit(draft);
+        }}
+        data-testid={testId}
+      />
+      {suggestions.length > 0 && (
+        <datalist id={listId}>
+          {suggestions.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  );
+}
+
+export function TeamFiltersPanel({ gameId, filters, onChange }: TeamFiltersPanelProps) {
+  const { data: moves = [] } = useMoves(gameId);
+  const { data: abilities = [] } = useAbilities(gameId);
+  const { data: pokemon } = usePokemonDetail(gameId, filters.pokemon ?? '');
+
+  return (
+    <fieldset className="col-span-full" data-testid="team-filters">
+      <legend className="text-sm font-medium text-muted-foreground mb-2">Team uses</legend>
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-4 gap-3">
+        <div>
+          <PokemonPicker
+            label="Pokémon"
+            selectedName={pokemon?.display_name ?? filters.pokemon}
+            onSelect={(p) => onChange({ ...filters, pokemon: p.forme_id })}
+            data-testid="team-filter-pokemon"
+          />
+          {filters.pokemon && (
+            <Badge variant="secondary" className="mt-1 gap-1">
+              {pokemon?.display_name ?? filters.pokemon}
+              <button
+                type="button"
+                onClick={() => onChange({ ...filters, pokemon: undefined })}
+                aria-label="Clear Pokémon filter"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+        </div>
+        <NameFilter
+          label="Move"
+          value={filters.move}
+          suggestions={moves.map((m) => m.name)}
+          onCommit={(move) => onChange({ ...filters, move })}
+          testId="team-filter-move"
+        />
+        <NameFilter
+          label="Ability"
+          value={filters.ability}
+          suggestions={abilities.map((a) => a.name)}
+          onCommit={(ability) => onChange({ ...filters, ability })}
+          testId="team-filter-ability"
+        />
+        <NameFilter
+          label="Held item"
+          value={filters.item}
+          suggestions={[]}
+          onCommit={(item) => onChange({ ...filters, item })}
+          testId="team-filter-item"
+        />
+      </div>
+      <div className="form-check mt-2">
+        <input
+          id="dangerFilter"
+          type="checkbox"
+          className="form-check-input"
+          checked={Boolean(filters.danger)}
+          onChange={(e) => onChange({ ...filters, danger: e.target.checked || undefined })}
+          data-testid="team-filter-danger"
+        />
+        <label htmlFor="dangerFilter" className="form-check-label">
+          Only trainers with a danger flag (OHKO, self-KO, crits, priority, weather, Focus Sash, Trick Room, Perish Song)
+        </label>
+      </div>
+    </fieldset>
+  );
+}
@@ -1 +1,195 @@
-{"code":"rate-limited","message":"You have hit the rate limit. Please upgrade to keep chatting.","providerLimitHit":false,"isRetryable":true}
\ No newline at end of file
+/**
+ * @file Compact trainer card used by the leader overview and trainer lists.
+ * Shows an enlarged sprite with condensed metadata, clickable team preview
+ * sprites, a single "View Trainers" CTA for the trainer's split, and a compact
+ * accordion revealing ability, item, nature, and move badges per Pokémon.
+ * Members raising danger flags are marked on their preview sprite and badged
+ * in the accordion.
+ * Hovering or focusing the "Team Details" trigger prefetches the full trainer
+ * so the accordion expands instantly.
+ */
+import { Link } from 'wouter';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { Sprite } from '@/components/common/Sprite';
+import { InfoTooltip } from '@/components/ui/InfoTooltip';
+import { useGame } from '@/hooks/use-game';
+import { prefetchTrainer, useTrainer } from '@/hooks/use-trainers';
+import { DangerBadges } from './DangerBadges';
+import { dangerFlags, DANGER_RULES } from '@shared/danger';
+import { Trainer } from '@/types/database';
+import { AlertTriangle, Crown, PawPrint, Shield } from 'lucide-react';
+
+interface TrainerCardProps {
+  trainer: Trainer;
+}
+
+/**
+ * Expanded team listing rendered inside the accordion. Uses the full trainer
+ * query when available and falls back to the list row's team meanwhile.
+ */
+function TeamDetails({ trainer }: { trainer: Trainer }) {
+  const { data } = useTrainer(trainer.game_id, trainer.trainer_id);
+  const team = (data ?? trainer).team;
+
+  if (!team.length) {
+    return <p className="text-sm text-muted-foreground">No team data available.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {team.map((member, idx) => (
+        <li key={`${member.forme_id}-${idx}`} className="border-t border-border/40 pt-2 first:border-0 first:pt-0">
+          <div className="d-flex align-items-center justify-content-between gap-2 mb-1">
+            <span className="font-medium text-truncate">{member.name}</span>
+            {member.level && (
+              <span className="font-mono text-xs text-muted-foreground">Lv.{member.level}</span>
+            )}
+          </div>
+          <div className="d-flex flex-wrap gap-1 text-xs">
+            {member.ability && (
+              <InfoTooltip content={member.ability_description || ''}>
+                <Badge variant="secondary">{member.ability}</Badge>
+              </InfoTooltip>
+            )}
+            {member.item && <Badge variant="outline">{member.item}</Badge>}
+            {member.nature && <Badge variant="outline" className="capitalize">{member.nature}</Badge>}
+            <DangerBadges member={member} />
+          </div>
+          {member.moves?.length > 0 && (
+            <div className="d-flex flex-wrap gap-1 mt-1">
+              {member.moves.map((move, mIdx) => (
+                <Badge key={`${move.name}-${mIdx}`} variant="outline" className="text-[10px]">
+                  {move.name}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Displays a trainer summary with team preview and split CTA.
+ */
+export function TrainerCard({ trainer }: TrainerCardProps) {
+  const { currentGame } = useGame();
+  const queryClient = useQueryClient();
+  const team = trainer.team;
+  const isChampion = trainer.trainer_class === 'Champion';
+
+  const prefetch = () => prefetchTrainer(queryClient, currentGame, trainer.trainer_id);
+
+  return (
+    <Card className="h-full border-border/40" data-testid={`trainer-card-${trainer.trainer_id}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="d-flex align-items-center gap-2">
+          <Link href={`/trainer/${trainer.trainer_id}?game=${currentGame}`} className="flex-shrink-0">
+            <Sprite
+              src={trainer.sprite_url}
+              alt={trainer.trainer_name}
+              size={64}
+              width={64}
+              height={64}
+              className="bg-muted rounded-lg"
+              highDpi={false}
+              placeholder={
+                trainer.is_leader ? (
+                  <Shield className="w-6 h-6 text-primary" />
+                ) : isChampion ? (
+                  <Crown className="w-6 h-6 text-yellow-500" />
+                ) : (
+                  <span className="text-2xl">🧑‍🎓</span>
+                )
+              }
+            />
+          </Link>
+          <div className="flex-grow-1 min-w-0">
+            <Link
+              href={`/trainer/${trainer.trainer_id}?game=${currentGame}`}
+              className="block font-semibold text-foreground text-truncate hover:text-primary"
+            >
+              {trainer.trainer_name}
+            </Link>
+            <span className="block text-xs text-muted-foreground text-truncate">
+              {trainer.trainer_class}
+              {trainer.display_location ? ` · ${trainer.display_location}` : ''}
+            </span>
+          </div>
+          {typeof trainer.level_cap === 'number' && (
+            <Badge variant="destructive" className="font-mono flex-shrink-0">
+              Cap {trainer.level_cap}
+            </Badge>
+          )}
+        </div>
+
+        {team.length > 0 && (
+          <div className="d-flex flex-wrap gap-2" aria-label="Team preview">
+            {team.map((member, idx) => {
+              const flags = dangerFlags(member).map((flag) => DANGER_RULES[flag].label);
+              return (
+                <Link
+                  key={`${member.forme_id}-${idx}`}
+                  href={`/pokemon/${member.forme_id}?game=${currentGame}`}
+                  aria-label={`${member.name} Lv.${member.level}${flags.length ? `, danger: ${flags.join(', ')}` : ''}`}
+                  title={flags.length ? flags.join(', ') : undefined}
+                  className="relative"
+                >
+                  <Sprite
+                    src={member.shiny ? member.sprite_shiny_url : member.sprite_default_url}
+                    alt={member.name || 'Pokémon'}
+                    size={56}
+                    width={56}
+                    height={56}
+                    className="bg-muted rounded"
+                    placeholder={<PawPrint className="w-4 h-4 text-muted-foreground" />}
+                  />
+                  {flags.length > 0 && (
+                    <AlertTriangle
+                      className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-background text-destructive"
+                      aria-hidden="true"
+                      data-testid="danger-marker"
+                    />
+                  )}
+                </Link>
+              );
+            })}
+          </div>
+        )}
+
+        <Accordion type="single" collapsible>
+          <AccordionItem value="team" className="border-border/40">
+            <AccordionTrigger
+              className="py-2 text-sm"
+              onMouseEnter={prefetch}
+              onFocus={prefetch}
+            >
+              Team Details
+            </AccordionTrigger>
+            <AccordionContent>
+              <TeamDetails trainer={trainer} />
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+
+        {trainer.split && (
+          <Button variant="outline" size="sm" className="w-full" asChild>
+            <Link href={`/trainers/list?split=${encodeURIComponent(trainer.split)}&game=${currentGame}`}>
+              View Trainers
+            </Link>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
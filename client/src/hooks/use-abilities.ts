@@ -0,0 +1,26 @@
+/**
+ * @file Ability data hooks.
+ * Read the game's abilities and single abilities with the Pokémon and
+ * trainer Pokémon that have them through the API.
+ */
+import { useQuery } from '@tanstack/react-query';
+import type { Ability, AbilityDetail, GameId } from '@/types/database';
+
+/** Every ability in the game; search happens on the client. */
+export function useAbilities(gameId: GameId) {
+  return useQuery<Ability[]>({
+    queryKey: ['/api', gameId, 'abilities'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** A single ability with its holders and the trainer Pokémon running it. */
+export function useAbility(gameId: GameId, abilityId: string | undefined) {
+  return useQuery<AbilityDetail>({
+    queryKey: ['/api', gameId, 'abilities', abilityId ?? ''],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    enabled: !!abilityId,
+  });
+}
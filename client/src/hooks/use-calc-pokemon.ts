@@ -0,0 +1,27 @@
+/**
+ * @file Player Pokémon used for inline damage calcs.
+ * Remembers one build per game in localStorage so it follows the user from
+ * trainer to trainer and survives reloads.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { PokemonBuild } from '@/lib/builds';
+import type { GameId } from '@/types/database';
+
+interface CalcPokemonState {
+  /** Build per game; absent until the user picks a Pokémon. */
+  builds: Partial<Record<GameId, PokemonBuild>>;
+  setBuild: (gameId: GameId, build: PokemonBuild | undefined) => void;
+}
+
+export const useCalcPokemon = create<CalcPokemonState>()(
+  persist(
+    (set) => ({
+      builds: {},
+      setBuild: (gameId, build) => set((state) => ({ builds: { ...state.builds, [gameId]: build } })),
+    }),
+    {
+      name: 'drayano-calc-pokemon',
+    },
+  ),
+);
@@ -0,0 +1,65 @@
+/**
+ * @file Encounter data hooks.
+ * Read routes, per-route wild encounters, and a forme's encounters across
+ * all routes through the API. Filter values are part of each query key so
+ * every combination caches independently.
+ */
+import { useQuery } from '@tanstack/react-query';
+import type {
+  EncounterFilters,
+  EncounterPage,
+  EncounterQuery,
+  GameId,
+  RouteEncounter,
+  RouteSummary,
+} from '@/types/database';
+
+/** Routes for the game ordered by `sort_index`. */
+export function useRoutes(gameId: GameId) {
+  return useQuery<RouteSummary[]>({
+    queryKey: ['/api', gameId, 'routes'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    placeholderData: (prev) => prev,
+  });
+}
+
+/** Methods and times of day available on a route. */
+export function useEncounterFilters(gameId: GameId, routeId: string) {
+  return useQuery<EncounterFilters>({
+    queryKey: ['/api', gameId, 'routes', routeId, 'filters'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    enabled: !!routeId,
+  });
+}
+
+/** One page of encounters on a route. */
+export function useRouteEncounters(gameId: GameId, routeId: string, query: EncounterQuery, enabled = true) {
+  return useQuery<EncounterPage>({
+    queryKey: ['/api', gameId, 'routes', routeId, 'encounters', query],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    enabled: enabled && !!routeId,
+  });
+}
+
+/** Every encounter slot of a route, across all methods and times of day. */
+export function useRouteSlots(gameId: GameId, routeId: string, enabled = true) {
+  return useQuery<RouteEncounter[]>({
+    queryKey: ['/api', gameId, 'routes', routeId, 'slots'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    enabled: enabled && !!routeId,
+  });
+}
+
+/** Every wild encounter slot of a forme across the game, in route order. */
+export function usePokemonEncounters(gameId: GameId, formeId: string) {
+  return useQuery<RouteEncounter[]>({
+    queryKey: ['/api', gameId, 'pokemon', formeId, 'encounters'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    enabled: !!formeId,
+  });
+}
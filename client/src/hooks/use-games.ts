@@ -1,10 +1,10 @@
 /**
  * @file use-games hook.
- * Fetches available game options from Supabase so the app can render game
+ * Fetches available game options from the API so the app can render game
  * lists dynamically without hardcoding identifiers.
  */
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
+import { apiRequest } from '@/lib/queryClient';
 import type { Game } from '@/types/database';
 
 
@@ -22,29 +22,23 @@ const fallbackGames: Game[] = [
 ];
 
 
-/** Retrieve all games from Supabase with basic metadata. */
+/** Retrieve all games from the API with basic metadata. */
 export function useGames() {
   return useQuery<Game[]>({
-    queryKey: ['games'],
+    queryKey: ['/api/games'],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('games')
-        // Select known columns from the games table. Avoid requesting
-        // non-existent fields which would trigger a 400 response.
-        .select('id, name, short_name, uses_type_based_damage');
-
-      if (error) {
+      try {
+        const res = await apiRequest('GET', '/api/games');
+        const data: Game[] = await res.json();
+        return data.length > 0 ? data : fallbackGames;
+      } catch (error) {
         console.warn('Falling back to local game list', error);
         return fallbackGames;
       }
-      // Normalize Sacred Gold naming across data sources. Supabase may
-      // return "SG/SS" but the UI should consistently show just "SG".
-      const list = (data && data.length > 0 ? data : fallbackGames).map((g) =>
-        g.id === 'SG' ? { ...g, short_name: 'SG' } : g
-      );
-      return list;
-
     },
     initialData: fallbackGames,
+    // Treat the fallback list as stale so real metadata (such as
+    // `uses_type_based_damage`) still loads despite the infinite staleTime.
+    initialDataUpdatedAt: 0,
   });
 }
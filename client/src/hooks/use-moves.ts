@@ -0,0 +1,25 @@
+/**
+ * @file Move data hooks.
+ * Read the game's move list and single moves with their learners through the API.
+ */
+import { useQuery } from '@tanstack/react-query';
+import type { GameId, Move, MoveDetail } from '@/types/database';
+
+/** Every move learnable in the game; filtering happens on the client. */
+export function useMoves(gameId: GameId) {
+  return useQuery<Move[]>({
+    queryKey: ['/api', gameId, 'moves'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** A single move with every forme that learns it. */
+export function useMove(gameId: GameId, moveId: string | undefined) {
+  return useQuery<MoveDetail>({
+    queryKey: ['/api', gameId, 'moves', moveId ?? ''],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    enabled: !!moveId,
+  });
+}
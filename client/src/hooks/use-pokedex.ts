@@ -0,0 +1,99 @@
+/**
+ * @file Pokédex data hooks.
+ * Read the game-scoped Pokédex list, per-forme details, evolution steps, and
+ * the attack types each forme can learn through the API. Query keys double
+ * as request paths for the default `getQueryFn`.
+ */
+import { useMemo } from 'react';
+import { useQueries, useQuery, type QueryClient } from '@tanstack/react-query';
+import { evolutionFamilies } from '@/lib/evolution';
+import { ownFamily, type FamilyOf } from '@/lib/rules';
+import type {
+  Evolution,
+  GameId,
+  Paged,
+  PokedexDetail,
+  PokedexEntry,
+  PokedexQuery,
+  PokemonAttackTypes,
+} from '@/types/database';
+
+/** Query key for a single Pokémon's detail row. */
+export function pokemonDetailKey(gameId: GameId, formeId: string) {
+  return ['/api', gameId, 'pokemon', formeId] as const;
+}
+
+/** Paginated Pokédex list filtered by name, type, and evolution stage. */
+export function usePokedex(gameId: GameId, query: PokedexQuery) {
+  return useQuery<Paged<PokedexEntry>>({
+    queryKey: ['/api', gameId, 'pokedex', query],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    placeholderData: (prev) => prev,
+  });
+}
+
+/** Full detail row including stats, abilities, and learnset. Idle without a forme. */
+export function usePokemonDetail(gameId: GameId, formeId: string) {
+  return useQuery<PokedexDetail>({
+    queryKey: pokemonDetailKey(gameId, formeId),
+    enabled: Boolean(formeId),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/**
+ * Detail rows for several formes at once, keyed by `forme_id`. Rows appear as
+ * their queries resolve; duplicates share one request.
+ */
+export function usePokemonDetails(gameId: GameId, formeIds: string[]) {
+  const unique = Array.from(new Set(formeIds.filter(Boolean)));
+  return useQueries({
+    queries: unique.map((formeId) => ({
+      queryKey: pokemonDetailKey(gameId, formeId),
+      staleTime: 5 * 60 * 1000,
+      gcTime: 15 * 60 * 1000,
+    })),
+    combine: (results) => {
+      const byForme: Record<string, PokedexDetail> = {};
+      results.forEach((r, i) => {
+        if (r.data) byForme[unique[i]] = r.data as PokedexDetail;
+      });
+      return { data: byForme, isLoading: results.some((r) => r.isLoading) };
+    },
+  });
+}
+
+/** Warm the detail cache, e.g. when a card is hovered or focused. */
+export function prefetchPokemonDetail(queryClient: QueryClient, gameId: GameId, formeId: string) {
+  return queryClient.prefetchQuery({
+    queryKey: pokemonDetailKey(gameId, formeId),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** Every evolution step of the game. */
+export function useEvolutions(gameId: GameId) {
+  return useQuery<Evolution[]>({
+    queryKey: ['/api', gameId, 'evolutions'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** Forme-to-family lookup for the game; each forme is its own family until evolutions load. */
+export function useEvolutionFamilies(gameId: GameId): FamilyOf {
+  const { data } = useEvolutions(gameId);
+  return useMemo(() => (data ? evolutionFamilies(data) : ownFamily), [data]);
+}
+
+/** Every forme with the types of damaging moves it learns by `maxLevel`; any level when omitted. */
+export function useAttackTypes(gameId: GameId, maxLevel?: number) {
+  return useQuery<PokemonAttackTypes[]>({
+    queryKey: ['/api', gameId, 'attack-types', { maxLevel }],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
@@ -1,42 +1,47 @@
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
-import { GameId } from '@/types/database';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  ContractView,
+  GameId,
+  PreflightCheck,
+  PreflightResult,
+} from '@/types/database';
 
-interface PreflightResult {
-  isReady: boolean;
-  error?: string;
-}
+const preflightKey = (gameId: GameId) => ['/api', gameId, 'preflight'];
 
+/** Run the server-side checks of every contract view for the given game. */
 export function usePreflight(gameId: GameId = 'FRO') {
   return useQuery<PreflightResult>({
-    queryKey: ['preflight', gameId],
-    queryFn: async () => {
-      try {
-        // Simple connection test - just try to fetch one Pokemon
-        const { data, error } = await supabase
-          .from('v_pokedex_app')
-          .select('*')
-          .eq('game_id', gameId)
-          .limit(1);
-
-        if (error) {
-          throw new Error(`Database connection failed: ${error.message}`);
-        }
+    queryKey: preflightKey(gameId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 3,
+  });
+}
 
-        if (!data || data.length === 0) {
-          throw new Error(`No Pokémon found for game ${gameId}`);
-        }
+/**
+ * Re-run a single view's check and merge it into the cached preflight
+ * result, so one flaky view can be retried without repeating the others.
+ */
+export function useRetryPreflightCheck(gameId: GameId) {
+  const queryClient = useQueryClient();
 
-        return { isReady: true };
-      } catch (error) {
-        console.error('Preflight error:', error);
+  return useMutation({
+    mutationFn: async (view: ContractView): Promise<PreflightCheck> => {
+      const res = await apiRequest('GET', `/api/${gameId}/preflight/${view}`);
+      return res.json();
+    },
+    onSuccess: (check) => {
+      queryClient.setQueryData<PreflightResult>(preflightKey(gameId), (prev) => {
+        if (!prev) return prev;
+        const checks = prev.checks.map((c) => (c.view === check.view ? check : c));
+        const failed = checks.find((c) => !c.ok && !c.optional);
         return {
-          isReady: false,
-          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          ...prev,
+          checks,
+          isReady: !failed,
+          error: failed ? `${failed.view}: ${failed.error}` : undefined,
         };
-      }
+      });
     },
-    staleTime: 5 * 60 * 1000, // 5 minutes
-    retry: 3,
   });
 }
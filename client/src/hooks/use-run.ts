@@ -0,0 +1,88 @@
+/**
+ * @file Nuzlocke run store.
+ * Keeps one run per game in localStorage and exposes the run model's
+ * updates as actions. `useCurrentRun` reads the run of the active game.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useGame } from '@/hooks/use-game';
+import {
+  createRun,
+  moveCatch,
+  recordEncounter,
+  recordEvent,
+  removeEncounter,
+  removeEvent,
+  updateCatch,
+  type CatchPatch,
+  type EncounterInput,
+  type EventInput,
+  type Run,
+  type RunBox,
+  type RuleSetId,
+} from '@/lib/run';
+import type { GameId } from '@/types/database';
+
+interface RunState {
+  /** Run per game; absent until the user starts one. */
+  runs: Partial<Record<GameId, Run>>;
+  startRun: (gameId: GameId, ruleSet: RuleSetId, monotype?: string) => void;
+  endRun: (gameId: GameId) => void;
+  recordEncounter: (gameId: GameId, encounter: EncounterInput) => void;
+  /** Encounter actions take the key from `encounterKey`. */
+  removeEncounter: (gameId: GameId, key: string) => void;
+  updateCatch: (gameId: GameId, key: string, patch: CatchPatch) => void;
+  moveCatch: (gameId: GameId, key: string, box: RunBox) => void;
+  recordEvent: (gameId: GameId, event: EventInput) => void;
+  removeEvent: (gameId: GameId, index: number) => void;
+}
+
+export const useRun = create<RunState>()(
+  persist(
+    (set) => {
+      // Applies a pure run update to the game's run, if one exists.
+      const update = (gameId: GameId, fn: (run: Run) => Run) =>
+        set((state) => {
+          const run = state.runs[gameId];
+          return run ? { runs: { ...state.runs, [gameId]: fn(run) } } : state;
+        });
+
+      return {
+        runs: {},
+        startRun: (gameId, ruleSet, monotype) =>
+          set((state) => ({ runs: { ...state.runs, [gameId]: createRun(gameId, ruleSet, monotype) } })),
+        endRun: (gameId) =>
+          set((state) => {
+            const { [gameId]: _ended, ...runs } = state.runs;
+            return { runs };
+          }),
+        recordEncounter: (gameId, encounter) => update(gameId, (run) => recordEncounter(run, encounter)),
+        removeEncounter: (gameId, key) => update(gameId, (run) => removeEncounter(run, key)),
+        updateCatch: (gameId, key, patch) => update(gameId, (run) => updateCatch(run, key, patch)),
+        moveCatch: (gameId, key, box) => update(gameId, (run) => moveCatch(run, key, box)),
+        recordEvent: (gameId, event) => update(gameId, (run) => recordEvent(run, event)),
+        removeEvent: (gameId, index) => update(gameId, (run) => removeEvent(run, index)),
+      };
+    },
+    {
+      name: 'drayano-runs',
+      version: 1,
+      // Version 0 runs were saved before the event log existed.
+      migrate: (persisted, version) => {
+        const state = persisted as Pick<RunState, 'runs'>;
+        if (version >= 1) return state as RunState;
+        const runs: RunState['runs'] = {};
+        for (const [gameId, run] of Object.entries(state.runs ?? {})) {
+          if (run) runs[gameId as GameId] = { ...run, events: run.events ?? [] };
+        }
+        return { ...state, runs } as RunState;
+      },
+    },
+  ),
+);
+
+/** Run of the active game, if one has been started. */
+export function useCurrentRun(): Run | undefined {
+  const { currentGame } = useGame();
+  return useRun((state) => state.runs[currentGame]);
+}
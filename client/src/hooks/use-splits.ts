@@ -0,0 +1,48 @@
+/**
+ * @file Story split hooks.
+ * Read the game's splits in story order with the routes and wild formes
+ * each one opens up, and for one split its trainer Pokémon with their base
+ * Speed, the wild encounters on its routes, and the key items and TMs found
+ * there.
+ */
+import { useQuery } from '@tanstack/react-query';
+import type { GameId, ItemLocation, Split, SplitRouteEncounter, TrainerPokemonSpeed } from '@/types/database';
+
+/** Every story split of the game, in order. */
+export function useSplits(gameId: GameId) {
+  return useQuery<Split[]>({
+    queryKey: ['/api', gameId, 'splits'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** Trainer Pokémon of a split with their base Speed; idle until a split is chosen. */
+export function useSplitSpeeds(gameId: GameId, split: string | undefined) {
+  return useQuery<TrainerPokemonSpeed[]>({
+    queryKey: ['/api', gameId, 'splits', split, 'speeds'],
+    enabled: Boolean(split),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** Wild encounters on the routes a split opens, with base stat totals. */
+export function useSplitEncounters(gameId: GameId, split: string | undefined) {
+  return useQuery<SplitRouteEncounter[]>({
+    queryKey: ['/api', gameId, 'splits', split, 'encounters'],
+    enabled: Boolean(split),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** Key items, TMs, and HMs obtained in a split, in route order. */
+export function useSplitItems(gameId: GameId, split: string | undefined) {
+  return useQuery<ItemLocation[]>({
+    queryKey: ['/api', gameId, 'splits', split, 'items'],
+    enabled: Boolean(split),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
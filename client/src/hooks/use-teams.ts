@@ -0,0 +1,62 @@
+/**
+ * @file Team builder store.
+ * Keeps the team being edited and the saved teams of each game in
+ * localStorage. Saved teams are keyed by name, so saving under an existing
+ * name replaces that team.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { emptyTeam, type Team } from '@/lib/team';
+import type { GameId } from '@/types/database';
+
+interface TeamsState {
+  /** Team being edited per game. */
+  drafts: Partial<Record<GameId, Team>>;
+  /** Saved teams per game, keyed by name. */
+  saved: Partial<Record<GameId, Record<string, Team>>>;
+  setDraft: (gameId: GameId, team: Team) => void;
+  /** Saves the draft under its name; unnamed drafts are not saved. */
+  saveDraft: (gameId: GameId) => void;
+  /** Copies a saved team into the draft. */
+  loadTeam: (gameId: GameId, name: string) => void;
+  deleteTeam: (gameId: GameId, name: string) => void;
+}
+
+export const useTeams = create<TeamsState>()(
+  persist(
+    (set) => ({
+      drafts: {},
+      saved: {},
+      setDraft: (gameId, team) => set((state) => ({ drafts: { ...state.drafts, [gameId]: team } })),
+      saveDraft: (gameId) =>
+        set((state) => {
+          const draft = state.drafts[gameId];
+          const name = draft?.name.trim();
+          if (!draft || !name) return state;
+          const team = { ...draft, name, savedAt: new Date().toISOString() };
+          return {
+            drafts: { ...state.drafts, [gameId]: team },
+            saved: { ...state.saved, [gameId]: { ...state.saved[gameId], [name]: team } },
+          };
+        }),
+      loadTeam: (gameId, name) =>
+        set((state) => {
+          const team = state.saved[gameId]?.[name];
+          return team ? { drafts: { ...state.drafts, [gameId]: team } } : state;
+        }),
+      deleteTeam: (gameId, name) =>
+        set((state) => {
+          const { [name]: _deleted, ...teams } = state.saved[gameId] ?? {};
+          return { saved: { ...state.saved, [gameId]: teams } };
+        }),
+    }),
+    {
+      name: 'drayano-teams',
+    },
+  ),
+);
+
+/** Draft of a game, or an empty team before the first edit. */
+export function useTeamDraft(gameId: GameId): Team {
+  return useTeams((state) => state.drafts[gameId]) ?? emptyTeam();
+}
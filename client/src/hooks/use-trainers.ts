@@ -0,0 +1,60 @@
+/**
+ * @file Trainer data hooks.
+ * Read trainer lists, story leaders, single trainers, and the trainer
+ * Pokémon of a forme through the API.
+ */
+import { useQuery, type QueryClient } from '@tanstack/react-query';
+import type { GameId, Paged, Trainer, TrainerPokemonUse, TrainerQuery } from '@/types/database';
+
+/** Query key for a single trainer with its full team. */
+export function trainerKey(gameId: GameId, trainerId: string) {
+  return ['/api', gameId, 'trainers', trainerId] as const;
+}
+
+/** Paginated trainer list in split order. */
+export function useTrainers(gameId: GameId, query: TrainerQuery) {
+  return useQuery<Paged<Trainer>>({
+    queryKey: ['/api', gameId, 'trainers', query],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    placeholderData: (prev) => prev,
+  });
+}
+
+/** Gym leaders, champions, and other story bosses in split order. */
+export function useLeaderTrainers(gameId: GameId) {
+  return useQuery<Paged<Trainer>>({
+    queryKey: ['/api', gameId, 'trainers', { leaders: true }],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** A single trainer by id. */
+export function useTrainer(gameId: GameId, trainerId: string | undefined) {
+  return useQuery<Trainer>({
+    queryKey: trainerKey(gameId, trainerId ?? ''),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    enabled: !!trainerId,
+  });
+}
+
+/** Warm the trainer cache so detail views open instantly. */
+export function prefetchTrainer(queryClient: QueryClient, gameId: GameId, trainerId: string) {
+  return queryClient.prefetchQuery({
+    queryKey: trainerKey(gameId, trainerId),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+  });
+}
+
+/** Every trainer Pokémon of a forme with its trainer, in split order. */
+export function usePokemonTrainers(gameId: GameId, formeId: string) {
+  return useQuery<TrainerPokemonUse[]>({
+    queryKey: ['/api', gameId, 'pokemon', formeId, 'trainers'],
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    enabled: !!formeId,
+  });
+}
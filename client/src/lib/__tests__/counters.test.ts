@@ -0,0 +1,83 @@
+/**
+ * @file Counter ranking tests covering typing, ability choice, and offensive
+ * hits against a trainer's team.
+ */
+import { describe, it, expect } from 'vitest';
+import { rankCounters, teamAttackTypes } from '../counters';
+import { TYPE_CHARTS } from '../type-chart';
+import type { PokemonAttackTypes, TrainerMove, TrainerPokemon } from '@/types/database';
+
+const move = (name: string, type: string, extra: Partial<TrainerMove> = {}): TrainerMove => ({
+  slot: 1,
+  name,
+  type_id: type,
+  category: 'PHYSICAL',
+  ...extra,
+});
+
+const member = (name: string, types: [string, string?], moves: TrainerMove[]): TrainerPokemon => ({
+  slot_no: 1,
+  level: 30,
+  shiny: false,
+  forme_id: name.toLowerCase(),
+  name,
+  type1_id: types[0],
+  type2_id: types[1],
+  moves,
+});
+
+const candidate = (
+  name: string,
+  types: [string, string?],
+  abilities: string[],
+  attackTypes: string[],
+): PokemonAttackTypes => ({
+  forme_id: name.toLowerCase(),
+  display_name: name,
+  game_id: 'FRO',
+  type1_id: types[0],
+  type2_id: types[1],
+  abilities,
+  attack_types: attackTypes,
+});
+
+const chart = TYPE_CHARTS['gen2-5'];
+const team = [
+  member('Golem', ['rock', 'ground'], [move('Earthquake', 'ground'), move('Rock Slide', 'rock')]),
+  member('Magneton', ['electric', 'steel'], [move('Thunderbolt', 'electric', { category: 'SPECIAL' })]),
+  member('Hypno', ['psychic'], [move('Hypnosis', 'psychic', { category: 'STATUS' })]),
+];
+
+describe('teamAttackTypes', () => {
+  it('collects the distinct types of damaging moves only', () => {
+    expect(teamAttackTypes(team).sort()).toEqual(['electric', 'ground', 'rock']);
+  });
+});
+
+describe('rankCounters', () => {
+  const ranked = rankCounters(
+    [
+      candidate('Charizard', ['fire', 'flying'], ['Blaze'], ['fire', 'flying']),
+      candidate('Torterra', ['grass', 'ground'], ['Overgrow'], ['grass', 'ground']),
+      candidate('Bronzong', ['steel', 'psychic'], ['Levitate', 'Heatproof'], ['steel', 'psychic']),
+    ],
+    team,
+    chart,
+    4,
+  );
+
+  it('ranks by the worst hit taken from the team', () => {
+    expect(ranked.map((c) => c.pokemon.display_name)).toEqual(['Torterra', 'Bronzong', 'Charizard']);
+    expect(ranked.map((c) => c.worst)).toEqual([0.5, 1, 4]);
+  });
+
+  it('names the ability only when it changes the score', () => {
+    expect(ranked[1]).toMatchObject({ ability: 'Levitate', resisted: 2, weakTo: 0 });
+    expect(ranked[0].ability).toBeUndefined();
+  });
+
+  it('counts team members hit super-effectively', () => {
+    // Grass hits Golem and ground hits Magneton; steel only hits Golem.
+    expect(ranked.map((c) => c.hits)).toEqual([2, 1, 1]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @file Team coverage tests covering the offensive and defensive matrices and
+ * the team summary.
+ */
+import { describe, it, expect } from 'vitest';
+import { coverageSummary, defensiveCoverage, formatMultiplier, offensiveCoverage } from '../coverage';
+import { TYPE_CHARTS } from '../type-chart';
+import type { TrainerMove, TrainerPokemon } from '@/types/database';
+
+const move = (name: string, type: string, extra: Partial<TrainerMove> = {}): TrainerMove => ({
+  slot: 1,
+  name,
+  type_id: type,
+  category: 'PHYSICAL',
+  ...extra,
+});
+
+const member = (name: string, types: [string, string?], extra: Partial<TrainerPokemon> = {}): TrainerPokemon => ({
+  slot_no: 1,
+  level: 30,
+  shiny: false,
+  forme_id: name.toLowerCase(),
+  name,
+  type1_id: types[0],
+  type2_id: types[1],
+  moves: [],
+  ...extra,
+});
+
+const chart = TYPE_CHARTS['gen2-5'];
+const golem = member('Golem', ['rock', 'ground'], {
+  moves: [move('Earthquake', 'ground'), move('Rock Slide', 'rock')],
+});
+const bronzong = member('Bronzong', ['steel', 'psychic'], {
+  ability: 'Levitate',
+  moves: [move('Gyro Ball', 'steel'), move('Hypnosis', 'psychic', { category: 'STATUS' })],
+});
+const starmie = member('Starmie', ['water', 'psychic'], { moves: [move('Surf', 'water', { category: 'SPECIAL' })] });
+
+describe('offensiveCoverage', () => {
+  it('takes the best damaging move against each type', () => {
+    const golemCoverage = offensiveCoverage(golem, chart);
+    expect(golemCoverage.flying).toBe(2);
+    expect(golemCoverage.grass).toBe(1);
+    expect(offensiveCoverage(bronzong, chart).water).toBe(0.5);
+    const chansey = member('Chansey', ['normal'], {
+      moves: [move('Softboiled', 'normal', { category: 'STATUS' })],
+    });
+    expect(offensiveCoverage(chansey, chart)).toEqual({});
+  });
+});
+
+describe('defensiveCoverage', () => {
+  it('applies ability immunities on top of the chart', () => {
+    const coverage = defensiveCoverage(bronzong, chart, 4);
+    expect(coverage.ground).toBe(0);
+    expect(coverage.fire).toBe(2);
+    expect(coverage.ghost).toBe(1);
+    expect(defensiveCoverage(bronzong, TYPE_CHARTS.gen6, 5).ghost).toBe(2);
+  });
+});
+
+describe('coverageSummary', () => {
+  it('finds walls and the types most of the team threatens', () => {
+    expect(coverageSummary([golem, bronzong, starmie], chart)).toEqual({
+      walls: [],
+      threatened: ['fire', 'ice', 'rock'],
+    });
+    expect(coverageSummary([bronzong, starmie], chart).walls).toEqual(['water']);
+    expect(formatMultiplier(0.25)).toBe('¼×');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @file Damage engine tests covering the per-generation formula, the
+ * type-based physical/special rule, immunities, and KO chance math.
+ */
+import { describe, it, expect } from 'vitest';
+import { calculateDamage, describeKo, koChances, type CalcPokemon } from '../damage';
+import { uniformSpread } from '../stats';
+
+const mon = (overrides: Partial<CalcPokemon>): CalcPokemon => ({
+  name: 'Test',
+  types: ['normal'],
+  baseStats: { hp: 100, atk: 100, def: 100, spa: 100, spd: 100, spe: 100 },
+  level: 50,
+  nature: 'Hardy',
+  ivs: uniformSpread(31),
+  evs: uniformSpread(0),
+  ...overrides,
+});
+
+describe('calculateDamage', () => {
+  const attacker = mon({ types: ['ghost'] });
+  const defender = mon({ types: ['psychic'] });
+  const shadowBall = { name: 'Shadow Ball', type: 'ghost', category: 'SPECIAL' as const, power: 80 };
+
+  it('returns 16 ascending rolls with STAB and super effectiveness applied', () => {
+    // Level 50, 120 SpA vs 120 SpD, 80 BP: base 37; the 85% roll is 31,
+    // STAB makes 46.5 which rounds half down to 46, and ×2 gives 92.
+    const { rolls, min, max, effectiveness } = calculateDamage(attacker, defender, shadowBall, {
+      generation: 5,
+      typeBasedCategory: false,
+    });
+    expect(rolls).toHaveLength(16);
+    expect([...rolls].sort((a, b) => a - b)).toEqual(rolls);
+    expect(effectiveness).toBe(2);
+    expect(max).toBe(110);
+    expect(min).toBe(92);
+  });
+
+  it('uses the move type for the category under the type-based rule', () => {
+    const special = calculateDamage(attacker, defender, shadowBall, {
+      generation: 4,
+      typeBasedCategory: false,
+    });
+    const typeBased = calculateDamage(attacker, defender, shadowBall, {
+      generation: 4,
+      typeBasedCategory: true,
+    });
+    expect(special.category).toBe('SPECIAL');
+    expect(typeBased.category).toBe('PHYSICAL');
+
+    // Physical hits now read Defense, so a Defense-lowering nature takes more.
+    const weakDef = mon({ types: ['psychic'], nature: 'Lonely' });
+    const hit = calculateDamage(attacker, weakDef, shadowBall, { generation: 4, typeBasedCategory: true });
+    expect(hit.max).toBeGreaterThan(typeBased.max);
+  });
+
+  it('honors type and ability immunities', () => {
+    const normal = mon({ types: ['normal'] });
+    expect(calculateDamage(attacker, normal, shadowBall, { generation: 3, typeBasedCategory: true }).max).toBe(0);
+
+    const earthquake = { name: 'Earthquake', type: 'ground', category: 'PHYSICAL' as const, power: 100 };
+    const floating = mon({ types: ['ghost'], ability: 'Levitate' });
+    expect(calculateDamage(attacker, floating, earthquake, { generation: 4, typeBasedCategory: false }).max).toBe(0);
+
+    const thunderbolt = { name: 'Thunderbolt', type: 'electric', category: 'SPECIAL' as const, power: 95 };
+    const rod = mon({ types: ['rock'], ability: 'Lightning Rod' });
+    const thunderboltOn = (generation: 4 | 5) =>
+      calculateDamage(attacker, rod, thunderbolt, { generation, typeBasedCategory: false }).max;
+    expect(thunderboltOn(4)).toBeGreaterThan(0);
+    expect(thunderboltOn(5)).toBe(0);
+  });
+
+  it('doubles damage on critical hits in Generation III', () => {
+    const options = { generation: 3 as const, typeBasedCategory: true };
+    const normalHit = calculateDamage(attacker, defender, shadowBall, options);
+    const crit = calculateDamage(attacker, defender, shadowBall, { ...options, critical: true });
+    expect(crit.max).toBeGreaterThanOrEqual(normalHit.max * 2 - 1);
+  });
+});
+
+describe('koChances', () => {
+  it('counts the share of roll combinations that reach the HP', () => {
+    const rolls = [...Array(8).fill(40), ...Array(8).fill(60)];
+    const [one, two] = koChances(rolls, 100);
+    expect(one.chance).toBe(0);
+    // Only 40 + 40 falls short: 1/4 of pairs.
+    expect(two.chance).toBeCloseTo(0.75);
+    expect(describeKo({ max: 60, koChances: koChances(rolls, 100) })).toBe('75.0% chance to 2HKO');
+    expect(describeKo({ max: 60, koChances: koChances(rolls, 50) })).toBe('50.0% chance to OHKO');
+    expect(describeKo({ max: 60, koChances: koChances(rolls, 40) })).toBe('Guaranteed OHKO');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @file Evolution chain tests covering branching families, family lookup for
+ * the dupes clause, and method descriptions.
+ */
+import { describe, it, expect } from 'vitest';
+import { describeEvolution, evolutionChain, evolutionFamilies } from '../evolution';
+import type { Evolution } from '@/types/database';
+
+const step = (from: string, to: string, extra: Partial<Evolution> = {}): Evolution => ({
+  game_id: 'FRO',
+  from_forme_id: from,
+  from_name: from,
+  to_forme_id: to,
+  to_name: to,
+  method: 'level-up',
+  ...extra,
+});
+
+const evolutions = [
+  step('oddish', 'gloom', { level: 21 }),
+  step('gloom', 'vileplume', { method: 'item', item: 'Leaf Stone' }),
+  step('gloom', 'bellossom', { method: 'item', item: 'Sun Stone' }),
+];
+
+describe('evolutionChain', () => {
+  it('builds the whole family from the first stage, with branches', () => {
+    const chain = evolutionChain(evolutions, 'bellossom');
+    expect(chain?.formeId).toBe('oddish');
+    expect(chain?.next[0].formeId).toBe('gloom');
+    expect(chain?.next[0].next.map((n) => n.formeId)).toEqual(['vileplume', 'bellossom']);
+    expect(evolutionChain(evolutions, 'tauros')).toBeNull();
+  });
+
+  it('maps every stage to the family root', () => {
+    const familyOf = evolutionFamilies(evolutions);
+    expect(familyOf('vileplume')).toBe('oddish');
+    expect(familyOf('gloom')).toBe('oddish');
+    expect(familyOf('tauros')).toBe('tauros');
+  });
+});
+
+describe('describeEvolution', () => {
+  it('describes reworked methods', () => {
+    expect(describeEvolution(evolutions[0])).toBe('Level 21');
+    expect(describeEvolution(evolutions[1])).toBe('Use Leaf Stone');
+    expect(describeEvolution(step('machoke', 'machamp', { method: 'trade' }))).toBe('Trade');
+    expect(describeEvolution(step('eevee', 'umbreon', { method: 'friendship', condition: 'night' }))).toBe(
+      'High friendship (night)',
+    );
+  });
+});
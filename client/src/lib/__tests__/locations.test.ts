@@ -0,0 +1,37 @@
+/**
+ * @file Location summary tests covering how encounter slots merge per table.
+ */
+import { describe, it, expect } from 'vitest';
+import { summarizeLocations } from '../locations';
+import type { RouteEncounter } from '@/types/database';
+
+const slot = (route: string, sortIndex: number, extra: Partial<RouteEncounter> = {}): RouteEncounter =>
+  ({
+    id: `${route}-${Math.random()}`,
+    route_id: route,
+    route_name: `Route ${route}`,
+    sort_index: sortIndex,
+    method: 'grass',
+    min_level: 3,
+    max_level: 4,
+    rate: 20,
+    ...extra,
+  }) as RouteEncounter;
+
+describe('summarizeLocations', () => {
+  it('merges slots of one table and keeps tables apart', () => {
+    const locations = summarizeLocations([
+      slot('2', 2),
+      slot('1', 1, { method: 'surf', rate: 5 }),
+      slot('1', 1, { min_level: 5, max_level: 7, rate: 10 }),
+      slot('1', 1),
+      slot('1', 1, { time_of_day: 'night' }),
+    ]);
+    expect(locations.map((l) => [l.routeId, l.method, l.timeOfDay, l.rate, l.minLevel, l.maxLevel])).toEqual([
+      ['1', 'grass', undefined, 30, 3, 7],
+      ['1', 'grass', 'night', 20, 3, 4],
+      ['1', 'surf', undefined, 5, 3, 4],
+      ['2', 'grass', undefined, 20, 3, 4],
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @file Move helper tests covering list filters and grouping of learners by
+ * learn method.
+ */
+import { describe, it, expect } from 'vitest';
+import { filterMoves, groupLearners } from '../moves';
+import type { Move, MoveLearner } from '@/types/database';
+
+const move = (name: string, extra: Partial<Move> = {}): Move => ({
+  move_id: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+  type_id: 'Normal',
+  category: 'PHYSICAL',
+  ...extra,
+});
+
+const learner = (forme: string, method: string, level?: number, tmNo?: number): MoveLearner => ({
+  game_id: 'FRO',
+  forme_id: forme.toLowerCase(),
+  display_name: forme,
+  type1_id: 'Normal',
+  method,
+  level,
+  tm_no: tmNo,
+});
+
+describe('filterMoves', () => {
+  const moves = [
+    move('Quick Attack', { power: 40, accuracy: 100, priority: 1 }),
+    move('Swift', { type_id: 'Normal', category: 'SPECIAL', power: 60 }),
+    move('Flamethrower', { type_id: 'Fire', category: 'SPECIAL', power: 90, accuracy: 100 }),
+    move('Growl', { category: 'STATUS', accuracy: 100 }),
+  ];
+  const names = (filtered: Move[]) => filtered.map((m) => m.name);
+
+  it('combines search, type, category, and priority', () => {
+    expect(names(filterMoves(moves, { search: 'a', category: 'SPECIAL' }))).toEqual(['Flamethrower']);
+    expect(names(filterMoves(moves, { type: 'normal', priority: 0 }))).toEqual(['Swift', 'Growl']);
+    expect(names(filterMoves(moves, { priority: 1 }))).toEqual(['Quick Attack']);
+  });
+
+  it('drops moves without the stat once a bound is set', () => {
+    expect(names(filterMoves(moves, { minPower: 50 }))).toEqual(['Swift', 'Flamethrower']);
+    expect(names(filterMoves(moves, { maxPower: 50 }))).toEqual(['Quick Attack']);
+    expect(names(filterMoves(moves, { minAccuracy: 100 }))).toEqual(['Quick Attack', 'Flamethrower', 'Growl']);
+  });
+});
+
+describe('groupLearners', () => {
+  it('groups by method in display order, sorting level learners by level', () => {
+    const groups = groupLearners([
+      learner('Rattata', 'TM', undefined, 34),
+      learner('Pidgey', 'LEVEL', 5),
+      learner('Eevee', 'EGG'),
+      learner('Rattata', 'LEVEL', 1),
+      learner('Rattata', 'HM', undefined, 34),
+      learner('Abra', 'TM', undefined, 34),
+    ]);
+    expect(groups.map(([group]) => group)).toEqual(['LEVEL', 'MACHINE', 'EGG']);
+    expect(groups[0][1].map((r) => r.display_name)).toEqual(['Rattata', 'Pidgey']);
+    expect(groups[1][1].map((r) => r.display_name)).toEqual(['Abra', 'Rattata']);
+  });
+});
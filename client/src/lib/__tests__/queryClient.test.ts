@@ -0,0 +1,22 @@
+/**
+ * @file Query key to URL tests covering the literal base path, encoding of
+ * data segments, and query parameters.
+ */
+import { describe, it, expect } from 'vitest';
+import { queryKeyToUrl } from '../queryClient';
+
+describe('queryKeyToUrl', () => {
+  it('keeps the base path and encodes data segments whole', () => {
+    expect(queryKeyToUrl(['/api/games'])).toBe('/api/games');
+    expect(queryKeyToUrl(['/api', 'RP', 'splits', 'Fantina/Maylene', 'speeds'])).toBe(
+      '/api/RP/splits/Fantina%2FMaylene/speeds',
+    );
+    expect(queryKeyToUrl(['/api', 'SG', 'pokemon', 'mr. mime'])).toBe('/api/SG/pokemon/mr.%20mime');
+  });
+
+  it('turns a trailing object into query parameters, skipping empty values', () => {
+    expect(queryKeyToUrl(['/api', 'FRO', 'pokedex', { page: 2, search: '', type: undefined }])).toBe(
+      '/api/FRO/pokedex?page=2',
+    );
+  });
+});
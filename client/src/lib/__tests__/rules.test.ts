@@ -0,0 +1,70 @@
+/**
+ * @file Rules engine tests covering rule set validation, re-roll odds on an
+ * encounter table, and warnings for encounters and events that break rules.
+ */
+import { describe, it, expect } from 'vitest';
+import { createRun, recordEncounter, recordEvent, type EncounterInput } from '../run';
+import { defineRuleSets, effectiveOdds, rerollChecker, RULE_SETS, RULE_SET_LIST, ruleWarnings } from '../rules';
+import type { RouteEncounter } from '@/types/database';
+
+const catchOn = (routeId: string, formeId: string, extra: Partial<EncounterInput> = {}): EncounterInput => ({
+  routeId,
+  routeName: `Route ${routeId}`,
+  outcome: 'caught',
+  formeId,
+  species: formeId,
+  ...extra,
+});
+
+const slot = (id: string, formeId: string, rate: number, method = 'grass'): RouteEncounter =>
+  ({ id, forme_id: formeId, rate, method }) as RouteEncounter;
+
+describe('rule sets', () => {
+  it('defines every rule set once', () => {
+    expect(RULE_SET_LIST.map((r) => r.id)).toEqual(['standard', 'hardcore', 'wedlocke', 'monotype']);
+    expect(() => defineRuleSets([...RULE_SET_LIST, RULE_SETS.standard])).toThrow(/more than once/);
+    expect(() => defineRuleSets(RULE_SET_LIST.slice(1))).toThrow(/missing: standard/);
+  });
+
+  it('rejects malformed definitions', () => {
+    const invalid = { ...RULE_SETS.standard, dupesClause: false };
+    expect(() => defineRuleSets([...RULE_SET_LIST.slice(1), invalid])).toThrow(/species clause/);
+    expect(() => defineRuleSets([...RULE_SET_LIST.slice(1), { ...RULE_SETS.standard, items: false }])).toThrow();
+  });
+});
+
+describe('effectiveOdds', () => {
+  it('spreads the rate of re-rolled species over the rest of the table', () => {
+    const run = recordEncounter(createRun('FRO', 'standard'), catchOn('1', 'pidgey'));
+    const reroll = rerollChecker(run, RULE_SETS.standard, (id) => (id === 'pidgeotto' ? 'pidgey' : id));
+    const odds = effectiveOdds(
+      [slot('a', 'pidgey', 40), slot('b', 'pidgeotto', 20), slot('c', 'rattata', 30), slot('d', 'spearow', 10), slot('e', 'tentacool', 100, 'surf')],
+      reroll,
+    );
+    expect(odds.get('a')).toBe(0);
+    expect(odds.get('b')).toBe(0);
+    expect(odds.get('c')).toBe(75);
+    expect(odds.get('d')).toBe(25);
+    expect(odds.get('e')).toBe(100);
+  });
+});
+
+describe('ruleWarnings', () => {
+  it('flags items used in battle under hardcore rules only', () => {
+    const run = recordEvent(createRun('FRO', 'hardcore'), { kind: 'item-used', item: 'Hyper Potion' });
+    expect(ruleWarnings(run, RULE_SETS.hardcore).map((w) => w.message)).toEqual([
+      'Used Hyper Potion in battle; Hardcore rules ban items in battle.',
+    ]);
+    expect(ruleWarnings(run, RULE_SETS.standard)).toEqual([]);
+  });
+
+  it('flags dupes unless the shiny clause covers them', () => {
+    let run = recordEncounter(createRun('FRO', 'standard'), catchOn('1', 'pidgey'));
+    run = recordEncounter(run, catchOn('1', 'pidgey', { shiny: true, bonus: true }));
+    expect(ruleWarnings(run, RULE_SETS.standard)).toEqual([]);
+    run = recordEncounter(run, catchOn('2', 'pidgey'));
+    expect(ruleWarnings(run, RULE_SETS.standard)).toEqual([
+      { key: '2', message: 'pidgey on Route 2 is a dupe and should have been re-rolled.' },
+    ]);
+  });
+});
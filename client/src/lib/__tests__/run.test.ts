@@ -0,0 +1,59 @@
+/**
+ * @file Run model tests covering route usage, party overflow into the box,
+ * and moves between party, box, and graveyard.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  canMoveTo,
+  createRun,
+  moveCatch,
+  recordEncounter,
+  removeEncounter,
+  runPokemon,
+  usedRouteIds,
+  type EncounterInput,
+} from '../run';
+
+const catchOn = (routeId: string, extra: Partial<EncounterInput> = {}): EncounterInput => ({
+  routeId,
+  routeName: `Route ${routeId}`,
+  outcome: 'caught',
+  formeId: `mon-${routeId}`,
+  species: `Mon ${routeId}`,
+  nickname: `Nick ${routeId}`,
+  level: 5,
+  ...extra,
+});
+
+const fullParty = () =>
+  ['1', '2', '3', '4', '5', '6'].reduce(
+    (run, id, i) => recordEncounter(run, catchOn(id), new Date(2024, 0, 1, 0, i)),
+    createRun('FRO', 'standard'),
+  );
+
+describe('run model', () => {
+  it('marks routes as used and frees them when an encounter is removed', () => {
+    let run = recordEncounter(createRun('FRO', 'standard'), { ...catchOn('1'), outcome: 'fled' });
+    expect(usedRouteIds(run)).toEqual(new Set(['1']));
+    // Only catches keep a nickname and level.
+    expect(run.encounters['1'].nickname).toBeUndefined();
+    run = removeEncounter(run, '1');
+    expect(usedRouteIds(run).size).toBe(0);
+  });
+
+  it('sends catches to the box once the party is full', () => {
+    const run = recordEncounter(fullParty(), catchOn('7'));
+    expect(runPokemon(run, 'party')).toHaveLength(6);
+    expect(run.encounters['7'].box).toBe('box');
+    expect(canMoveTo(run, '7', 'party')).toBe(false);
+    expect(moveCatch(run, '7', 'party')).toBe(run);
+  });
+
+  it('moves fainted Pokémon to the graveyard and frees their party slot', () => {
+    let run = recordEncounter(fullParty(), catchOn('7'));
+    run = moveCatch(run, '1', 'graveyard');
+    expect(runPokemon(run, 'graveyard').map((e) => e.routeId)).toEqual(['1']);
+    run = moveCatch(run, '7', 'party');
+    expect(runPokemon(run, 'party').map((e) => e.routeId)).toEqual(['2', '3', '4', '5', '6', '7']);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @file Speed tier tests covering trainer IVs, Choice Scarf, modifier
+ * markers, and ordering against the user's Pokémon.
+ */
+import { describe, it, expect } from 'vitest';
+import { ownSpeedEntry, sortBySpeed, trainerSpeedEntry } from '../speed';
+import type { PokedexDetail, TrainerMove, TrainerPokemonSpeed } from '@/types/database';
+
+const move = (name: string, extra: Partial<TrainerMove> = {}): TrainerMove => ({
+  slot: 1,
+  name,
+  type_id: 'normal',
+  category: 'PHYSICAL',
+  ...extra,
+});
+
+type Member = TrainerPokemonSpeed['pokemon'];
+
+const use = (name: string, baseSpe: number, extra: Partial<Member> = {}): TrainerPokemonSpeed => ({
+  trainer: {
+    trainer_id: 'roark',
+    trainer_name: 'Roark',
+    trainer_class: 'Leader',
+    game_id: 'RP',
+    variant_key: 'default',
+    variant_label: 'Default',
+    is_leader: true,
+  },
+  pokemon: {
+    slot_no: 1,
+    level: 50,
+    shiny: false,
+    forme_id: name.toLowerCase(),
+    name,
+    type1_id: 'normal',
+    moves: [],
+    ...extra,
+  },
+  base_spe: baseSpe,
+});
+
+describe('trainerSpeedEntry', () => {
+  it('computes Speed from the trainer IVs and nature', () => {
+    expect(trainerSpeedEntry(use('Jolteon', 130), 31).speed).toBe(150);
+    expect(trainerSpeedEntry(use('Jolteon', 130, { nature: 'Timid' }), 31).speed).toBe(165);
+    expect(trainerSpeedEntry(use('Jolteon', 130), 0).speed).toBe(135);
+  });
+
+  it('counts Choice Scarf and marks modifiers', () => {
+    const entry = trainerSpeedEntry(
+      use('Scizor', 65, { item: 'Choice Scarf', moves: [move('Bullet Punch', { priority: 1 }), move('Trick Room')] }),
+      31,
+    );
+    expect(entry.speed).toBe(127);
+    expect(entry.modifiers).toEqual(['choice-scarf', 'trick-room', 'priority']);
+  });
+});
+
+describe('sortBySpeed', () => {
+  it('puts the fastest first and the user ahead on ties', () => {
+    const jolteon = { forme_id: 'jolteon', display_name: 'Jolteon', spe: 130 } as PokedexDetail;
+    const sorted = sortBySpeed([
+      trainerSpeedEntry(use('Golem', 45), 31),
+      trainerSpeedEntry(use('Jolteon', 130), 31),
+      ownSpeedEntry(jolteon, 50, 0),
+    ]);
+    expect(sorted.map((e) => [e.name, Boolean(e.trainer)])).toEqual([
+      ['Jolteon', false],
+      ['Jolteon', true],
+      ['Golem', true],
+    ]);
+    expect(sorted[0].boosted).toBe(165);
+  });
+});
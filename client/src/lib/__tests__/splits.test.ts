@@ -0,0 +1,118 @@
+/**
+ * @file Availability tests covering wild catches, evolutions gated by the
+ * level cap, level-up moves above the cap, and each split's new catches.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  currentSplitIndex,
+  levelCaps,
+  moveUnlockLevel,
+  nextLevelCap,
+  pokemonAvailability,
+  strongestCatches,
+} from '../splits';
+import type { Evolution, PokedexDetail, Split, SplitRouteEncounter } from '@/types/database';
+
+const split = (name: string, order: number, extra: Partial<Split> = {}): Split => ({
+  name,
+  order,
+  routes: [],
+  encounters: [],
+  ...extra,
+});
+
+const wild = (formeId: string) => ({ forme_id: formeId, forme_label: formeId, route_id: 'route' });
+
+const evolution = (from: string, to: string, level?: number): Evolution => ({
+  game_id: 'RP',
+  from_forme_id: from,
+  from_name: from,
+  to_forme_id: to,
+  to_name: to,
+  method: level ? 'level-up' : 'item',
+  level,
+});
+
+const splits = [
+  split('Roark', 0, { level_cap: 14, encounters: [wild('shinx'), wild('machop')] }),
+  split('Gardenia', 1, { level_cap: 22 }),
+  split('Fantina', 2, { encounters: [wild('eevee')] }),
+  split('Maylene', 3, { level_cap: 30 }),
+];
+
+describe('pokemonAvailability', () => {
+  it('starts at the first wild split and waits for the cap to reach evolution levels', () => {
+    const available = pokemonAvailability(splits, [
+      evolution('shinx', 'luxio', 15),
+      evolution('luxio', 'luxray', 30),
+      evolution('machop', 'machoke', 10),
+      evolution('eevee', 'glaceon'),
+    ]);
+    expect(available.get('shinx')).toBe(0);
+    expect(available.get('machoke')).toBe(0);
+    expect(available.get('luxio')).toBe(1);
+    expect(available.get('luxray')).toBe(3);
+    expect(available.get('glaceon')).toBe(2);
+    expect(available.has('riolu')).toBe(false);
+    expect(levelCaps(splits)).toEqual([14, 22, 22, 30]);
+  });
+});
+
+describe('currentSplitIndex', () => {
+  it('finds the latest split opening a visited route', () => {
+    const route = (id: string) => ({ route_id: id, route_name: id, sort_index: 0 });
+    const routed = [
+      split('Roark', 0, { routes: [route('r201'), route('r202')] }),
+      split('Gardenia', 1, { routes: [route('r204')] }),
+    ];
+    expect(currentSplitIndex(routed, [])).toBeUndefined();
+    expect(currentSplitIndex(routed, ['r201'])).toBe(0);
+    expect(currentSplitIndex(routed, ['r204', 'r202'])).toBe(1);
+  });
+});
+
+describe('strongestCatches', () => {
+  it('ranks the first row of each new forme by base stat total', () => {
+    const row = (id: number, formeId: string, routeId: string, bst?: number) =>
+      ({ id, forme_id: formeId, forme_label: formeId, route_id: routeId, base_stat_total: bst }) as SplitRouteEncounter;
+    const encounters = [
+      row(1, 'bidoof', 'r201', 250),
+      row(2, 'shinx', 'r201', 263),
+      row(3, 'machop', 'r207', 305),
+      row(4, 'shinx', 'r202', 263),
+      row(5, 'starly', 'r202'),
+    ];
+    const ranked = strongestCatches(splits[0], encounters);
+    expect(ranked.map((e) => e.id)).toEqual([3, 2]);
+    const early = split('Roark', 0, { encounters: [wild('starly'), wild('bidoof')] });
+    expect(strongestCatches(early, encounters, 1)).toEqual([encounters[0]]);
+  });
+});
+
+describe('nextLevelCap', () => {
+  it('picks the first cap the team has not passed', () => {
+    expect(nextLevelCap(splits)).toBe(14);
+    expect(nextLevelCap(splits, 14)).toBe(14);
+    expect(nextLevelCap(splits, 15)).toBe(22);
+    expect(nextLevelCap(splits, 31)).toBeUndefined();
+  });
+});
+
+describe('moveUnlockLevel', () => {
+  const detail = {
+    learnset: {
+      LEVEL: [
+        { name: 'Spark', level: 13 },
+        { name: 'Thunder Fang', level: 29 },
+        { name: 'Crunch', level: 41 },
+      ],
+      TM: [{ name: 'Crunch' }],
+    },
+  } as unknown as PokedexDetail;
+
+  it('returns the level of moves only learned by level-up', () => {
+    expect(moveUnlockLevel(detail, 'Thunder Fang')).toBe(29);
+    expect(moveUnlockLevel(detail, 'Crunch')).toBeUndefined();
+    expect(moveUnlockLevel(detail, 'Surf')).toBeUndefined();
+  });
+});
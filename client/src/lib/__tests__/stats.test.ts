@@ -0,0 +1,31 @@
+/**
+ * @file Stat formula tests covering natures and solving IVs from observed
+ * stats.
+ */
+import { describe, it, expect } from 'vitest';
+import { calcStat, ivRange } from '../stats';
+
+describe('calcStat', () => {
+  it('applies the nature to every stat but HP', () => {
+    // Garchomp, base 130 Atk / 108 HP, at Lv. 50 with 31 IVs.
+    expect(calcStat('hp', 108, 31, 0, 50, 'Adamant')).toBe(183);
+    expect(calcStat('atk', 130, 31, 0, 50)).toBe(150);
+    expect(calcStat('atk', 130, 31, 0, 50, 'Adamant')).toBe(165);
+    expect(calcStat('atk', 130, 31, 0, 50, 'Modest')).toBe(135);
+  });
+});
+
+describe('ivRange', () => {
+  it('returns every IV that produces the observed stat', () => {
+    // At Lv. 50 each stat point spans two IVs.
+    expect(ivRange('atk', 130, 150, 0, 50)).toEqual({ min: 30, max: 31 });
+    expect(ivRange('atk', 130, 135, 0, 50)).toEqual({ min: 0, max: 1 });
+    // At Lv. 1 every IV gives the same stat.
+    expect(ivRange('spe', 102, 7, 0, 1)).toEqual({ min: 0, max: 31 });
+  });
+
+  it('returns undefined when no IV fits', () => {
+    expect(ivRange('atk', 130, 170, 0, 50)).toBeUndefined();
+    expect(ivRange('atk', 130, 150, 0, 50, 'Modest')).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @file Team builder model tests covering the six-member limit, move slots,
+ * and speed tiers.
+ */
+import { describe, it, expect } from 'vitest';
+import { addMember, emptyTeam, removeMember, setMemberMove, speedMatchup, speedTiers } from '../team';
+import type { PokedexDetail } from '@/types/database';
+
+describe('team updates', () => {
+  it('caps the team at six and keeps move slots packed', () => {
+    let team = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].reduce((t, id) => addMember(t, id), emptyTeam());
+    expect(team.members.map((m) => m.formeId)).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+
+    team = setMemberMove(team, 1, 0, 'Tackle');
+    team = setMemberMove(team, 1, 1, 'Growl');
+    team = setMemberMove(team, 1, 0, undefined);
+    expect(team.members[1].moves).toEqual(['Growl']);
+
+    expect(removeMember(team, 0).members[0]).toEqual({ formeId: 'b', moves: ['Growl'] });
+  });
+});
+
+describe('speedTiers', () => {
+  it('sorts by speed at the level with and without a Speed nature', () => {
+    const mon = (id: string, spe: number) => ({ forme_id: id, display_name: id, spe }) as PokedexDetail;
+    expect(speedTiers([mon('golem', 45), mon('jolteon', 130)], 50)).toEqual([
+      { formeId: 'jolteon', name: 'jolteon', base: 130, neutral: 150, boosted: 165 },
+      { formeId: 'golem', name: 'golem', base: 45, neutral: 65, boosted: 71 },
+    ]);
+  });
+});
+
+describe('speedMatchup', () => {
+  it('separates Pokémon that need a Speed nature to outspeed', () => {
+    const tier = (name: string, neutral: number, boosted: number) => ({ formeId: name, name, base: 0, neutral, boosted });
+    const matchup = speedMatchup([tier('a', 120, 132), tier('b', 100, 110), tier('c', 90, 99)], 100);
+    expect(matchup.faster.map((t) => t.name)).toEqual(['a']);
+    expect(matchup.withNature.map((t) => t.name)).toEqual(['b']);
+    expect(matchup.slower.map((t) => t.name)).toEqual(['c']);
+  });
+});
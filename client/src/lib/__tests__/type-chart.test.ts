@@ -0,0 +1,56 @@
+/**
+ * @file Type chart tests covering per-game charts, the defensive grid, and
+ * ability immunities.
+ */
+import { describe, it, expect } from 'vitest';
+import { abilityImmunities, defensiveMatchups, typeEffectiveness, TYPE_CHARTS } from '../type-chart';
+import { gameTypeChart } from '../games';
+
+describe('typeEffectiveness', () => {
+  it('applies the Steel and Fairy rules of each chart', () => {
+    expect(typeEffectiveness('ghost', ['steel'], TYPE_CHARTS['gen2-5'])).toBe(0.5);
+    expect(typeEffectiveness('ghost', ['steel'], TYPE_CHARTS.gen6)).toBe(1);
+    expect(typeEffectiveness('dragon', ['fairy'], TYPE_CHARTS['gen2-5'])).toBe(1);
+    expect(typeEffectiveness('dragon', ['fairy'], TYPE_CHARTS['gen2-5-fairy'])).toBe(0);
+    expect(typeEffectiveness('Ice', ['dragon', 'flying'])).toBe(4);
+  });
+
+  it('picks the chart from the game', () => {
+    expect(gameTypeChart('SG').types).not.toContain('fairy');
+    expect(gameTypeChart('VW2').id).toBe('gen6');
+    expect(gameTypeChart('unknown').id).toBe('gen6');
+  });
+});
+
+describe('defensiveMatchups', () => {
+  it('buckets every attacking type by multiplier', () => {
+    const grid = Object.fromEntries(
+      defensiveMatchups(['grass', 'poison'], TYPE_CHARTS['gen2-5']).map((b) => [b.label, b.types]),
+    );
+    expect(grid['4×']).toEqual([]);
+    expect(grid['2×']).toEqual(['fire', 'ice', 'flying', 'psychic']);
+    expect(grid['¼×']).toEqual(['grass']);
+    expect(grid['Immune']).toEqual([]);
+    expect(grid['½×']).not.toContain('fairy');
+  });
+});
+
+describe('abilityImmunities', () => {
+  it('notes immunities the type chart does not already grant', () => {
+    expect(abilityImmunities(['Levitate', 'Swift Swim'], ['ghost'])).toEqual([
+      { ability: 'Levitate', types: ['ground'] },
+    ]);
+    expect(abilityImmunities(['Levitate'], ['flying'])).toEqual([]);
+    const [wonderGuard] = abilityImmunities(['Wonder Guard'], ['bug', 'ghost']);
+    expect(wonderGuard.types).not.toContain('fire');
+    expect(wonderGuard.types).toContain('water');
+  });
+
+  it('grants Lightning Rod and Sap Sipper immunities from Generation V only', () => {
+    expect(abilityImmunities(['Lightning Rod', 'Sap Sipper'], ['normal'], TYPE_CHARTS['gen2-5'], 4)).toEqual([]);
+    expect(abilityImmunities(['Lightning Rod', 'Sap Sipper'], ['normal'], TYPE_CHARTS['gen2-5'], 5)).toEqual([
+      { ability: 'Lightning Rod', types: ['electric'] },
+      { ability: 'Sap Sipper', types: ['grass'] },
+    ]);
+  });
+});
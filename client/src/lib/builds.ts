@@ -0,0 +1,124 @@
+/**
+ * @file Pokémon builds: a species plus the level, nature, ability, item,
+ * IVs/EVs and moves chosen for it. Converts builds and Pokédex detail rows
+ * into the inputs of the damage and stat engines.
+ */
+import type { LearnsetMove, PokedexDetail, TrainerMove, TrainerPokemon } from '@/types/database';
+import type { CalcMove, CalcPokemon } from './damage';
+import { calcStat, toNature, uniformSpread, type BoostableStat, type StatSpread } from './stats';
+
+export interface PokemonBuild {
+  formeId: string;
+  level: number;
+  nature: string;
+  ability?: string;
+  item?: string;
+  ivs: StatSpread;
+  evs: StatSpread;
+  /** Selected moves by name; trainer rows carry names but no move ids. */
+  moves: string[];
+}
+
+/** Battle state layered on a build in the damage calculator. */
+export interface BattleState {
+  boosts: Partial<Record<BoostableStat, number>>;
+  burned: boolean;
+  /** Current HP as a percentage of the maximum. */
+  hpPercent: number;
+}
+
+export function defaultBuild(formeId = ''): PokemonBuild {
+  return {
+    formeId,
+    level: 50,
+    nature: 'Hardy',
+    ivs: uniformSpread(31),
+    evs: uniformSpread(0),
+    moves: [],
+  };
+}
+
+/**
+ * IVs assumed for trainer Pokémon when the game's trainer IV rule is not
+ * known. The views do not record them and the hacks give bosses strong
+ * spreads, so calcs plan for the worst case.
+ */
+export const TRAINER_IV = 31;
+
+/**
+ * Build of a trainer's Pokémon from its recorded level, nature, ability, and
+ * item, with `iv` in every stat (see `trainerIv`).
+ */
+export function trainerBuild(member: TrainerPokemon, iv = TRAINER_IV): PokemonBuild {
+  return {
+    formeId: member.forme_id,
+    level: member.level,
+    nature: toNature(member.nature) ?? 'Hardy',
+    ability: member.ability,
+    item: member.item,
+    ivs: uniformSpread(iv),
+    evs: uniformSpread(0),
+    moves: member.moves.map((m) => m.name),
+  };
+}
+
+/** Engine input for a learnset or trainer move. */
+export function toCalcMove(move: LearnsetMove | TrainerMove): CalcMove {
+  return { name: move.name, type: move.type_id, category: move.category, power: move.power };
+}
+
+export const defaultBattleState: BattleState = { boosts: {}, burned: false, hpPercent: 100 };
+
+/** Base stats of a Pokédex detail row as a stat spread. */
+export function baseStatsOf(detail: Pick<PokedexDetail, 'hp' | 'atk' | 'def' | 'spa' | 'spd' | 'spe'>): StatSpread {
+  return {
+    hp: detail.hp,
+    atk: detail.atk,
+    def: detail.def,
+    spa: detail.spa,
+    spd: detail.spd,
+    spe: detail.spe,
+  };
+}
+
+/** Ability names a species can have, in slot order without blanks. */
+export function abilitiesOf(detail: PokedexDetail): string[] {
+  return [detail.ability1_name, detail.ability2_name, detail.hidden_ability_name].filter(
+    (a, i, all): a is string => Boolean(a) && all.indexOf(a) === i,
+  );
+}
+
+/** Every move in a learnset once, sorted by name. */
+export function learnsetMoves(detail: PokedexDetail): LearnsetMove[] {
+  const byId = new Map<string, LearnsetMove>();
+  Object.values(detail.learnset).forEach((moves) =>
+    moves.forEach((m) => {
+      if (!byId.has(m.move_id)) byId.set(m.move_id, m);
+    }),
+  );
+  return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Combine a species, a build, and optional battle state for the damage engine. */
+export function toCalcPokemon(
+  detail: PokedexDetail,
+  build: PokemonBuild,
+  state: BattleState = defaultBattleState,
+): CalcPokemon {
+  const baseStats = baseStatsOf(detail);
+  const maxHp = calcStat('hp', baseStats.hp, build.ivs.hp, build.evs.hp, build.level);
+  return {
+    name: detail.display_name,
+    types: [detail.type1_id, detail.type2_id],
+    baseStats,
+    level: build.level,
+    nature: build.nature,
+    ivs: build.ivs,
+    evs: build.evs,
+    ability: build.ability,
+    item: build.item,
+    boosts: state.boosts,
+    burned: state.burned,
+    currentHp: state.hpPercent < 100 ? Math.max(1, Math.floor((maxHp * state.hpPercent) / 100)) : undefined,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * @file Counter ranking for trainer teams.
+ * Scores every candidate Pokémon by how its typing and best ability take the
+ * team's damaging move types, then by how many team members its learnable
+ * attacks hit super-effectively. Candidates that are never hit
+ * super-effectively and resist the most types rank first.
+ */
+import type { PokemonAttackTypes, TrainerPokemon } from '@/types/database';
+import { defensiveCoverage, type TypeMultipliers } from './coverage';
+import type { Generation } from './games';
+import { toType, type PokemonType, type TypeChart } from './type-chart';
+
+export interface Counter {
+  pokemon: PokemonAttackTypes;
+  /** Ability the scores assume; the one that blocks the most. */
+  ability?: string;
+  /** Highest multiplier any of the team's move types reaches. */
+  worst: number;
+  /** Team move types it resists or is immune to. */
+  resisted: number;
+  /** Team move types that hit it super-effectively. */
+  weakTo: number;
+  /** Team members its learnable attacks hit super-effectively. */
+  hits: number;
+}
+
+/** Distinct types of the team's damaging moves. */
+export function teamAttackTypes(team: TrainerPokemon[]): PokemonType[] {
+  const types = team.flatMap((member) =>
+    member.moves.filter((m) => m.category !== 'STATUS').map((m) => toType(m.type_id)),
+  );
+  return Array.from(new Set(types.filter((t): t is PokemonType => Boolean(t))));
+}
+
+function score(
+  pokemon: PokemonAttackTypes,
+  ability: string | undefined,
+  attacks: PokemonType[],
+  chart: TypeChart,
+  generation: Generation,
+) {
+  const defense = defensiveCoverage({ ...pokemon, ability }, chart, generation);
+  const taken = attacks.map((t) => defense[t] ?? 1);
+  return {
+    ability,
+    worst: Math.max(0, ...taken),
+    resisted: taken.filter((m) => m < 1).length,
+    weakTo: taken.filter((m) => m > 1).length,
+  };
+}
+
+type Score = ReturnType<typeof score>;
+
+const compareScores = (a: Score, b: Score) => a.worst - b.worst || b.resisted - a.resisted || a.weakTo - b.weakTo;
+
+/** Candidates ranked as counters to `team`, best first. */
+export function rankCounters(
+  candidates: PokemonAttackTypes[],
+  team: TrainerPokemon[],
+  chart: TypeChart,
+  generation: Generation,
+): Counter[] {
+  const attacks = teamAttackTypes(team);
+  const enemies: TypeMultipliers[] = team.map((member) => defensiveCoverage(member, chart, generation));
+
+  return candidates
+    .map((pokemon) => {
+      const options = (pokemon.abilities.length ? pokemon.abilities : [undefined]).map((a) =>
+        score(pokemon, a, attacks, chart, generation),
+      );
+      const best = options.sort(compareScores)[0];
+      // Only name the ability when the others would score worse.
+      const ability = options.some((o) => compareScores(o, best) !== 0) ? best.ability : undefined;
+      const attackTypes = pokemon.attack_types.map(toType).filter((t): t is PokemonType => Boolean(t));
+      const hits = enemies.filter((enemy) => attackTypes.some((t) => (enemy[t] ?? 1) >= 2)).length;
+      return { pokemon, ...best, ability, hits };
+    })
+    .sort(
+      (a, b) => compareScores(a, b) || b.hits - a.hits || a.pokemon.display_name.localeCompare(b.pokemon.display_name),
+    );
+}
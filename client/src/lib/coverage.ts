@@ -0,0 +1,101 @@
+/**
+ * @file Type coverage of teams, both trainer teams and the user's own.
+ * The offensive side looks at each member's damaging moves against every
+ * single type; the defensive side at how every attacking type hits each
+ * member, counting the immunity its ability grants in the game's generation.
+ * Both follow the game's type chart.
+ */
+import type { TrainerMove, TrainerPokemon } from '@/types/database';
+import type { Generation } from './games';
+import { abilityImmunities, matchup, toType, typeEffectiveness, type PokemonType, type TypeChart } from './type-chart';
+
+export type TypeMultipliers = Partial<Record<PokemonType, number>>;
+
+/** What the offensive side needs of a member; learnset moves fit too. */
+export interface Attacker {
+  moves: Pick<TrainerMove, 'type_id' | 'category'>[];
+}
+
+/** What the defensive side needs of a member. */
+export type Defender = Pick<TrainerPokemon, 'type1_id' | 'type2_id' | 'ability'>;
+
+/**
+ * Best multiplier a member's damaging moves reach against each single type.
+ * Empty for members without damaging moves.
+ */
+export function offensiveCoverage(member: Attacker, chart: TypeChart): TypeMultipliers {
+  const moveTypes = member.moves
+    .filter((m) => m.category !== 'STATUS')
+    .map((m) => toType(m.type_id))
+    .filter((t): t is PokemonType => Boolean(t));
+  if (!moveTypes.length) return {};
+  return Object.fromEntries(
+    chart.types.map((defend) => [defend, Math.max(...moveTypes.map((attack) => matchup(attack, defend, chart)))]),
+  );
+}
+
+/** Multiplier of every attacking type against a member, after its ability. */
+export function defensiveCoverage(member: Defender, chart: TypeChart, generation: Generation): TypeMultipliers {
+  const types = [member.type1_id, member.type2_id];
+  const blocked = abilityImmunities([member.ability], types, chart, generation).flatMap((i) => i.types);
+  return Object.fromEntries(
+    chart.types.map((attack) => [attack, blocked.includes(attack) ? 0 : typeEffectiveness(attack, types, chart)]),
+  );
+}
+
+export interface CoverageSummary {
+  /** Types that resist or are immune to every damaging move on the team. */
+  walls: PokemonType[];
+  /** Types that more than half of the team hits super-effectively. */
+  threatened: PokemonType[];
+}
+
+export function coverageSummary(team: Attacker[], chart: TypeChart): CoverageSummary {
+  const offense = team.map((member) => offensiveCoverage(member, chart));
+  const attackers = offense.filter((o) => Object.keys(o).length > 0);
+  return {
+    walls: attackers.length ? chart.types.filter((t) => attackers.every((o) => (o[t] ?? 1) < 1)) : [],
+    threatened: chart.types.filter((t) => offense.filter((o) => (o[t] ?? 0) >= 2).length > team.length / 2),
+  };
+}
+
+/** Best multiplier any member reaches against each type; empty without damaging moves. */
+export function teamOffense(team: Attacker[], chart: TypeChart): TypeMultipliers {
+  const best: TypeMultipliers = {};
+  for (const coverage of team.map((member) => offensiveCoverage(member, chart))) {
+    for (const [type, mult] of Object.entries(coverage) as [PokemonType, number][]) {
+      best[type] = Math.max(best[type] ?? 0, mult);
+    }
+  }
+  return best;
+}
+
+/** An attacking type with how many members it hits super-effectively and how many resist it. */
+export interface SharedWeakness {
+  type: PokemonType;
+  weak: number;
+  resist: number;
+}
+
+/**
+ * Attacking types that hit at least two members super-effectively and more
+ * members than resist them, most dangerous first.
+ */
+export function sharedWeaknesses(team: Defender[], chart: TypeChart, generation: Generation): SharedWeakness[] {
+  const defense = team.map((member) => defensiveCoverage(member, chart, generation));
+  return chart.types
+    .map((type) => ({
+      type,
+      weak: defense.filter((d) => (d[type] ?? 1) > 1).length,
+      resist: defense.filter((d) => (d[type] ?? 1) < 1).length,
+    }))
+    .filter((w) => w.weak >= 2 && w.weak > w.resist)
+    .sort((a, b) => b.weak - b.resist - (a.weak - a.resist));
+}
+
+const fractions: Record<number, string> = { 0.5: '½', 0.25: '¼' };
+
+/** Multiplier label such as `4×`, `½×`, or `0×`. */
+export function formatMultiplier(multiplier: number): string {
+  return `${fractions[multiplier] ?? multiplier}×`;
+}
@@ -0,0 +1,425 @@
+/**
+ * @file Damage calculation engine for Generation III–V games.
+ * Follows each generation's integer formula and modifier order so the 16
+ * random rolls match the cartridge. Covers stat stages, natures, IVs/EVs,
+ * weather, critical hits, burns, STAB, and the abilities and items that
+ * commonly decide boss fights. Variable-power and fixed-damage moves
+ * (Seismic Toss, Low Kick, …) are out of scope and deal no damage here.
+ */
+import type { MoveCategory } from '@/types/database';
+import type { Generation } from './games';
+import { applyStage, calcStats, type BoostableStat, type StatSpread } from './stats';
+import { abilityImmunity, toType, typeEffectiveness, type PokemonType, type TypeChart } from './type-chart';
+
+export type Weather = 'none' | 'sun' | 'rain' | 'sand' | 'hail';
+
+export const WEATHERS: { value: Weather; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'sun', label: 'Sun' },
+  { value: 'rain', label: 'Rain' },
+  { value: 'sand', label: 'Sandstorm' },
+  { value: 'hail', label: 'Hail' },
+];
+
+/** A battler as the engine sees it. */
+export interface CalcPokemon {
+  name: string;
+  types: (string | null | undefined)[];
+  baseStats: StatSpread;
+  level: number;
+  nature?: string;
+  ivs: StatSpread;
+  evs: StatSpread;
+  ability?: string;
+  item?: string;
+  /** Stat stages from −6 to +6. */
+  boosts?: Partial<Record<BoostableStat, number>>;
+  burned?: boolean;
+  /** Current HP; full HP when omitted. */
+  currentHp?: number;
+}
+
+export interface CalcMove {
+  name: string;
+  type: string;
+  category: MoveCategory;
+  power?: number | null;
+}
+
+export interface CalcOptions {
+  generation: Generation;
+  /** Decide physical vs. special from the move's type (pre-split rule). */
+  typeBasedCategory: boolean;
+  /** The game's type chart; the Generation VI chart when omitted. */
+  typeChart?: TypeChart;
+  weather?: Weather;
+  critical?: boolean;
+}
+
+/** Chance that `hits` consecutive uses KO from the defender's current HP. */
+export interface KoChance {
+  hits: number;
+  chance: number;
+}
+
+export interface DamageResult {
+  /** The 16 possible damage values, lowest first. */
+  rolls: number[];
+  min: number;
+  max: number;
+  /** Percent of the defender's maximum HP. */
+  minPercent: number;
+  maxPercent: number;
+  defenderHp: number;
+  defenderMaxHp: number;
+  effectiveness: number;
+  /** Category actually used, after the type-based rule. */
+  category: MoveCategory;
+  /** KO chance for one to four hits. */
+  koChances: KoChance[];
+}
+
+/** Types that were physical before the Generation IV split. */
+const physicalTypes = new Set<PokemonType>([
+  'normal',
+  'fighting',
+  'flying',
+  'poison',
+  'ground',
+  'rock',
+  'bug',
+  'ghost',
+  'steel',
+]);
+
+/** Items that boost one type's moves, keyed by normalized name. */
+const typeBoostItems: Record<string, PokemonType> = {
+  silkscarf: 'normal',
+  charcoal: 'fire',
+  mysticwater: 'water',
+  magnet: 'electric',
+  miracleseed: 'grass',
+  nevermeltice: 'ice',
+  blackbelt: 'fighting',
+  poisonbarb: 'poison',
+  softsand: 'ground',
+  sharpbeak: 'flying',
+  twistedspoon: 'psychic',
+  silverpowder: 'bug',
+  hardstone: 'rock',
+  spelltag: 'ghost',
+  dragonfang: 'dragon',
+  blackglasses: 'dark',
+  metalcoat: 'steel',
+  flameplate: 'fire',
+  splashplate: 'water',
+  zapplate: 'electric',
+  meadowplate: 'grass',
+  icicleplate: 'ice',
+  fistplate: 'fighting',
+  toxicplate: 'poison',
+  earthplate: 'ground',
+  skyplate: 'flying',
+  mindplate: 'psychic',
+  insectplate: 'bug',
+  stoneplate: 'rock',
+  spookyplate: 'ghost',
+  dracoplate: 'dragon',
+  dreadplate: 'dark',
+  ironplate: 'steel',
+  pixieplate: 'fairy',
+};
+
+/** Items with a damage effect, for pickers. */
+export const CALC_ITEMS = [
+  'Choice Band',
+  'Choice Specs',
+  'Life Orb',
+  'Expert Belt',
+  'Eviolite',
+  'Silk Scarf',
+  'Charcoal',
+  'Mystic Water',
+  'Magnet',
+  'Miracle Seed',
+  'Never-Melt Ice',
+  'Black Belt',
+  'Poison Barb',
+  'Soft Sand',
+  'Sharp Beak',
+  'Twisted Spoon',
+  'Silver Powder',
+  'Hard Stone',
+  'Spell Tag',
+  'Dragon Fang',
+  'Black Glasses',
+  'Metal Coat',
+];
+
+/** Abilities with a damage effect, for pickers. */
+export const CALC_ABILITIES = [
+  'Adaptability',
+  'Dry Skin',
+  'Filter',
+  'Flash Fire',
+  'Guts',
+  'Huge Power',
+  'Hustle',
+  'Levitate',
+  'Lightning Rod',
+  'Motor Drive',
+  'Multiscale',
+  'Pure Power',
+  'Sap Sipper',
+  'Sniper',
+  'Solid Rock',
+  'Storm Drain',
+  'Technician',
+  'Thick Fat',
+  'Tinted Lens',
+  'Volt Absorb',
+  'Water Absorb',
+  'Wonder Guard',
+];
+
+/** Normalize an ability or item name: `Never-Melt Ice` → `nevermeltice`. */
+function key(name: string | undefined): string {
+  return name?.toLowerCase().replace(/[^a-z]/g, '') ?? '';
+}
+
+/** Round half down, as Generation V does for 4096-based modifiers. */
+function pokeRound(value: number): number {
+  return value % 1 > 0.5 ? Math.ceil(value) : Math.floor(value);
+}
+
+/** Apply chained 4096-based modifiers (Generation V). */
+function applyModifiers(value: number, modifiers: number[]): number {
+  const chained = modifiers.reduce((acc, m) => (acc * m + 0x800) >> 12, 0x1000);
+  return pokeRound((value * chained) / 0x1000);
+}
+
+/** Category a move uses in battle, applying the pre-split rule when asked. */
+export function effectiveCategory(move: CalcMove, typeBasedCategory: boolean): MoveCategory {
+  if (move.category === 'STATUS' || !typeBasedCategory) return move.category;
+  const type = toType(move.type);
+  return type && physicalTypes.has(type) ? 'PHYSICAL' : 'SPECIAL';
+}
+
+/** Probability of a KO within one to `maxHits` hits, from each roll being equally likely. */
+export function koChances(rolls: number[], hp: number, maxHits = 4): KoChance[] {
+  const out: KoChance[] = [];
+  if (!rolls.length || hp <= 0) return out;
+
+  // Damage totals capped at `hp`, so the `hp` bucket holds every KO.
+  let totals = new Map<number, number>([[0, 1]]);
+  for (let hits = 1; hits <= maxHits; hits++) {
+    const next = new Map<number, number>();
+    totals.forEach((p, sum) => {
+      for (const roll of rolls) {
+        const total = Math.min(hp, sum + roll);
+        next.set(total, (next.get(total) ?? 0) + p / rolls.length);
+      }
+    });
+    totals = next;
+    out.push({ hits, chance: totals.get(hp) ?? 0 });
+  }
+  return out;
+}
+
+/** Short verdict such as `Guaranteed OHKO` or `43.8% chance to 2HKO`. */
+export function describeKo(result: Pick<DamageResult, 'max' | 'koChances'>): string {
+  if (result.max === 0) return 'No damage';
+  const first = result.koChances.find((c) => c.chance > 0);
+  if (!first) return `Not a KO in ${result.koChances.length} hits`;
+  const label = first.hits === 1 ? 'OHKO' : `${first.hits}HKO`;
+  if (first.chance >= 1) return `Guaranteed ${label}`;
+  return `${(first.chance * 100).toFixed(1)}% chance to ${label}`;
+}
+
+/**
+ * Calculate every damage roll of `move` from `attacker` against `defender`
+ * using the formula of `options.generation`.
+ */
+export function calculateDamage(
+  attacker: CalcPokemon,
+  defender: CalcPokemon,
+  move: CalcMove,
+  options: CalcOptions,
+): DamageResult {
+  const { generation, typeChart, weather = 'none', critical = false } = options;
+  const category = effectiveCategory(move, options.typeBasedCategory);
+  const atkStats = calcStats(attacker.baseStats, attacker.level, attacker.ivs, attacker.evs, attacker.nature);
+  const defStats = calcStats(defender.baseStats, defender.level, defender.ivs, defender.evs, defender.nature);
+  const maxHp = defStats.hp;
+  const hp = Math.max(1, Math.min(maxHp, defender.currentHp ?? maxHp));
+
+  const moveType = toType(move.type) ?? 'normal';
+  const attackerAbility = key(attacker.ability);
+  const defenderAbility = key(defender.ability);
+  const item = key(attacker.item);
+  const defenderItem = key(defender.item);
+
+  let effectiveness = typeEffectiveness(moveType, defender.types, typeChart);
+  if (abilityImmunity(defender.ability, generation) === moveType) effectiveness = 0;
+  if (defenderAbility === 'wonderguard' && effectiveness <= 1) effectiveness = 0;
+
+  const result = (rolls: number[]): DamageResult => ({
+    rolls,
+    min: rolls[0] ?? 0,
+    max: rolls[rolls.length - 1] ?? 0,
+    minPercent: ((rolls[0] ?? 0) / maxHp) * 100,
+    maxPercent: ((rolls[rolls.length - 1] ?? 0) / maxHp) * 100,
+    defenderHp: hp,
+    defenderMaxHp: maxHp,
+    effectiveness,
+    category,
+    koChances: rolls.some((r) => r > 0) ? koChances(rolls, hp) : [],
+  });
+
+  const power = move.power ?? 0;
+  if (category === 'STATUS' || power <= 0 || effectiveness === 0) {
+    return result(Array(16).fill(0));
+  }
+
+  const physical = category === 'PHYSICAL';
+  const atkKey: BoostableStat = physical ? 'atk' : 'spa';
+  const defKey: BoostableStat = physical ? 'def' : 'spd';
+  let atkStage = attacker.boosts?.[atkKey] ?? 0;
+  let defStage = defender.boosts?.[defKey] ?? 0;
+  // Critical hits ignore the attacker's drops and the defender's boosts.
+  if (critical) {
+    atkStage = Math.max(0, atkStage);
+    defStage = Math.min(0, defStage);
+  }
+
+  const stab = attacker.types.some((t) => toType(t) === moveType);
+  const typeBoosted = typeBoostItems[item] === moveType;
+  const burnHalves = physical && attacker.burned && attackerAbility !== 'guts';
+  const gutsBoost = physical && attacker.burned && attackerAbility === 'guts';
+  const doublesAttack = physical && (attackerAbility === 'hugepower' || attackerAbility === 'purepower');
+  const choiceBoost = (physical && item === 'choiceband') || (!physical && item === 'choicespecs');
+  const thickFat = defenderAbility === 'thickfat' && (moveType === 'fire' || moveType === 'ice');
+  const superEffective = effectiveness > 1;
+  const notVeryEffective = effectiveness < 1;
+  const sandBoost = generation >= 4 && weather === 'sand' && !physical && defender.types.some((t) => toType(t) === 'rock');
+  const weatherBoost =
+    (weather === 'sun' && moveType === 'fire') || (weather === 'rain' && moveType === 'water');
+  const weatherDrop =
+    (weather === 'sun' && moveType === 'water') || (weather === 'rain' && moveType === 'fire');
+  const critMultiplier = critical ? (generation >= 4 && attackerAbility === 'sniper' ? 3 : 2) : 1;
+  const levelFactor = Math.floor((2 * attacker.level) / 5) + 2;
+
+  const rolls: number[] = [];
+
+  if (generation === 3) {
+    let a = atkStats[atkKey];
+    if (doublesAttack) a *= 2;
+    if (typeBoosted) a = Math.floor((a * 110) / 100);
+    if (physical && item === 'choiceband') a = Math.floor((a * 150) / 100);
+    if (physical && attackerAbility === 'hustle') a = Math.floor((a * 150) / 100);
+    if (gutsBoost) a = Math.floor((a * 150) / 100);
+    if (thickFat) a = Math.floor(a / 2);
+    a = applyStage(a, atkStage);
+    const d = applyStage(defStats[defKey], defStage);
+
+    let base = Math.floor(Math.floor((a * power * levelFactor) / d) / 50);
+    if (burnHalves) base = Math.floor(base / 2);
+    if (weatherBoost) base = Math.floor((base * 15) / 10);
+    if (weatherDrop) base = Math.floor(base / 2);
+    base += 2;
+
+    for (let r = 85; r <= 100; r++) {
+      let dmg = base * critMultiplier;
+      if (stab) dmg = Math.floor((dmg * 15) / 10);
+      for (const t of defender.types) {
+        if (t) dmg = Math.floor(dmg * typeEffectiveness(moveType, [t], typeChart));
+      }
+      dmg = Math.floor((dmg * r) / 100);
+      rolls.push(Math.max(1, dmg));
+    }
+    return result(rolls);
+  }
+
+  if (generation === 4) {
+    let p = power;
+    if (typeBoosted) p = Math.floor(p * 1.2);
+    if (attackerAbility === 'technician' && p <= 60) p = Math.floor(p * 1.5);
+    if (defenderAbility === 'dryskin' && moveType === 'fire') p = Math.floor(p * 1.25);
+
+    let a = applyStage(atkStats[atkKey], atkStage);
+    if (doublesAttack) a *= 2;
+    if (choiceBoost) a = Math.floor(a * 1.5);
+    if (physical && attackerAbility === 'hustle') a = Math.floor(a * 1.5);
+    if (gutsBoost) a = Math.floor(a * 1.5);
+    if (thickFat) a = Math.floor(a / 2);
+    let d = applyStage(defStats[defKey], defStage);
+    if (sandBoost) d = Math.floor(d * 1.5);
+
+    let base = Math.floor(Math.floor((levelFactor * p * a) / 50) / d);
+    if (burnHalves) base = Math.floor(base / 2);
+    if (weatherBoost) base = Math.floor(base * 1.5);
+    if (weatherDrop) base = Math.floor(base / 2);
+    base += 2;
+    base = Math.floor(base * critMultiplier);
+    if (item === 'lifeorb') base = Math.floor((base * 13) / 10);
+
+    for (let r = 85; r <= 100; r++) {
+      let dmg = Math.floor((base * r) / 100);
+      if (stab) dmg = Math.floor(dmg * (attackerAbility === 'adaptability' ? 2 : 1.5));
+      for (const t of defender.types) {
+        if (t) dmg = Math.floor(dmg * typeEffectiveness(moveType, [t], typeChart));
+      }
+      if (superEffective && (defenderAbility === 'solidrock' || defenderAbility === 'filter')) {
+        dmg = Math.floor(dmg * 0.75);
+      }
+      if (superEffective && item === 'expertbelt') dmg = Math.floor(dmg * 1.2);
+      if (notVeryEffective && attackerAbility === 'tintedlens') dmg = Math.floor(dmg * 2);
+      rolls.push(Math.max(1, dmg));
+    }
+    return result(rolls);
+  }
+
+  // Generation V: 4096-based modifiers with round-half-down.
+  const powerMods: number[] = [];
+  if (attackerAbility === 'technician' && power <= 60) powerMods.push(6144);
+  if (typeBoosted) powerMods.push(4915);
+  if (defenderAbility === 'dryskin' && moveType === 'fire') powerMods.push(5120);
+  const p = Math.max(1, applyModifiers(power, powerMods));
+
+  const atkMods: number[] = [];
+  if (doublesAttack) atkMods.push(8192);
+  if (choiceBoost) atkMods.push(6144);
+  if (gutsBoost) atkMods.push(6144);
+  if (thickFat) atkMods.push(2048);
+  let a = applyModifiers(applyStage(atkStats[atkKey], atkStage), atkMods);
+  if (physical && attackerAbility === 'hustle') a = Math.floor(a * 1.5);
+
+  const defMods: number[] = [];
+  if (sandBoost) defMods.push(6144);
+  if (defenderItem === 'eviolite') defMods.push(6144);
+  const d = applyModifiers(applyStage(defStats[defKey], defStage), defMods);
+
+  let base = Math.floor(Math.floor((levelFactor * p * a) / d) / 50) + 2;
+  if (weatherBoost) base = applyModifiers(base, [6144]);
+  if (weatherDrop) base = applyModifiers(base, [2048]);
+  base = Math.floor(base * critMultiplier);
+
+  const finalMods: number[] = [];
+  if (defenderAbility === 'multiscale' && hp === maxHp) finalMods.push(2048);
+  if (superEffective && (defenderAbility === 'solidrock' || defenderAbility === 'filter')) {
+    finalMods.push(3072);
+  }
+  if (superEffective && item === 'expertbelt') finalMods.push(4915);
+  if (notVeryEffective && attackerAbility === 'tintedlens') finalMods.push(8192);
+  if (item === 'lifeorb') finalMods.push(5324);
+
+  for (let r = 85; r <= 100; r++) {
+    let dmg = Math.floor((base * r) / 100);
+    if (stab) dmg = applyModifiers(dmg, [attackerAbility === 'adaptability' ? 8192 : 6144]);
+    dmg = Math.floor(dmg * effectiveness);
+    if (burnHalves) dmg = Math.floor(dmg / 2);
+    dmg = applyModifiers(dmg, finalMods);
+    rolls.push(Math.max(1, dmg));
+  }
+  return result(rolls);
+}
@@ -0,0 +1,100 @@
+/**
+ * @file Evolution chains built from the game's evolution steps. Resolves the
+ * full family tree of a forme, the family a forme belongs to (used by the
+ * Nuzlocke dupes clause), and readable descriptions of evolution methods.
+ */
+import type { Evolution } from '@/types/database';
+import type { FamilyOf } from './rules';
+
+export interface EvolutionNode {
+  formeId: string;
+  name: string;
+  spriteUrl?: string;
+  /** Step that evolves the previous stage into this one; absent at the root. */
+  evolution?: Evolution;
+  next: EvolutionNode[];
+}
+
+/** Forme each forme evolves from; the first step wins if several exist. */
+function parents(evolutions: Evolution[]): Map<string, Evolution> {
+  const map = new Map<string, Evolution>();
+  for (const e of evolutions) {
+    if (!map.has(e.to_forme_id)) map.set(e.to_forme_id, e);
+  }
+  return map;
+}
+
+function rootOf(formeId: string, parentOf: Map<string, Evolution>): string {
+  const seen = new Set<string>();
+  let current = formeId;
+  while (parentOf.has(current) && !seen.has(current)) {
+    seen.add(current);
+    current = parentOf.get(current)!.from_forme_id;
+  }
+  return current;
+}
+
+/** Maps every forme to the first stage of its family; formes without evolutions map to themselves. */
+export function evolutionFamilies(evolutions: Evolution[]): FamilyOf {
+  const parentOf = parents(evolutions);
+  const cache = new Map<string, string>();
+  return (formeId) => {
+    let root = cache.get(formeId);
+    if (root === undefined) {
+      root = rootOf(formeId, parentOf);
+      cache.set(formeId, root);
+    }
+    return root;
+  };
+}
+
+/** Family tree containing `formeId`, from its first stage, or null when it neither evolves nor is evolved. */
+export function evolutionChain(evolutions: Evolution[], formeId: string): EvolutionNode | null {
+  const parentOf = parents(evolutions);
+  const related = evolutions.some((e) => e.from_forme_id === formeId || e.to_forme_id === formeId);
+  if (!related) return null;
+
+  const rootId = rootOf(formeId, parentOf);
+  const rootStep = evolutions.find((e) => e.from_forme_id === rootId);
+  const visited = new Set<string>();
+
+  const build = (id: string, name: string, spriteUrl?: string, evolution?: Evolution): EvolutionNode => {
+    visited.add(id);
+    const next = evolutions
+      .filter((e) => e.from_forme_id === id && !visited.has(e.to_forme_id))
+      .map((e) => build(e.to_forme_id, e.to_name, e.to_sprite_url, e));
+    return { formeId: id, name, spriteUrl, evolution, next };
+  };
+  return build(rootId, rootStep?.from_name ?? rootId, rootStep?.from_sprite_url);
+}
+
+/** Whether `formeId` can evolve further. */
+export function canEvolve(evolutions: Evolution[], formeId: string): boolean {
+  return evolutions.some((e) => e.from_forme_id === formeId);
+}
+
+const titleCase = (value: string): string =>
+  value
+    .toLowerCase()
+    .split(/[\s_-]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+/** Short description of how an evolution is triggered, e.g. `Level 36` or `Use Moon Stone`. */
+export function describeEvolution(evolution: Evolution): string {
+  const method = evolution.method.toLowerCase().replace(/[\s_]+/g, '-');
+  const { level, item, condition } = evolution;
+  let text: string;
+  if (method === 'level-up' || method === 'level') {
+    text = level ? `Level ${level}` : 'Level up';
+  } else if (method === 'item' || method === 'use-item') {
+    text = item ? `Use ${item}` : 'Use item';
+  } else if (method === 'trade') {
+    text = item ? `Trade holding ${item}` : 'Trade';
+  } else if (method === 'friendship' || method === 'happiness') {
+    text = 'High friendship';
+  } else {
+    text = [titleCase(evolution.method), level && `Lv. ${level}`, item].filter(Boolean).join(' ');
+  }
+  return condition ? `${text} (${condition})` : text;
+}
@@ -0,0 +1,49 @@
+/**
+ * @file Where a Pokémon can be found: merges a forme's encounter slots into
+ * one entry per route, method, time of day, subarea, and weather.
+ */
+import type { RouteEncounter } from '@/types/database';
+
+export interface LocationSummary {
+  routeId: string;
+  routeName: string;
+  sortIndex: number;
+  method: string;
+  timeOfDay?: string;
+  subarea?: string;
+  weather?: string;
+  minLevel: number;
+  maxLevel: number;
+  /** Combined rate of the forme's slots in this table. */
+  rate: number;
+}
+
+/** One entry per encounter table the forme appears in, in route order. */
+export function summarizeLocations(encounters: RouteEncounter[]): LocationSummary[] {
+  const byTable = new Map<string, LocationSummary>();
+  for (const e of encounters) {
+    const key = [e.route_id, e.method, e.time_of_day, e.subarea, e.weather].join('|');
+    const known = byTable.get(key);
+    if (known) {
+      known.minLevel = Math.min(known.minLevel, e.min_level);
+      known.maxLevel = Math.max(known.maxLevel, e.max_level);
+      known.rate += e.rate;
+      continue;
+    }
+    byTable.set(key, {
+      routeId: e.route_id,
+      routeName: e.route_name,
+      sortIndex: e.sort_index,
+      method: e.method,
+      timeOfDay: e.time_of_day,
+      subarea: e.subarea,
+      weather: e.weather,
+      minLevel: e.min_level,
+      maxLevel: e.max_level,
+      rate: e.rate,
+    });
+  }
+  return Array.from(byTable.values()).sort(
+    (a, b) => a.sortIndex - b.sortIndex || a.method.localeCompare(b.method),
+  );
+}
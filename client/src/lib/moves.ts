@@ -0,0 +1,96 @@
+/**
+ * @file Move list filtering and learner grouping for the Moves pages, plus
+ * the learn method order shared with Pokémon learnsets.
+ */
+import { learnerGroup, type LearnerGroup } from '@shared/learnset';
+import type { Move, MoveCategory, MoveLearner } from '@/types/database';
+
+export type { LearnerGroup };
+
+/** Learn methods in display order; unknown methods sort after these by name. */
+export const LEARN_METHOD_ORDER = ['LEVEL', 'TM', 'HM', 'TUTOR', 'EGG', 'OTHER'];
+
+/** Sort comparator for learn method keys such as `LEVEL` or `TM`. */
+export function compareLearnMethods(a: string, b: string): number {
+  const aIndex = LEARN_METHOD_ORDER.indexOf(a);
+  const bIndex = LEARN_METHOD_ORDER.indexOf(b);
+  if (aIndex === -1 && bIndex === -1) return a.localeCompare(b);
+  if (aIndex === -1) return 1;
+  if (bIndex === -1) return -1;
+  return aIndex - bIndex;
+}
+
+/** Filters of the Moves page; unset bounds do not filter. */
+export interface MoveFilters {
+  search?: string;
+  type?: string;
+  category?: MoveCategory;
+  minPower?: number;
+  maxPower?: number;
+  minAccuracy?: number;
+  maxAccuracy?: number;
+  priority?: number;
+}
+
+const within = (value: number | undefined, min?: number, max?: number): boolean => {
+  if (min === undefined && max === undefined) return true;
+  if (value === undefined) return false;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+};
+
+/**
+ * Moves matching every filter. Moves without power (status moves) or without
+ * accuracy (moves that never miss) drop out once a bound on that stat is set.
+ */
+export function filterMoves(moves: Move[], filters: MoveFilters): Move[] {
+  const search = filters.search?.trim().toLowerCase();
+  return moves.filter(
+    (m) =>
+      (!search || m.name.toLowerCase().includes(search)) &&
+      (!filters.type || m.type_id.toLowerCase() === filters.type.toLowerCase()) &&
+      (!filters.category || m.category === filters.category) &&
+      within(m.power, filters.minPower, filters.maxPower) &&
+      within(m.accuracy, filters.minAccuracy, filters.maxAccuracy) &&
+      (filters.priority === undefined || (m.priority ?? 0) === filters.priority),
+  );
+}
+
+export const LEARNER_GROUP_LABELS: Record<LearnerGroup, string> = {
+  LEVEL: 'Level up',
+  MACHINE: 'TM/HM',
+  TUTOR: 'Tutor',
+  EGG: 'Egg',
+  OTHER: 'Other',
+};
+
+/**
+ * Learners of a move grouped by method, in display order. Level-up learners
+ * sort by level, TM and HM learners by machine number, then by name. A forme
+ * is listed once per group and level, so a move learned at two levels keeps
+ * both rows while a move on both a TM and an HM is listed once.
+ */
+export function groupLearners(learners: MoveLearner[]): [LearnerGroup, MoveLearner[]][] {
+  const groups = new Map<LearnerGroup, MoveLearner[]>();
+  for (const entry of learners) {
+    const group = learnerGroup(entry.method);
+    const rows = groups.get(group) ?? [];
+    const same = rows.find((r) => r.forme_id === entry.forme_id && r.level === entry.level);
+    if (!same) rows.push(entry);
+    groups.set(group, rows);
+  }
+
+  const order = Object.keys(LEARNER_GROUP_LABELS) as LearnerGroup[];
+  return order
+    .filter((group) => groups.has(group))
+    .map((group) => [
+      group,
+      groups
+        .get(group)!
+        .sort(
+          (a, b) =>
+            (group === 'LEVEL' ? (a.level ?? 0) - (b.level ?? 0) : 0) ||
+            (group === 'MACHINE' ? (a.tm_no ?? 0) - (b.tm_no ?? 0) : 0) ||
+            a.display_name.localeCompare(b.display_name),
+        ),
+    ]);
+}
@@ -3,7 +3,15 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    // API errors arrive as `{ message }`; contract violations name the
+    // offending view, column, and row there.
+    let message = text;
+    try {
+      message = JSON.parse(text).message ?? text;
+    } catch {
+      // Not JSON; keep the raw body.
+    }
+    throw new Error(`${res.status}: ${message}`);
   }
 }
 
@@ -23,13 +31,38 @@ export async function apiRequest(
   return res;
 }
 
+/**
+ * Build a request URL from a query key. The first segment is a literal path
+ * such as `/api`; every later segment is data and is encoded whole, so a `/`
+ * inside a split name or forme id stays part of that segment. Segments are
+ * joined with `/`; a trailing plain object is treated as query parameters,
+ * skipping empty values, so keys like `['/api', game, 'pokedex', { page: 2 }]`
+ * stay cacheable per filter combination.
+ */
+export function queryKeyToUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  const hasParams = typeof last === "object" && last !== null && !Array.isArray(last);
+  const [base, ...segments] = hasParams ? queryKey.slice(0, -1) : queryKey;
+  const path = [String(base), ...segments.map((segment) => encodeURIComponent(String(segment)))].join("/");
+  if (!hasParams) return path;
+
+  const params = new URLSearchParams();
+  Object.entries(last as Record<string, unknown>).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryKeyToUrl(queryKey), {
       credentials: "include",
     });
 
@@ -0,0 +1,208 @@
+/**
+ * @file Nuzlocke rules engine.
+ * Rule sets are plain data validated with zod when the module loads. Given a
+ * run, the engine works out which species an encounter table re-rolls under
+ * the dupes and species clauses, the odds of what is left, and warnings for
+ * logged encounters and events that break the run's rule set.
+ */
+import { z } from 'zod';
+import { toType } from './type-chart';
+import { encounterKey, RULE_SET_IDS, runEncounters, runPokemon, type Run, type RuleSetId } from './run';
+import type { RouteEncounter } from '@/types/database';
+
+const ruleSetSchema = z
+  .object({
+    id: z.enum(RULE_SET_IDS),
+    label: z.string().min(1),
+    description: z.string().min(1),
+    /** Re-roll species whose evolution family is already caught. */
+    dupesClause: z.boolean(),
+    /** Also re-roll species already encountered, whatever the outcome. */
+    speciesClause: z.boolean(),
+    /** Shinies may be caught on top of a route's encounter. */
+    shinyClause: z.boolean(),
+    /** Whether items may be used during battles. */
+    battleItems: z.boolean(),
+    /** The party is built from pairs (Wedlocke). */
+    pairedParty: z.boolean(),
+    /** Every Pokémon must share the type picked when the run starts. */
+    monotype: z.boolean(),
+  })
+  .strict()
+  .refine((r) => !r.speciesClause || r.dupesClause, {
+    message: 'the species clause extends the dupes clause and requires it',
+  });
+
+export type RuleSet = z.infer<typeof ruleSetSchema>;
+
+/** Validates rule set definitions and indexes them by id; every id must be defined exactly once. */
+export function defineRuleSets(definitions: unknown): Record<RuleSetId, RuleSet> {
+  const parsed = z.array(ruleSetSchema).parse(definitions);
+  const byId: Partial<Record<RuleSetId, RuleSet>> = {};
+  for (const ruleSet of parsed) {
+    if (byId[ruleSet.id]) throw new Error(`Rule set ${ruleSet.id} is defined more than once`);
+    byId[ruleSet.id] = ruleSet;
+  }
+  const missing = RULE_SET_IDS.filter((id) => !byId[id]);
+  if (missing.length) throw new Error(`Rule sets missing: ${missing.join(', ')}`);
+  return byId as Record<RuleSetId, RuleSet>;
+}
+
+const standard = {
+  dupesClause: true,
+  speciesClause: true,
+  shinyClause: true,
+  battleItems: true,
+  pairedParty: false,
+  monotype: false,
+};
+
+export const RULE_SETS = defineRuleSets([
+  {
+    id: 'standard',
+    label: 'Standard',
+    description: 'First encounter per route, with dupes, species, and shiny clauses.',
+    ...standard,
+  },
+  {
+    id: 'hardcore',
+    label: 'Hardcore',
+    description: 'No items in battle, dupes clause only, and shinies count as the route encounter.',
+    ...standard,
+    speciesClause: false,
+    shinyClause: false,
+    battleItems: false,
+  },
+  {
+    id: 'wedlocke',
+    label: 'Wedlocke',
+    description: 'Standard rules with the party built from pairs that battle together.',
+    ...standard,
+    pairedParty: true,
+  },
+  {
+    id: 'monotype',
+    label: 'Monotype',
+    description: 'Standard rules, but every Pokémon must share one type.',
+    ...standard,
+    monotype: true,
+  },
+]);
+
+/** Rule sets in menu order. */
+export const RULE_SET_LIST: RuleSet[] = RULE_SET_IDS.map((id) => RULE_SETS[id]);
+
+/** Rule set of a run; runs saved with an unknown id fall back to standard rules. */
+export function ruleSetOf(run: Run): RuleSet {
+  return RULE_SETS[run.ruleSet] ?? RULE_SETS.standard;
+}
+
+/** Maps a forme to its evolution family id. */
+export type FamilyOf = (formeId: string) => string;
+
+/** Fallback used when no evolution data is loaded: each forme is its own family. */
+export const ownFamily: FamilyOf = (formeId) => formeId;
+
+export type RerollReason = 'dupe' | 'species';
+
+/** Returns why a species would be re-rolled in the run, or undefined if it counts. */
+export function rerollChecker(
+  run: Run,
+  ruleSet: RuleSet,
+  familyOf: FamilyOf = ownFamily,
+): (formeId: string) => RerollReason | undefined {
+  const caughtFamilies = new Set<string>();
+  const seen = new Set<string>();
+  for (const e of Object.values(run.encounters)) {
+    if (!e.formeId) continue;
+    if (e.outcome === 'caught') caughtFamilies.add(familyOf(e.formeId));
+    seen.add(e.formeId);
+  }
+  return (formeId) => {
+    if (ruleSet.dupesClause && caughtFamilies.has(familyOf(formeId))) return 'dupe';
+    if (ruleSet.speciesClause && seen.has(formeId)) return 'species';
+    return undefined;
+  };
+}
+
+/** Slot tables are separate per method, sub-area, and time of day. */
+function tableKey(row: RouteEncounter): string {
+  return [row.method, row.subarea ?? '', row.time_of_day ?? ''].join('|');
+}
+
+/**
+ * Chance, in percent, of meeting each encounter row once re-rolled species
+ * are excluded: re-rolling until a valid species appears spreads their rate
+ * over the rest of the same table. Re-rolled rows, and tables where every
+ * species is re-rolled, get 0.
+ */
+export function effectiveOdds(
+  rows: RouteEncounter[],
+  reroll: (formeId: string) => RerollReason | undefined,
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const row of rows) {
+    if (!reroll(row.forme_id)) totals.set(tableKey(row), (totals.get(tableKey(row)) ?? 0) + row.rate);
+  }
+  const odds = new Map<string, number>();
+  for (const row of rows) {
+    const total = totals.get(tableKey(row)) ?? 0;
+    odds.set(row.id, reroll(row.forme_id) || total <= 0 ? 0 : (row.rate / total) * 100);
+  }
+  return odds;
+}
+
+export interface RuleWarning {
+  /** Key of the offending encounter, when there is one. */
+  key?: string;
+  message: string;
+}
+
+/** Checks a run's encounters, party, and events against its rule set. */
+export function ruleWarnings(run: Run, ruleSet: RuleSet, familyOf: FamilyOf = ownFamily): RuleWarning[] {
+  const warnings: RuleWarning[] = [];
+  const caughtFamilies = new Set<string>();
+  const seen = new Set<string>();
+
+  for (const e of runEncounters(run)) {
+    const key = encounterKey(e);
+    const name = e.species ?? 'Encounter';
+    const shinyExempt = ruleSet.shinyClause && e.shiny;
+    if (e.bonus && !shinyExempt) {
+      warnings.push({ key, message: `Extra catch on ${e.routeName} is only allowed for shinies under the shiny clause.` });
+    }
+    if (e.outcome === 'dupe-skipped' && !ruleSet.dupesClause) {
+      warnings.push({ key, message: `Dupe skipped on ${e.routeName}, but ${ruleSet.label} rules have no dupes clause.` });
+    }
+    if (e.formeId && e.outcome !== 'dupe-skipped' && !shinyExempt) {
+      if (ruleSet.dupesClause && caughtFamilies.has(familyOf(e.formeId))) {
+        warnings.push({ key, message: `${name} on ${e.routeName} is a dupe and should have been re-rolled.` });
+      } else if (ruleSet.speciesClause && seen.has(e.formeId)) {
+        warnings.push({ key, message: `${name} on ${e.routeName} was already encountered and should have been re-rolled.` });
+      }
+    }
+    if (ruleSet.monotype && run.monotype && e.outcome === 'caught' && e.box !== 'graveyard') {
+      if (e.types && !e.types.some((t) => toType(t) === toType(run.monotype))) {
+        warnings.push({ key, message: `${e.nickname || name} is not ${run.monotype} type.` });
+      }
+    }
+    if (e.formeId) {
+      if (e.outcome === 'caught') caughtFamilies.add(familyOf(e.formeId));
+      seen.add(e.formeId);
+    }
+  }
+
+  if (ruleSet.monotype && !run.monotype) {
+    warnings.push({ message: 'Monotype runs need a type; start a new run to pick one.' });
+  }
+  const party = runPokemon(run, 'party').length;
+  if (ruleSet.pairedParty && party % 2 === 1) {
+    warnings.push({ message: `Wedlocke parties are built from pairs, but the party has ${party} Pokémon.` });
+  }
+  if (!ruleSet.battleItems) {
+    for (const event of run.events) {
+      warnings.push({ message: `Used ${event.item} in battle; ${ruleSet.label} rules ban items in battle.` });
+    }
+  }
+  return warnings;
+}
@@ -0,0 +1,159 @@
+/**
+ * @file Nuzlocke run model.
+ * A run records the outcome of the first encounter on each route, plus the
+ * nickname, level, and location (party, box, or graveyard) of every catch,
+ * and a log of run events such as item use that rule sets may restrict.
+ * All updates are pure and return a new run so the store can persist them.
+ */
+import type { GameId } from '@/types/database';
+
+export type EncounterOutcome = 'caught' | 'fled' | 'killed' | 'dupe-skipped';
+
+export const ENCOUNTER_OUTCOMES: { value: EncounterOutcome; label: string }[] = [
+  { value: 'caught', label: 'Caught' },
+  { value: 'fled', label: 'Fled' },
+  { value: 'killed', label: 'Killed' },
+  { value: 'dupe-skipped', label: 'Dupe skipped' },
+];
+
+/** Where a caught Pokémon currently lives. */
+export type RunBox = 'party' | 'box' | 'graveyard';
+
+export const RUN_BOXES: { value: RunBox; label: string }[] = [
+  { value: 'party', label: 'Party' },
+  { value: 'box', label: 'Box' },
+  { value: 'graveyard', label: 'Graveyard' },
+];
+
+export const PARTY_SIZE = 6;
+
+export const RULE_SET_IDS = ['standard', 'hardcore', 'wedlocke', 'monotype'] as const;
+
+/** Rule set a run follows; the rules themselves are declared in `rules.ts`. */
+export type RuleSetId = (typeof RULE_SET_IDS)[number];
+
+/**
+ * The encounter used up on one route, or a bonus catch that the shiny
+ * clause allows on top of it.
+ */
+export interface RunEncounter {
+  routeId: string;
+  routeName: string;
+  outcome: EncounterOutcome;
+  /** Species met on the route; skipped dupes may leave it empty. */
+  formeId?: string;
+  species?: string;
+  spriteUrl?: string;
+  types?: string[];
+  shiny?: boolean;
+  /** Shiny-clause catch that does not use up the route. */
+  bonus?: boolean;
+  /** Set for catches only. */
+  nickname?: string;
+  level?: number;
+  box?: RunBox;
+  /** ISO timestamp of when the encounter was logged. */
+  recordedAt: string;
+}
+
+/** Something that happened during the run, checked against the rule set. */
+export interface RunEvent {
+  kind: 'item-used';
+  /** Item name, e.g. `Hyper Potion`. */
+  item: string;
+  /** ISO timestamp of when the event was logged. */
+  at: string;
+}
+
+export interface Run {
+  gameId: GameId;
+  ruleSet: RuleSetId;
+  /** Type every Pokémon must have under Monotype rules. */
+  monotype?: string;
+  startedAt: string;
+  /** Encounters keyed by `encounterKey`; one per route plus bonus catches. */
+  encounters: Record<string, RunEncounter>;
+  events: RunEvent[];
+}
+
+export type EncounterInput = Omit<RunEncounter, 'recordedAt' | 'box'>;
+
+export type EventInput = Omit<RunEvent, 'at'>;
+
+/** Fields of a catch that can be edited after it is logged. */
+export type CatchPatch = Partial<Pick<RunEncounter, 'nickname' | 'level'>>;
+
+export function createRun(gameId: GameId, ruleSet: RuleSetId, monotype?: string, now = new Date()): Run {
+  return { gameId, ruleSet, monotype, startedAt: now.toISOString(), encounters: {}, events: [] };
+}
+
+/** Key of an encounter in `Run.encounters`; bonus catches get their own slot. */
+export function encounterKey(encounter: Pick<RunEncounter, 'routeId' | 'bonus'>): string {
+  return encounter.bonus ? `${encounter.routeId}:bonus` : encounter.routeId;
+}
+
+/** Every logged encounter, in the order it was logged. */
+export function runEncounters(run: Run): RunEncounter[] {
+  return Object.values(run.encounters).sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/** Caught Pokémon in the given box, in the order they were logged. */
+export function runPokemon(run: Run, box: RunBox): RunEncounter[] {
+  return runEncounters(run).filter((e) => e.outcome === 'caught' && e.box === box);
+}
+
+/** Route ids whose encounter has already been used. */
+export function usedRouteIds(run: Run | undefined): Set<string> {
+  return new Set(run ? Object.values(run.encounters).filter((e) => !e.bonus).map((e) => e.routeId) : []);
+}
+
+/**
+ * Logs or replaces the encounter on a route. Catches join the party while
+ * it has room and go to the box otherwise; a re-logged catch keeps its box.
+ */
+export function recordEncounter(run: Run, input: EncounterInput, now = new Date()): Run {
+  const key = encounterKey(input);
+  const previous = run.encounters[key];
+  const encounter: RunEncounter = { ...input, recordedAt: previous?.recordedAt ?? now.toISOString() };
+  if (input.outcome === 'caught') {
+    const partyFull = runPokemon(run, 'party').filter((e) => encounterKey(e) !== key).length >= PARTY_SIZE;
+    encounter.box = previous?.box ?? (partyFull ? 'box' : 'party');
+  } else {
+    delete encounter.nickname;
+    delete encounter.level;
+  }
+  return { ...run, encounters: { ...run.encounters, [key]: encounter } };
+}
+
+/** Frees a route again, e.g. after logging the wrong one. */
+export function removeEncounter(run: Run, key: string): Run {
+  const { [key]: _removed, ...encounters } = run.encounters;
+  return { ...run, encounters };
+}
+
+export function updateCatch(run: Run, key: string, patch: CatchPatch): Run {
+  const encounter = run.encounters[key];
+  if (encounter?.outcome !== 'caught') return run;
+  return { ...run, encounters: { ...run.encounters, [key]: { ...encounter, ...patch } } };
+}
+
+/** Whether a catch may move into `box`; the party is capped at six. */
+export function canMoveTo(run: Run, key: string, box: RunBox): boolean {
+  const encounter = run.encounters[key];
+  if (encounter?.outcome !== 'caught' || encounter.box === box) return false;
+  return box !== 'party' || runPokemon(run, 'party').length < PARTY_SIZE;
+}
+
+/** Moves a catch between party, box, and graveyard; invalid moves are ignored. */
+export function moveCatch(run: Run, key: string, box: RunBox): Run {
+  if (!canMoveTo(run, key, box)) return run;
+  return { ...run, encounters: { ...run.encounters, [key]: { ...run.encounters[key], box } } };
+}
+
+export function recordEvent(run: Run, input: EventInput, now = new Date()): Run {
+  return { ...run, events: [...run.events, { ...input, at: now.toISOString() }] };
+}
+
+export function removeEvent(run: Run, index: number): Run {
+  return { ...run, events: run.events.filter((_, i) => i !== index) };
+}
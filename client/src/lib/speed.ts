@@ -0,0 +1,89 @@
+/**
+ * @file Speed tiers of a story split.
+ * Computes the Speed of every trainer Pokémon in a split and of the user's
+ * own Pokémon at the split's level cap, sorted into one list, and marks the
+ * trainer Pokémon whose item or moves change who moves first.
+ */
+import { DANGER_RULES, matchesRule, type DangerRule } from '@shared/danger';
+import type { PokedexDetail, TrainerPokemonSpeed } from '@/types/database';
+import { calcStat, MAX_IV } from './stats';
+
+export const SPEED_MODIFIERS = ['choice-scarf', 'quick-claw', 'trick-room', 'priority'] as const;
+
+export type SpeedModifier = (typeof SPEED_MODIFIERS)[number];
+
+export const SPEED_MODIFIER_RULES: Record<SpeedModifier, DangerRule> = {
+  'choice-scarf': {
+    label: 'Choice Scarf',
+    description: 'Speed is raised by half; already counted in its Speed.',
+    items: ['Choice Scarf'],
+  },
+  'quick-claw': {
+    label: 'Quick Claw',
+    description: 'Sometimes moves first regardless of Speed.',
+    items: ['Quick Claw'],
+  },
+  'trick-room': DANGER_RULES['trick-room'],
+  priority: DANGER_RULES.priority,
+};
+
+/** Choice Scarf's Speed multiplier. */
+const SCARF_BOOST = 1.5;
+
+/** One row of the speed list: a trainer's Pokémon or one of the user's. */
+export interface SpeedEntry {
+  key: string;
+  name: string;
+  formeId: string;
+  level: number;
+  /** Speed in battle, after Choice Scarf. */
+  speed: number;
+  /** The trainer fielding it; absent for the user's Pokémon. */
+  trainer?: { id: string; name: string };
+  modifiers: SpeedModifier[];
+  /** The user's Pokémon only: Speed with a Speed-boosting nature. */
+  boosted?: number;
+}
+
+/** Modifiers a trainer Pokémon carries, in `SPEED_MODIFIERS` order. */
+export function speedModifiers(member: TrainerPokemonSpeed['pokemon']): SpeedModifier[] {
+  return SPEED_MODIFIERS.filter((m) => matchesRule(SPEED_MODIFIER_RULES[m], member));
+}
+
+/** Speed list entry of a trainer Pokémon whose trainer runs `iv` in every stat. */
+export function trainerSpeedEntry({ trainer, pokemon, base_spe }: TrainerPokemonSpeed, iv: number): SpeedEntry {
+  const modifiers = speedModifiers(pokemon);
+  const speed = calcStat('spe', base_spe, iv, 0, pokemon.level, pokemon.nature);
+  return {
+    key: `${trainer.trainer_id}-${trainer.variant_key}-${pokemon.slot_no}`,
+    name: pokemon.name,
+    formeId: pokemon.forme_id,
+    level: pokemon.level,
+    speed: modifiers.includes('choice-scarf') ? Math.floor(speed * SCARF_BOOST) : speed,
+    trainer: { id: trainer.trainer_id, name: trainer.trainer_name },
+    modifiers,
+  };
+}
+
+/** Speed list entry of one of the user's Pokémon with max IVs and no EVs. */
+export function ownSpeedEntry(detail: PokedexDetail, level: number, index: number): SpeedEntry {
+  return {
+    key: `own-${index}`,
+    name: detail.display_name,
+    formeId: detail.forme_id,
+    level,
+    speed: calcStat('spe', detail.spe, MAX_IV, 0, level),
+    modifiers: [],
+    boosted: calcStat('spe', detail.spe, MAX_IV, 0, level, 'Timid'),
+  };
+}
+
+/** Fastest first; on ties the user's Pokémon come first, then by name. */
+export function sortBySpeed(entries: SpeedEntry[]): SpeedEntry[] {
+  return [...entries].sort(
+    (a, b) =>
+      b.speed - a.speed ||
+      Number(Boolean(a.trainer)) - Number(Boolean(b.trainer)) ||
+      a.name.localeCompare(b.name),
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * @file Availability by story split.
+ * A Pokémon is available from the first split that opens a route it is
+ * found on, or from the split where an available pre-evolution can reach
+ * its evolution level under the level cap. Level-up moves become available
+ * once the cap reaches their level; TMs, tutors, and egg moves cannot be
+ * placed in the story from the views and count as always available. Also
+ * places a run within the splits and ranks each split's new catches.
+ */
+import { learnerGroup } from '@shared/learnset';
+import type { Evolution, PokedexDetail, Split, SplitRouteEncounter } from '@/types/database';
+
+/** Level cap in effect during each split; splits without a cap keep the previous one. */
+export function levelCaps(splits: Split[]): (number | undefined)[] {
+  let cap: number | undefined;
+  return splits.map((s) => (cap = s.level_cap ?? cap));
+}
+
+/**
+ * Next level cap for a team whose highest level is `level`: the first cap at
+ * or above it, since reaching a cap does not mean its boss is beaten. The
+ * first cap when no level is known.
+ */
+export function nextLevelCap(splits: Split[], level = 0): number | undefined {
+  return levelCaps(splits).find((cap) => cap !== undefined && cap >= level);
+}
+
+/**
+ * Split a run has reached: the latest one opening a route where the run
+ * logged an encounter, or `undefined` before the first encounter.
+ */
+export function currentSplitIndex(splits: Split[], visitedRouteIds: string[]): number | undefined {
+  const visited = new Set(visitedRouteIds);
+  const index = splits.findLastIndex((s) => s.routes.some((r) => visited.has(r.route_id)));
+  return index >= 0 ? index : undefined;
+}
+
+/** First split at or after `from` whose cap reaches `level`. */
+function splitReaching(caps: (number | undefined)[], level: number, from: number): number | undefined {
+  for (let i = from; i < caps.length; i++) {
+    if ((caps[i] ?? 0) >= level) return i;
+  }
+  return undefined;
+}
+
+/** Index of the first split each forme can be caught or evolved into. */
+export function pokemonAvailability(splits: Split[], evolutions: Evolution[]): Map<string, number> {
+  const first = new Map<string, number>();
+  splits.forEach((split, i) =>
+    split.encounters.forEach(({ forme_id }) => {
+      if (!first.has(forme_id)) first.set(forme_id, i);
+    }),
+  );
+
+  // Evolution chains are short, so relax the steps until nothing improves.
+  const caps = levelCaps(splits);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const e of evolutions) {
+      const from = first.get(e.from_forme_id);
+      if (from === undefined) continue;
+      const at = e.level ? splitReaching(caps, e.level, from) : from;
+      if (at !== undefined && at < (first.get(e.to_forme_id) ?? Infinity)) {
+        first.set(e.to_forme_id, at);
+        changed = true;
+      }
+    }
+  }
+  return first;
+}
+
+/**
+ * Level at which a forme first learns a move by level-up when no other
+ * method teaches it, i.e. the level the move waits for; `undefined` when the
+ * move is not level-gated.
+ */
+export function moveUnlockLevel(detail: PokedexDetail, moveName: string): number | undefined {
+  let level: number | undefined;
+  for (const [method, moves] of Object.entries(detail.learnset)) {
+    for (const m of moves) {
+      if (m.name !== moveName) continue;
+      if (learnerGroup(method) !== 'LEVEL') return undefined;
+      level = Math.min(level ?? Infinity, m.level ?? 1);
+    }
+  }
+  return level;
+}
+
+/**
+ * Formes new to a split ranked by base stat total, strongest first. Each
+ * forme appears once, at its first encounter on the split's routes.
+ */
+export function strongestCatches(split: Split, encounters: SplitRouteEncounter[], limit = 10): SplitRouteEncounter[] {
+  const isNew = new Set(split.encounters.map((e) => e.forme_id));
+  const first = new Map<string, SplitRouteEncounter>();
+  for (const e of encounters) {
+    if (isNew.has(e.forme_id) && !first.has(e.forme_id)) first.set(e.forme_id, e);
+  }
+  return Array.from(first.values())
+    .sort(
+      (a, b) => (b.base_stat_total ?? 0) - (a.base_stat_total ?? 0) || a.forme_label.localeCompare(b.forme_label),
+    )
+    .slice(0, limit);
+}
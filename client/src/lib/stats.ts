@@ -0,0 +1,134 @@
+/**
+ * @file Stat formulas shared by the damage and stat calculators.
+ * Generation III–V use the same formulas: IVs 0–31, EVs 0–255 (510 total),
+ * and natures raising one stat by 10% and lowering another.
+ */
+
+export const STAT_KEYS = ['hp', 'atk', 'def', 'spa', 'spd', 'spe'] as const;
+
+export type StatKey = (typeof STAT_KEYS)[number];
+
+/** One value per stat, e.g. base stats, IVs, EVs, or final stats. */
+export type StatSpread = Record<StatKey, number>;
+
+/** Stats that stat stages and natures can modify. */
+export type BoostableStat = Exclude<StatKey, 'hp'>;
+
+export const STAT_LABELS: Record<StatKey, string> = {
+  hp: 'HP',
+  atk: 'Atk',
+  def: 'Def',
+  spa: 'SpA',
+  spd: 'SpD',
+  spe: 'Spe',
+};
+
+export const MAX_IV = 31;
+export const MAX_EV = 255;
+export const MAX_TOTAL_EVS = 510;
+
+/** Nature → raised and lowered stat. Neutral natures have neither. */
+export const NATURES: Record<string, { plus?: BoostableStat; minus?: BoostableStat }> = {
+  Hardy: {},
+  Lonely: { plus: 'atk', minus: 'def' },
+  Brave: { plus: 'atk', minus: 'spe' },
+  Adamant: { plus: 'atk', minus: 'spa' },
+  Naughty: { plus: 'atk', minus: 'spd' },
+  Bold: { plus: 'def', minus: 'atk' },
+  Docile: {},
+  Relaxed: { plus: 'def', minus: 'spe' },
+  Impish: { plus: 'def', minus: 'spa' },
+  Lax: { plus: 'def', minus: 'spd' },
+  Timid: { plus: 'spe', minus: 'atk' },
+  Hasty: { plus: 'spe', minus: 'def' },
+  Serious: {},
+  Jolly: { plus: 'spe', minus: 'spa' },
+  Naive: { plus: 'spe', minus: 'spd' },
+  Modest: { plus: 'spa', minus: 'atk' },
+  Mild: { plus: 'spa', minus: 'def' },
+  Quiet: { plus: 'spa', minus: 'spe' },
+  Bashful: {},
+  Rash: { plus: 'spa', minus: 'spd' },
+  Calm: { plus: 'spd', minus: 'atk' },
+  Gentle: { plus: 'spd', minus: 'def' },
+  Sassy: { plus: 'spd', minus: 'spe' },
+  Careful: { plus: 'spd', minus: 'spa' },
+  Quirky: {},
+};
+
+export const NATURE_NAMES = Object.keys(NATURES);
+
+/** Match a nature name case-insensitively, e.g. `adamant` → `Adamant`. */
+export function toNature(value: string | null | undefined): string | undefined {
+  const key = value?.trim().toLowerCase();
+  return NATURE_NAMES.find((n) => n.toLowerCase() === key);
+}
+
+/** Nature multiplier for `stat`: 1.1, 0.9, or 1. */
+export function natureModifier(nature: string | undefined, stat: StatKey): number {
+  const entry = NATURES[toNature(nature) ?? ''];
+  if (!entry || stat === 'hp') return 1;
+  if (entry.plus === stat) return 1.1;
+  if (entry.minus === stat) return 0.9;
+  return 1;
+}
+
+export function uniformSpread(value: number): StatSpread {
+  return { hp: value, atk: value, def: value, spa: value, spd: value, spe: value };
+}
+
+/** Final value of one stat at `level`. Shedinja-style 1 HP is not modeled. */
+export function calcStat(
+  stat: StatKey,
+  base: number,
+  iv: number,
+  ev: number,
+  level: number,
+  nature?: string,
+): number {
+  const core = Math.floor(((2 * base + iv + Math.floor(ev / 4)) * level) / 100);
+  if (stat === 'hp') return core + level + 10;
+  return Math.floor((core + 5) * natureModifier(nature, stat));
+}
+
+/** Final stats for a Pokémon at `level` with the given IVs, EVs, and nature. */
+export function calcStats(
+  base: StatSpread,
+  level: number,
+  ivs: StatSpread,
+  evs: StatSpread,
+  nature?: string,
+): StatSpread {
+  const out = {} as StatSpread;
+  for (const stat of STAT_KEYS) {
+    out[stat] = calcStat(stat, base[stat], ivs[stat], evs[stat], level, nature);
+  }
+  return out;
+}
+
+/**
+ * IVs that give `observed` for a stat, or `undefined` when none do (wrong
+ * level, nature, or EVs). Stats never drop as the IV rises, so the matching
+ * IVs form one range.
+ */
+export function ivRange(
+  stat: StatKey,
+  base: number,
+  observed: number,
+  ev: number,
+  level: number,
+  nature?: string,
+): { min: number; max: number } | undefined {
+  let range: { min: number; max: number } | undefined;
+  for (let iv = 0; iv <= MAX_IV; iv++) {
+    if (calcStat(stat, base, iv, ev, level, nature) !== observed) continue;
+    range = { min: range?.min ?? iv, max: iv };
+  }
+  return range;
+}
+
+/** Apply a stat stage (−6…+6) to a stat, as `stat × (2+n)/2` or `stat × 2/(2−n)`. */
+export function applyStage(value: number, stage: number): number {
+  const n = Math.max(-6, Math.min(6, Math.trunc(stage)));
+  return n >= 0 ? Math.floor((value * (2 + n)) / 2) : Math.floor((value * 2) / (2 - n));
+}
@@ -0,0 +1,95 @@
+/**
+ * @file Team builder model.
+ * A team is up to six Pokémon with up to four chosen moves each, saved under
+ * a name per game and optionally checked against a story split. Updates are
+ * pure so the store can persist their results.
+ */
+import type { PokedexDetail } from '@/types/database';
+import { PARTY_SIZE } from './run';
+import { calcStat, MAX_IV } from './stats';
+
+export const TEAM_SIZE = PARTY_SIZE;
+export const TEAM_MOVES = 4;
+
+export interface TeamMember {
+  formeId: string;
+  /** Chosen moves by name, in slot order. */
+  moves: string[];
+}
+
+export interface Team {
+  name: string;
+  members: TeamMember[];
+  /** Split whose routes and level cap the team is checked against. */
+  split?: string;
+  /** ISO timestamp of the last save; absent for unsaved teams. */
+  savedAt?: string;
+}
+
+export function emptyTeam(): Team {
+  return { name: '', members: [] };
+}
+
+/** Adds a Pokémon with no moves; a full team is returned unchanged. */
+export function addMember(team: Team, formeId: string): Team {
+  if (team.members.length >= TEAM_SIZE) return team;
+  return { ...team, members: [...team.members, { formeId, moves: [] }] };
+}
+
+export function removeMember(team: Team, index: number): Team {
+  return { ...team, members: team.members.filter((_, i) => i !== index) };
+}
+
+/** Sets or clears the move in one slot; moves close up so slots never have gaps. */
+export function setMemberMove(team: Team, index: number, slot: number, move: string | undefined): Team {
+  return {
+    ...team,
+    members: team.members.map((m, i) => {
+      if (i !== index) return m;
+      const moves = [...m.moves];
+      moves[slot] = move ?? '';
+      return { ...m, moves: moves.filter(Boolean).slice(0, TEAM_MOVES) };
+    }),
+  };
+}
+
+export interface SpeedTier {
+  formeId: string;
+  name: string;
+  base: number;
+  /** Speed with max IVs, no EVs, and a neutral nature. */
+  neutral: number;
+  /** Speed with max IVs, no EVs, and a Speed-boosting nature. */
+  boosted: number;
+}
+
+/** Speed of each Pokémon at `level`, fastest first. */
+export function speedTiers(details: PokedexDetail[], level: number): SpeedTier[] {
+  return details
+    .map((d) => ({
+      formeId: d.forme_id,
+      name: d.display_name,
+      base: d.spe,
+      neutral: calcStat('spe', d.spe, MAX_IV, 0, level),
+      boosted: calcStat('spe', d.spe, MAX_IV, 0, level, 'Timid'),
+    }))
+    .sort((a, b) => b.neutral - a.neutral || a.name.localeCompare(b.name));
+}
+
+/** Our Pokémon split by whether they outspeed an enemy `speed`. */
+export interface SpeedMatchup {
+  /** Faster even with a neutral nature. */
+  faster: SpeedTier[];
+  /** Faster only with a Speed-boosting nature. */
+  withNature: SpeedTier[];
+  /** Slower or tied either way. */
+  slower: SpeedTier[];
+}
+
+export function speedMatchup(tiers: SpeedTier[], speed: number): SpeedMatchup {
+  return {
+    faster: tiers.filter((t) => t.neutral > speed),
+    withNature: tiers.filter((t) => t.neutral <= speed && t.boosted > speed),
+    slower: tiers.filter((t) => t.boosted <= speed),
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * @file Type effectiveness charts.
+ * Drayano's hacks disagree on the type chart: older ones keep the Generation
+ * II–V chart without Fairy, some patch Fairy in while Steel still resists
+ * Ghost and Dark, and newer ones use the Generation VI chart. Each game picks
+ * its chart through `gameTypeChart` in `games.ts`. Type ids are lowercase to
+ * match the `type*_id` columns of the contract views.
+ */
+import type { Generation } from './games';
+
+export const POKEMON_TYPES = [
+  'normal',
+  'fire',
+  'water',
+  'electric',
+  'grass',
+  'ice',
+  'fighting',
+  'poison',
+  'ground',
+  'flying',
+  'psychic',
+  'bug',
+  'rock',
+  'ghost',
+  'dragon',
+  'dark',
+  'steel',
+  'fairy',
+] as const;
+
+export type PokemonType = (typeof POKEMON_TYPES)[number];
+
+type Multipliers = Record<PokemonType, Partial<Record<PokemonType, number>>>;
+
+/**
+ * Generation VI chart: attacking type → defending type → multiplier.
+ * Omitted pairs are neutral.
+ */
+const gen6: Multipliers = {
+  normal: { rock: 0.5, ghost: 0, steel: 0.5 },
+  fire: { fire: 0.5, water: 0.5, grass: 2, ice: 2, bug: 2, rock: 0.5, dragon: 0.5, steel: 2 },
+  water: { fire: 2, water: 0.5, grass: 0.5, ground: 2, rock: 2, dragon: 0.5 },
+  electric: { water: 2, electric: 0.5, grass: 0.5, ground: 0, flying: 2, dragon: 0.5 },
+  grass: {
+    fire: 0.5,
+    water: 2,
+    grass: 0.5,
+    poison: 0.5,
+    ground: 2,
+    flying: 0.5,
+    bug: 0.5,
+    rock: 2,
+    dragon: 0.5,
+    steel: 0.5,
+  },
+  ice: { fire: 0.5, water: 0.5, grass: 2, ice: 0.5, ground: 2, flying: 2, dragon: 2, steel: 0.5 },
+  fighting: {
+    normal: 2,
+    ice: 2,
+    poison: 0.5,
+    flying: 0.5,
+    psychic: 0.5,
+    bug: 0.5,
+    rock: 2,
+    ghost: 0,
+    dark: 2,
+    steel: 2,
+    fairy: 0.5,
+  },
+  poison: { grass: 2, poison: 0.5, ground: 0.5, rock: 0.5, ghost: 0.5, steel: 0, fairy: 2 },
+  ground: { fire: 2, electric: 2, grass: 0.5, poison: 2, flying: 0, bug: 0.5, rock: 2, steel: 2 },
+  flying: { electric: 0.5, grass: 2, fighting: 2, bug: 2, rock: 0.5, steel: 0.5 },
+  psychic: { fighting: 2, poison: 2, psychic: 0.5, dark: 0, steel: 0.5 },
+  bug: {
+    fire: 0.5,
+    grass: 2,
+    fighting: 0.5,
+    poison: 0.5,
+    flying: 0.5,
+    psychic: 2,
+    ghost: 0.5,
+    dark: 2,
+    steel: 0.5,
+    fairy: 0.5,
+  },
+  rock: { fire: 2, ice: 2, fighting: 0.5, ground: 0.5, flying: 2, bug: 2, steel: 0.5 },
+  ghost: { normal: 0, psychic: 2, ghost: 2, dark: 0.5 },
+  dragon: { dragon: 2, steel: 0.5, fairy: 0 },
+  dark: { fighting: 0.5, psychic: 2, ghost: 2, dark: 0.5, fairy: 0.5 },
+  steel: { fire: 0.5, water: 0.5, electric: 0.5, ice: 2, rock: 2, steel: 0.5, fairy: 2 },
+  fairy: { fire: 0.5, fighting: 2, poison: 0.5, dragon: 2, dark: 2, steel: 0.5 },
+};
+
+/** Before Generation VI, Steel also resists Ghost and Dark. */
+const gen2to5: Multipliers = {
+  ...gen6,
+  ghost: { ...gen6.ghost, steel: 0.5 },
+  dark: { ...gen6.dark, steel: 0.5 },
+};
+
+export type TypeChartId = 'gen2-5' | 'gen2-5-fairy' | 'gen6';
+
+export interface TypeChart {
+  id: TypeChartId;
+  label: string;
+  /** Types that exist in games using this chart. */
+  types: readonly PokemonType[];
+  multipliers: Multipliers;
+}
+
+export const TYPE_CHARTS: Record<TypeChartId, TypeChart> = {
+  'gen2-5': {
+    id: 'gen2-5',
+    label: 'Generation II–V',
+    types: POKEMON_TYPES.filter((t) => t !== 'fairy'),
+    multipliers: gen2to5,
+  },
+  'gen2-5-fairy': {
+    id: 'gen2-5-fairy',
+    label: 'Generation II–V with Fairy',
+    types: POKEMON_TYPES,
+    multipliers: gen2to5,
+  },
+  gen6: { id: 'gen6', label: 'Generation VI', types: POKEMON_TYPES, multipliers: gen6 },
+};
+
+/** Normalize a type id or label (`Fire`, `fire`) to a chart key. */
+export function toType(value: string | null | undefined): PokemonType | undefined {
+  const key = value?.trim().toLowerCase();
+  return (POKEMON_TYPES as readonly string[]).includes(key ?? '') ? (key as PokemonType) : undefined;
+}
+
+/**
+ * Multiplier of one attacking type against a single defending type. Types the
+ * chart does not have, such as Fairy in a game without it, are neutral.
+ */
+export function matchup(attack: string, defend: string, chart: TypeChart = TYPE_CHARTS.gen6): number {
+  const a = toType(attack);
+  const d = toType(defend);
+  if (!a || !d || !chart.types.includes(a) || !chart.types.includes(d)) return 1;
+  return chart.multipliers[a][d] ?? 1;
+}
+
+/** Combined multiplier of an attacking type against every defending type. */
+export function typeEffectiveness(
+  attack: string,
+  defenders: (string | null | undefined)[],
+  chart: TypeChart = TYPE_CHARTS.gen6,
+): number {
+  return defenders.reduce<number>((mult, t) => (t ? mult * matchup(attack, t, chart) : mult), 1);
+}
+
+/** A column of the defensive matchup grid. */
+export interface DefensiveBucket {
+  multiplier: number;
+  label: string;
+  types: PokemonType[];
+}
+
+const bucketLabels: [multiplier: number, label: string][] = [
+  [4, '4×'],
+  [2, '2×'],
+  [0.5, '½×'],
+  [0.25, '¼×'],
+  [0, 'Immune'],
+];
+
+/** Attacking types that hit `defenders` for 4×, 2×, ½×, ¼×, or not at all. */
+export function defensiveMatchups(
+  defenders: (string | null | undefined)[],
+  chart: TypeChart = TYPE_CHARTS.gen6,
+): DefensiveBucket[] {
+  return bucketLabels.map(([multiplier, label]) => ({
+    multiplier,
+    label,
+    types: chart.types.filter((t) => typeEffectiveness(t, defenders, chart) === multiplier),
+  }));
+}
+
+/**
+ * Defender abilities that absorb a type outright, keyed by normalized name,
+ * with the first generation in which they do. Lightning Rod and Storm Drain
+ * only redirect moves before Generation V.
+ */
+const immunityAbilities: Record<string, [type: PokemonType, since: Generation]> = {
+  levitate: ['ground', 3],
+  flashfire: ['fire', 3],
+  waterabsorb: ['water', 3],
+  voltabsorb: ['electric', 3],
+  dryskin: ['water', 4],
+  motordrive: ['electric', 4],
+  stormdrain: ['water', 5],
+  lightningrod: ['electric', 5],
+  sapsipper: ['grass', 5],
+};
+
+const abilityKey = (name: string | null | undefined) => name?.toLowerCase().replace(/[^a-z]/g, '') ?? '';
+
+/** Type an ability grants immunity to in `generation`, e.g. Ground for Levitate. */
+export function abilityImmunity(ability: string | null | undefined, generation: Generation): PokemonType | undefined {
+  const immunity = immunityAbilities[abilityKey(ability)];
+  return immunity && generation >= immunity[1] ? immunity[0] : undefined;
+}
+
+/** An ability that blocks types which would otherwise hit. */
+export interface AbilityImmunity {
+  ability: string;
+  types: PokemonType[];
+}
+
+/**
+ * Immunities each of `abilities` adds on top of the type chart. Wonder Guard
+ * blocks every type that is not super effective. Abilities that block nothing
+ * new, like Levitate on a Flying type, are left out.
+ */
+export function abilityImmunities(
+  abilities: (string | null | undefined)[],
+  defenders: (string | null | undefined)[],
+  chart: TypeChart = TYPE_CHARTS.gen6,
+  generation: Generation = 5,
+): AbilityImmunity[] {
+  return abilities.flatMap((ability) => {
+    if (!ability) return [];
+    const blocked = chart.types.filter((t) => {
+      const mult = typeEffectiveness(t, defenders, chart);
+      if (mult === 0) return false;
+      return abilityKey(ability) === 'wonderguard' ? mult <= 1 : abilityImmunity(ability, generation) === t;
+    });
+    return blocked.length ? [{ ability, types: blocked }] : [];
+  });
+}
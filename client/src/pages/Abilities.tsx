@@ -0,0 +1,99 @@
+/**
+ * @file Abilities page.
+ * Lists every ability in the active game with its description. Search
+ * matches names and descriptions; each ability links to a page listing the
+ * Pokémon and trainer Pokémon that have it.
+ */
+import '@/index.css';
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { Card } from '@/components/ui/card';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { ErrorBoundary } from '@/components/ui/error-boundary';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { useGame } from '@/hooks/use-game';
+import { useAbilities } from '@/hooks/use-abilities';
+import { Search } from 'lucide-react';
+
+export default function Abilities() {
+  const { currentGame } = useGame();
+  const { data: abilities = [], isLoading, error, refetch } = useAbilities(currentGame);
+  const [search, setSearch] = useState('');
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return abilities;
+    return abilities.filter(
+      (a) => a.name.toLowerCase().includes(term) || a.description?.toLowerCase().includes(term),
+    );
+  }, [abilities, search]);
+
+  if (error) {
+    return (
+      <>
+        <Breadcrumbs items={[{ label: `Abilities (${currentGame})` }]} />
+        <ErrorBoundary error={error} onRetry={() => refetch()} title="Failed to load abilities" />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: `Abilities (${currentGame})` }]} />
+
+      <Card className="p-4 mb-3">
+        <div className="text-center space-y-2 mb-4">
+          <h1 className="text-3xl font-bold text-foreground">Abilities – {currentGame}</h1>
+          <p className="lead text-muted-foreground">Find out what an ability does and who has it</p>
+        </div>
+
+        <div className="input-group mb-3">
+          <span className="input-group-text">
+            <Search className="text-muted-foreground h-4 w-4" />
+          </span>
+          <input
+            type="search"
+            className="form-control"
+            placeholder="Search abilities or descriptions"
+            aria-label="Search abilities"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            data-testid="ability-search"
+          />
+        </div>
+
+        {isLoading ? (
+          <LoadingSkeleton count={10} className="h-10" />
+        ) : filtered.length ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Showing {filtered.length} of {abilities.length} abilities
+            </p>
+            <ul className="list-group" data-testid="abilities-list">
+              {filtered.map((ability) => (
+                <li key={ability.ability_id} className="list-group-item">
+                  <Link
+                    href={`/ability/${ability.ability_id}?game=${currentGame}`}
+                    className="font-medium underline"
+                  >
+                    {ability.name}
+                  </Link>
+                  <p className="text-sm text-muted-foreground mb-0">
+                    {ability.description ?? 'No description available.'}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-semibold text-foreground mb-2">No Abilities Found</h3>
+            <p className="text-muted-foreground mb-0">
+              {search.trim() ? 'Try a different search' : 'No abilities available for this game'}
+            </p>
+          </div>
+        )}
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * @file Ability detail page.
+ * Shows an ability's description in the active game, every Pokémon that can
+ * have it grouped by ability slot, and every trainer Pokémon running it in
+ * split order. The `game` query parameter takes precedence over the selected
+ * game so links from other pages keep their context.
+ */
+import '@/index.css';
+import { Link, useRoute } from 'wouter';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { ErrorBoundary } from '@/components/ui/error-boundary';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { Sprite } from '@/components/common/Sprite';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { useGame } from '@/hooks/use-game';
+import { useAbility } from '@/hooks/use-abilities';
+import { useSearchParams } from '@/hooks/use-search-params';
+import type { AbilityHolder, AbilitySlot, GameId, TrainerPokemonUse } from '@/types/database';
+
+const slotLabels: Record<AbilitySlot, string> = {
+  ability1: 'Ability 1',
+  ability2: 'Ability 2',
+  hidden: 'Hidden ability',
+};
+
+function HolderList({ holders, gameId }: { holders: AbilityHolder[]; gameId: GameId }) {
+  return (
+    <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3 list-none p-0 mb-0">
+      {holders.map((p) => (
+        <li key={p.forme_id}>
+          <Link
+            href={`/pokemon/${p.forme_id}?game=${gameId}`}
+            className="flex items-center gap-2 rounded-md border p-2 hover:bg-muted/30"
+          >
+            <Sprite src={p.sprite_default_url} alt={p.display_name} size={40} width={40} height={40} />
+            <span className="font-medium">{p.display_name}</span>
+            <span className="ms-auto flex gap-1">
+              <TypeBadge type={p.type1_id} />
+              {p.type2_id && <TypeBadge type={p.type2_id} />}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function TrainerUses({ uses, gameId }: { uses: TrainerPokemonUse[]; gameId: GameId }) {
+  if (!uses.length) {
+    return <p className="text-muted-foreground mb-0">No trainer Pokémon run this ability.</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-sm align-middle text-sm mb-0" data-testid="ability-trainers">
+        <thead>
+          <tr>
+            <th>Trainer</th>
+            <th>Split</th>
+            <th>Pokémon</th>
+            <th className="text-end">Level</th>
+            <th>Item</th>
+          </tr>
+        </thead>
+        <tbody>
+          {uses.map(({ trainer, pokemon }) => (
+            <tr key={`${trainer.trainer_id}-${trainer.variant_key}-${pokemon.slot_no}`}>
+              <td>
+                <Link href={`/trainer/${trainer.trainer_id}?game=${gameId}`} className="underline">
+                  {trainer.trainer_class} {trainer.trainer_name}
+                </Link>
+              </td>
+              <td>{trainer.split ?? '—'}</td>
+              <td>
+                <Link href={`/pokemon/${pokemon.forme_id}?game=${gameId}`} className="underline">
+                  {pokemon.name}
+                </Link>
+              </td>
+              <td className="text-end tabular-nums">{pokemon.level}</td>
+              <td>{pokemon.item ?? '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function AbilityDetailPage() {
+  const [, params] = useRoute('/ability/:abilityId');
+  const { currentGame } = useGame();
+  const [searchParams] = useSearchParams();
+  const gameId = (searchParams.get('game') as GameId | null) || currentGame;
+  const { data, isLoading, error, refetch } = useAbility(gameId, params?.abilityId);
+
+  const crumbs = [{ label: `Abilities (${gameId})`, href: `/abilities?game=${gameId}` }];
+
+  if (error) {
+    return (
+      <>
+        <Breadcrumbs items={[...crumbs, { label: 'Not Found' }]} />
+        <ErrorBoundary error={error} onRetry={() => refetch()} title="Failed to load ability" />
+      </>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <>
+        <Breadcrumbs items={crumbs} />
+        <LoadingSkeleton count={6} className="h-8" />
+      </>
+    );
+  }
+
+  const { ability, pokemon, trainers } = data;
+  const slots = (Object.keys(slotLabels) as AbilitySlot[])
+    .map((slot) => [slot, pokemon.filter((p) => p.slot === slot)] as const)
+    .filter(([, holders]) => holders.length);
+
+  return (
+    <>
+      <Breadcrumbs items={[...crumbs, { label: ability.name }]} />
+
+      <Card className="mb-3">
+        <CardHeader>
+          <CardTitle>
+            <h1 className="text-3xl font-bold mb-0">{ability.name}</h1>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground mb-0">{ability.description ?? 'No description available.'}</p>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-3">
+        <CardHeader>
+          <CardTitle className="text-lg">Pokémon with {ability.name}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {slots.map(([slot, holders]) => (
+            <section key={slot} data-testid={`holders-${slot}`}>
+              <h2 className="text-md font-semibold mb-2">
+                {slotLabels[slot]} <Badge variant="secondary">{holders.length}</Badge>
+              </h2>
+              <HolderList holders={holders} gameId={gameId} />
+            </section>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="mb-3">
+        <CardHeader>
+          <CardTitle className="text-lg">
+            Trainer Pokémon <Badge variant="secondary">{trainers.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TrainerUses uses={trainers} gameId={gameId} />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * @file Damage calculator page.
+ * Pits an attacker against a defender with full control over builds, stat
+ * stages, weather, and critical hits, using the current game's generation
+ * formula, type chart, and physical/special rule. Shows every roll and the KO odds.
+ */
+import '@/index.css';
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { BuildForm } from '@/components/calc/BuildForm';
+import { DamageResultView } from '@/components/calc/DamageResultView';
+import { useGame } from '@/hooks/use-game';
+import { useGames } from '@/hooks/use-games';
+import { usePokemonDetail } from '@/hooks/use-pokedex';
+import { defaultBattleState, defaultBuild, learnsetMoves, toCalcMove, toCalcPokemon } from '@/lib/builds';
+import { calculateDamage, WEATHERS, type Weather } from '@/lib/damage';
+import { gameGeneration, gameTypeChart, usesTypeBasedCategory } from '@/lib/games';
+import { ArrowLeftRight } from 'lucide-react';
+
+export default function DamageCalc() {
+  const { currentGame } = useGame();
+  const { data: games } = useGames();
+  const game = games?.find((g) => g.id === currentGame);
+  const generation = gameGeneration(currentGame);
+  const typeBasedCategory = usesTypeBasedCategory(currentGame, game);
+  const typeChart = gameTypeChart(currentGame);
+
+  const [attacker, setAttacker] = useState(defaultBuild);
+  const [attackerState, setAttackerState] = useState(defaultBattleState);
+  const [defender, setDefender] = useState(defaultBuild);
+  const [defenderState, setDefenderState] = useState(defaultBattleState);
+  const [moveId, setMoveId] = useState('');
+  const [weather, setWeather] = useState<Weather>('none');
+  const [critical, setCritical] = useState(false);
+
+  // Species differ between games, so start over when the game changes.
+  useEffect(() => {
+    setAttacker(defaultBuild());
+    setDefender(defaultBuild());
+    setMoveId('');
+  }, [currentGame]);
+
+  const { data: attackerDetail } = usePokemonDetail(currentGame, attacker.formeId);
+  const { data: defenderDetail } = usePokemonDetail(currentGame, defender.formeId);
+
+  const moves = useMemo(
+    () => (attackerDetail ? learnsetMoves(attackerDetail).filter((m) => m.category !== 'STATUS') : []),
+    [attackerDetail],
+  );
+  const move = moves.find((m) => m.move_id === moveId);
+
+  const result = useMemo(() => {
+    if (!attackerDetail || !defenderDetail || !move) return null;
+    return calculateDamage(
+      toCalcPokemon(attackerDetail, attacker, attackerState),
+      toCalcPokemon(defenderDetail, defender, defenderState),
+      toCalcMove(move),
+      { generation, typeBasedCategory, typeChart, weather, critical },
+    );
+  }, [
+    attackerDetail,
+    defenderDetail,
+    move,
+    attacker,
+    attackerState,
+    defender,
+    defenderState,
+    generation,
+    typeBasedCategory,
+    typeChart,
+    weather,
+    critical,
+  ]);
+
+  const swap = () => {
+    setAttacker(defender);
+    setAttackerState(defenderState);
+    setDefender(attacker);
+    setDefenderState(attackerState);
+    setMoveId('');
+  };
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: `Damage Calculator (${currentGame})` }]} />
+
+      <div className="space-y-4">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Damage Calculator – {currentGame}</h1>
+          <p className="lead text-muted-foreground mb-0">
+            Generation {generation} formula · {typeChart.label} type chart
+            {typeBasedCategory && ' · physical/special decided by move type'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <BuildForm
+            title="Attacker"
+            idPrefix="attacker"
+            build={attacker}
+            onBuildChange={(b) => {
+              if (b.formeId !== attacker.formeId) setMoveId('');
+              setAttacker(b);
+            }}
+            state={attackerState}
+            onStateChange={setAttackerState}
+            detail={attackerDetail}
+          />
+          <BuildForm
+            title="Defender"
+            idPrefix="defender"
+            build={defender}
+            onBuildChange={setDefender}
+            state={defenderState}
+            onStateChange={setDefenderState}
+            detail={defenderDetail}
+          />
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Move &amp; Field</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="row g-3 align-items-end">
+              <div className="col-12 col-md-5">
+                <label htmlFor="calc-move" className="form-label">
+                  Move
+                </label>
+                <select
+                  id="calc-move"
+                  className="form-select"
+                  value={moveId}
+                  onChange={(e) => setMoveId(e.target.value)}
+                  disabled={!moves.length}
+                  data-testid="calc-move"
+                >
+                  <option value="">{attackerDetail ? 'Select a move' : 'Pick an attacker first'}</option>
+                  {moves.map((m) => (
+                    <option key={m.move_id} value={m.move_id}>
+                      {m.name} ({m.type_id}, {m.power ?? '—'} BP)
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-6 col-md-3">
+                <label htmlFor="calc-weather" className="form-label">
+                  Weather
+                </label>
+                <select
+                  id="calc-weather"
+                  className="form-select"
+                  value={weather}
+                  onChange={(e) => setWeather(e.target.value as Weather)}
+                >
+                  {WEATHERS.map((w) => (
+                    <option key={w.value} value={w.value}>
+                      {w.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-6 col-md-2">
+                <div className="form-check">
+                  <input
+                    id="calc-crit"
+                    type="checkbox"
+                    className="form-check-input"
+                    checked={critical}
+                    onChange={(e) => setCritical(e.target.checked)}
+                  />
+                  <label htmlFor="calc-crit" className="form-check-label">
+                    Critical hit
+                  </label>
+                </div>
+              </div>
+              <div className="col-12 col-md-2">
+                <Button variant="outline" className="w-100" onClick={swap} data-testid="calc-swap">
+                  <ArrowLeftRight className="h-4 w-4 me-2" />
+                  Swap
+                </Button>
+              </div>
+            </div>
+
+            {result && attackerDetail && defenderDetail && move ? (
+              <DamageResultView
+                result={result}
+                heading={`Lv. ${attacker.level} ${attackerDetail.display_name} ${move.name} vs. Lv. ${defender.level} ${defenderDetail.display_name}`}
+              />
+            ) : (
+              <p className="text-muted-foreground mb-0">
+                Choose an attacker, a defender, and a damaging move to see the rolls.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
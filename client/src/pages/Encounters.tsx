@@ -4,17 +4,19 @@
  * `time`, `search`, and `page` query parameters in sync so direct links restore the
  * same view. On small screens the route sidebar collapses into a sheet-driven
  * combobox for keyboard and touch friendly selection. Headings and breadcrumbs
- * include the active game so users stay oriented.
+ * include the active game so users stay oriented. Routes already used by the
+ * current Nuzlocke run are marked in the route list.
 */
 import '@/index.css';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { RoutesList } from '@/components/encounters/RoutesList';
 import { EncountersList } from '@/components/encounters/EncountersList';
 import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
 import { useGame } from '@/hooks/use-game';
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
+import { useRoutes } from '@/hooks/use-encounters';
+import { useCurrentRun } from '@/hooks/use-run';
+import { usedRouteIds } from '@/lib/run';
 import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { Button } from '@/components/ui/button';
@@ -27,12 +29,6 @@ import {
   SheetTrigger,
 } from '@/components/ui/sheet';
 
-interface Route {
-  route_id: string;
-  route_name: string;
-  sort_index: number;
-}
-
 /**
  * Renders the Encounters page with route selector and encounter details.
  */
@@ -47,28 +43,11 @@ export default function Encounters() {
     isLoading: routesLoading,
     error: routesError,
     refetch: routesRefetch,
-  } = useQuery<Route[]>({
-    queryKey: ['routes', currentGame],
-    staleTime: 5 * 60 * 1000,
-    gcTime: 15 * 60 * 1000,
-    placeholderData: (prev) => prev,
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('v_route_encounters_full')
-        .select('route_id, route_name, sort_index')
-        .eq('game_id', currentGame)
-        .order('sort_index');
-      if (error) throw error;
-      return data.reduce((acc: Route[], current) => {
-        if (!acc.find((r) => r.route_id === current.route_id)) {
-          acc.push(current as Route);
-        }
-        return acc;
-      }, []);
-    },
-  });
+  } = useRoutes(currentGame);
 
   const routes = routesData || [];
+  const run = useCurrentRun();
+  const usedRoutes = useMemo(() => usedRouteIds(run), [run]);
 
   /**
    * Provides common rendering for route selection, handling loading and error
@@ -92,6 +71,7 @@ export default function Encounters() {
         routes={routes}
         selectedRoute={selectedRoute}
         onRouteSelect={handleRouteSelect}
+        usedRoutes={usedRoutes}
       />
     );
   };
@@ -0,0 +1,131 @@
+/**
+ * @file Move detail page.
+ * Shows a move's stats and effect in the active game, then every Pokémon
+ * that learns it grouped by learn method, with levels for level-up learners.
+ * The `game` query parameter takes precedence over the selected game so links
+ * from other pages keep their context.
+ */
+import '@/index.css';
+import { Link, useRoute } from 'wouter';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { ErrorBoundary } from '@/components/ui/error-boundary';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { Sprite } from '@/components/common/Sprite';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { MoveCategoryBadge } from '@/components/moves/MoveCategoryBadge';
+import { useGame } from '@/hooks/use-game';
+import { useMove } from '@/hooks/use-moves';
+import { useSearchParams } from '@/hooks/use-search-params';
+import { groupLearners, LEARNER_GROUP_LABELS } from '@/lib/moves';
+import type { GameId, Move } from '@/types/database';
+
+function MoveStats({ move }: { move: Move }) {
+  const stats = [
+    { label: 'Power', value: move.power ?? '—' },
+    { label: 'Accuracy', value: move.accuracy ? `${move.accuracy}%` : '—' },
+    { label: 'PP', value: move.pp ?? '—' },
+    { label: 'Priority', value: (move.priority ?? 0) > 0 ? `+${move.priority}` : move.priority ?? 0 },
+  ];
+  return (
+    <dl className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-0" data-testid="move-stats">
+      {stats.map((s) => (
+        <div key={s.label} className="rounded-md border p-2 text-center">
+          <dt className="text-xs text-muted-foreground">{s.label}</dt>
+          <dd className="text-lg font-semibold tabular-nums mb-0">{s.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export default function MoveDetailPage() {
+  const [, params] = useRoute('/move/:moveId');
+  const { currentGame } = useGame();
+  const [searchParams] = useSearchParams();
+  const gameId = (searchParams.get('game') as GameId | null) || currentGame;
+  const { data, isLoading, error, refetch } = useMove(gameId, params?.moveId);
+
+  const crumbs = [{ label: `Moves (${gameId})`, href: `/moves?game=${gameId}` }];
+
+  if (error) {
+    return (
+      <>
+        <Breadcrumbs items={[...crumbs, { label: 'Not Found' }]} />
+        <ErrorBoundary error={error} onRetry={() => refetch()} title="Failed to load move" />
+      </>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <>
+        <Breadcrumbs items={crumbs} />
+        <LoadingSkeleton count={6} className="h-8" />
+      </>
+    );
+  }
+
+  const { move, learners } = data;
+  const groups = groupLearners(learners);
+
+  return (
+    <>
+      <Breadcrumbs items={[...crumbs, { label: move.name }]} />
+
+      <Card className="mb-3">
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center gap-2">
+            <h1 className="text-3xl font-bold mb-0">{move.name}</h1>
+            <TypeBadge type={move.type_id} />
+            <MoveCategoryBadge category={move.category} />
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <MoveStats move={move} />
+          {move.effect_text && <p className="text-muted-foreground mb-0">{move.effect_text}</p>}
+        </CardContent>
+      </Card>
+
+      <Card className="mb-3">
+        <CardHeader>
+          <CardTitle className="text-lg">Learned by</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {groups.map(([group, rows]) => (
+            <section key={group} data-testid={`learners-${group.toLowerCase()}`}>
+              <h2 className="text-md font-semibold mb-2">
+                {LEARNER_GROUP_LABELS[group]} <Badge variant="secondary">{rows.length}</Badge>
+              </h2>
+              <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3 list-none p-0 mb-0">
+                {rows.map((row) => (
+                  <li key={`${row.forme_id}-${row.method}-${row.level ?? ''}`}>
+                    <Link
+                      href={`/pokemon/${row.forme_id}?game=${gameId}`}
+                      className="flex items-center gap-2 rounded-md border p-2 hover:bg-muted/30"
+                    >
+                      <Sprite src={row.sprite_default_url} alt={row.display_name} size={40} width={40} height={40} />
+                      <span className="font-medium">{row.display_name}</span>
+                      <span className="ms-auto flex items-center gap-2">
+                        {group === 'LEVEL' && row.level !== undefined && (
+                          <span className="font-mono text-sm text-muted-foreground">Lv.{row.level}</span>
+                        )}
+                        {group === 'MACHINE' && (
+                          <span className="font-mono text-sm text-muted-foreground">
+                            {row.method.toUpperCase()}
+                            {row.tm_no !== undefined && String(row.tm_no).padStart(2, '0')}
+                          </span>
+                        )}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,308 @@
+/**
+ * @file Moves page.
+ * Lists every move learnable in the active game with its type, category,
+ * power, accuracy, PP, and priority as the hack defines them. Search and the
+ * type, category, power, accuracy, and priority filters run on the client
+ * over the full list; each move links to its detail page.
+ */
+import '@/index.css';
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { ErrorBoundary } from '@/components/ui/error-boundary';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { MoveCategoryBadge } from '@/components/moves/MoveCategoryBadge';
+import { useGame } from '@/hooks/use-game';
+import { useMoves } from '@/hooks/use-moves';
+import { filterMoves } from '@/lib/moves';
+import type { MoveCategory } from '@/types/database';
+import { Search, X } from 'lucide-react';
+
+const categories: MoveCategory[] = ['PHYSICAL', 'SPECIAL', 'STATUS'];
+
+/** Parse a bound input, treating blanks as unset. */
+const bound = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+const formatPriority = (priority: number) => (priority > 0 ? `+${priority}` : String(priority));
+
+function RangeInputs({
+  id,
+  label,
+  min,
+  max,
+  onMin,
+  onMax,
+}: {
+  id: string;
+  label: string;
+  min: string;
+  max: string;
+  onMin: (value: string) => void;
+  onMax: (value: string) => void;
+}) {
+  return (
+    <fieldset className="col-span-full lg:col-span-1 xl:col-span-2">
+      <legend className="form-label text-sm mb-1">{label}</legend>
+      <div className="input-group input-group-sm">
+        <input
+          type="number"
+          min={0}
+          className="form-control"
+          placeholder="Min"
+          aria-label={`Minimum ${label.toLowerCase()}`}
+          value={min}
+          onChange={(e) => onMin(e.target.value)}
+          data-testid={`${id}-min`}
+        />
+        <span className="input-group-text">–</span>
+        <input
+          type="number"
+          min={0}
+          className="form-control"
+          placeholder="Max"
+          aria-label={`Maximum ${label.toLowerCase()}`}
+          value={max}
+          onChange={(e) => onMax(e.target.value)}
+          data-testid={`${id}-max`}
+        />
+      </div>
+    </fieldset>
+  );
+}
+
+export default function Moves() {
+  const { currentGame } = useGame();
+  const { data: moves = [], isLoading, error, refetch } = useMoves(currentGame);
+  const [search, setSearch] = useState('');
+  const [type, setType] = useState('all');
+  const [category, setCategory] = useState<MoveCategory | 'all'>('all');
+  const [minPower, setMinPower] = useState('');
+  const [maxPower, setMaxPower] = useState('');
+  const [minAccuracy, setMinAccuracy] = useState('');
+  const [maxAccuracy, setMaxAccuracy] = useState('');
+  const [priority, setPriority] = useState('all');
+
+  // Options come from the game's own moves, so Gen 5 hacks list no Fairy type.
+  const types = useMemo(() => Array.from(new Set(moves.map((m) => m.type_id))).sort(), [moves]);
+  const priorities = useMemo(
+    () => Array.from(new Set(moves.map((m) => m.priority ?? 0))).sort((a, b) => b - a),
+    [moves],
+  );
+
+  const filtered = useMemo(
+    () =>
+      filterMoves(moves, {
+        search,
+        type: type !== 'all' ? type : undefined,
+        category: category !== 'all' ? category : undefined,
+        minPower: bound(minPower),
+        maxPower: bound(maxPower),
+        minAccuracy: bound(minAccuracy),
+        maxAccuracy: bound(maxAccuracy),
+        priority: priority !== 'all' ? Number(priority) : undefined,
+      }),
+    [moves, search, type, category, minPower, maxPower, minAccuracy, maxAccuracy, priority],
+  );
+
+  const hasActiveFilters =
+    search.trim() ||
+    type !== 'all' ||
+    category !== 'all' ||
+    minPower ||
+    maxPower ||
+    minAccuracy ||
+    maxAccuracy ||
+    priority !== 'all';
+
+  /** Reset all active filters to their defaults. */
+  const clearFilters = () => {
+    setSearch('');
+    setType('all');
+    setCategory('all');
+    setMinPower('');
+    setMaxPower('');
+    setMinAccuracy('');
+    setMaxAccuracy('');
+    setPriority('all');
+  };
+
+  if (error) {
+    return (
+      <>
+        <Breadcrumbs items={[{ label: `Moves (${currentGame})` }]} />
+        <ErrorBoundary error={error} onRetry={() => refetch()} title="Failed to load moves" />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: `Moves (${currentGame})` }]} />
+
+      <Card className="p-4 mb-3">
+        <div className="text-center space-y-2 mb-4">
+          <h1 className="text-3xl font-bold text-foreground">Moves – {currentGame}</h1>
+          <p className="lead text-muted-foreground">Every move with this hack's power, accuracy, and typing</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-12 gap-3 sm:items-end mb-4">
+          <div className="col-span-full lg:col-span-1 xl:col-span-3">
+            <div className="input-group">
+              <span className="input-group-text">
+                <Search className="text-muted-foreground h-4 w-4" />
+              </span>
+              <input
+                type="search"
+                className="form-control"
+                placeholder="Search moves"
+                aria-label="Search moves"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                data-testid="move-search"
+              />
+            </div>
+          </div>
+
+          <div className="form-floating col-span-full lg:col-span-1 xl:col-span-2">
+            <select
+              className="form-select"
+              id="moveType"
+              value={type}
+              onChange={(e) => setType(e.target.value)}
+              data-testid="move-type-filter"
+            >
+              <option value="all">All Types</option>
+              {types.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+            <label htmlFor="moveType">Type</label>
+          </div>
+
+          <div className="col-span-full lg:col-span-1 xl:col-span-3">
+            <span className="form-label text-sm mb-1 d-block">Category</span>
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Category" data-testid="move-category-filter">
+              {categories.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  className={`rounded ${category === c ? 'ring-2 ring-primary' : 'opacity-60 hover:opacity-100'}`}
+                  aria-pressed={category === c}
+                  onClick={() => setCategory(category === c ? 'all' : c)}
+                >
+                  <MoveCategoryBadge category={c} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="form-floating col-span-full lg:col-span-1 xl:col-span-2">
+            <select
+              className="form-select"
+              id="movePriority"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+              data-testid="move-priority-filter"
+            >
+              <option value="all">Any</option>
+              {priorities.map((p) => (
+                <option key={p} value={p}>
+                  {formatPriority(p)}
+                </option>
+              ))}
+            </select>
+            <label htmlFor="movePriority">Priority</label>
+          </div>
+
+          <RangeInputs
+            id="move-power"
+            label="Power"
+            min={minPower}
+            max={maxPower}
+            onMin={setMinPower}
+            onMax={setMaxPower}
+          />
+          <RangeInputs
+            id="move-accuracy"
+            label="Accuracy"
+            min={minAccuracy}
+            max={maxAccuracy}
+            onMin={setMinAccuracy}
+            onMax={setMaxAccuracy}
+          />
+
+          {hasActiveFilters && (
+            <Button
+              variant="outline"
+              className="col-span-full lg:col-span-1 xl:col-span-2 px-3 py-2"
+              onClick={clearFilters}
+              data-testid="clear-filters"
+            >
+              <X className="h-4 w-4 me-2" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <LoadingSkeleton count={10} className="h-8" />
+        ) : filtered.length ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Showing {filtered.length} of {moves.length} moves
+            </p>
+            <div className="overflow-x-auto">
+              <table className="table table-sm align-middle text-sm mb-0" data-testid="moves-table">
+                <thead>
+                  <tr>
+                    <th>Move</th>
+                    <th>Type</th>
+                    <th>Category</th>
+                    <th className="text-end">Power</th>
+                    <th className="text-end">Accuracy</th>
+                    <th className="text-end">PP</th>
+                    <th className="text-end">Priority</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filtered.map((move) => (
+                    <tr key={move.move_id}>
+                      <td>
+                        <Link href={`/move/${move.move_id}?game=${currentGame}`} className="font-medium underline">
+                          {move.name}
+                        </Link>
+                      </td>
+                      <td>
+                        <TypeBadge type={move.type_id} />
+                      </td>
+                      <td>
+                        <MoveCategoryBadge category={move.category} />
+                      </td>
+                      <td className="text-end tabular-nums">{move.power ?? '—'}</td>
+                      <td className="text-end tabular-nums">{move.accuracy ? `${move.accuracy}%` : '—'}</td>
+                      <td className="text-end tabular-nums">{move.pp ?? '—'}</td>
+                      <td className="text-end tabular-nums">{formatPriority(move.priority ?? 0)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-semibold text-foreground mb-2">No Moves Found</h3>
+            <p className="text-muted-foreground mb-4">
+              {hasActiveFilters ? 'Try adjusting your search or filters' : 'No moves available for this game'}
+            </p>
+            {hasActiveFilters && <Button onClick={clearFilters}>Clear Filters</Button>}
+          </div>
+        )}
+      </Card>
+    </>
+  );
+}
@@ -1,14 +1,13 @@
 /**
  * Pokédex page.
- * Displays Pokémon with search and type filters in a responsive 1/2/12-column
- * grid, accessible validation messaging, and game-aware headings/breadcrumbs
- * so users always know which ROM hack they are browsing.
+ * Displays Pokémon with search, type, and evolution stage filters in a
+ * responsive 1/2/12-column grid, accessible validation messaging, and
+ * game-aware headings/breadcrumbs so users always know which ROM hack they
+ * are browsing.
 */
 import '@/index.css';
 import { useEffect, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
 import { useLocation, useSearch } from 'wouter';
-import { supabase } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { PokemonCard } from '@/components/pokemon/PokemonCard';
@@ -16,7 +15,8 @@ import { PokemonCardSkeleton } from '@/components/ui/loading-skeleton';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
 import { useGame } from '@/hooks/use-game';
-import { PokedexEntry } from '@/types/database';
+import { usePokedex } from '@/hooks/use-pokedex';
+import { EvolutionStage, PokedexEntry } from '@/types/database';
 import { Search, X } from 'lucide-react';
 
 const pokemonTypes = [
@@ -40,6 +40,11 @@ const pokemonTypes = [
   'Fairy',
 ];
 
+const evolutionStages: { value: EvolutionStage; label: string }[] = [
+  { value: 'unevolved', label: 'Unevolved' },
+  { value: 'fully-evolved', label: 'Fully evolved' },
+];
+
 /**
  * Main Pokédex component containing query logic and form control handlers.
  */
@@ -47,6 +52,7 @@ export default function Pokedex() {
   const { currentGame } = useGame();
   const [search, setSearch] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [stageFilter, setStageFilter] = useState<EvolutionStage | 'all'>('all');
   const [searchError, setSearchError] = useState('');
   const perPage = 60;
   const searchQuery = useSearch();
@@ -65,34 +71,14 @@ export default function Pokedex() {
   // Reset to first page whenever filters change
   useEffect(() => {
     setPage(1);
-  }, [search, typeFilter, currentGame]);
-
-  const { data, isLoading, error, refetch } = useQuery<{ items: PokedexEntry[]; total: number }>({
-    queryKey: ['pokedex', currentGame, search, typeFilter, page],
-    staleTime: 5 * 60 * 1000,
-    gcTime: 15 * 60 * 1000,
-    placeholderData: (prev) => prev,
-    queryFn: async () => {
-      let query = supabase
-        .from('v_pokedex_app')
-        .select('*', { count: 'exact' })
-        .eq('game_id', currentGame)
-        .order('display_name');
-
-      if (search.trim()) {
-        query = query.ilike('display_name', `%${search.trim()}%`);
-      }
+  }, [search, typeFilter, stageFilter, currentGame]);
 
-      if (typeFilter && typeFilter !== 'all') {
-        query = query.or(`type1_id.ilike.%${typeFilter}%,type2_id.ilike.%${typeFilter}%`);
-      }
-
-      const from = (page - 1) * perPage;
-      const to = from + perPage - 1;
-      const { data, error, count } = await query.range(from, to);
-      if (error) throw error;
-      return { items: data || [], total: count || 0 };
-    },
+  const { data, isLoading, error, refetch } = usePokedex(currentGame, {
+    search: search.trim(),
+    type: typeFilter !== 'all' ? typeFilter : undefined,
+    stage: stageFilter !== 'all' ? stageFilter : undefined,
+    page,
+    perPage,
   });
 
   const pokemon = data?.items ?? [];
@@ -112,10 +98,11 @@ export default function Pokedex() {
   const clearFilters = () => {
     setSearch('');
     setTypeFilter('all');
+    setStageFilter('all');
     setSearchError('');
   };
 
-  const hasActiveFilters = search.trim() || typeFilter !== 'all';
+  const hasActiveFilters = search.trim() || typeFilter !== 'all' || stageFilter !== 'all';
 
   if (error) {
     return (
@@ -146,7 +133,7 @@ export default function Pokedex() {
 
             {/* Filters */}
             <div className="col-span-full grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-12 gap-3 sm:items-center">
-              <div className="col-span-full lg:col-span-1 xl:col-span-6">
+              <div className="col-span-full lg:col-span-1 xl:col-span-4">
                 <div className="input-group">
                   <span className="input-group-text" id="search-icon">
                     <Search className="text-muted-foreground h-4 w-4" />
@@ -193,6 +180,28 @@ export default function Pokedex() {
                 <div id="typeError" className="invalid-feedback">Invalid type</div>
               </div>
 
+              <div className="form-floating w-full col-span-full lg:col-span-1 xl:col-span-2">
+                <select
+                  className="form-select"
+                  id="stageFilter"
+                  value={stageFilter}
+                  onChange={(e) => setStageFilter(e.target.value as EvolutionStage | 'all')}
+                  aria-describedby="stageHelp"
+                  data-testid="stage-filter"
+                >
+                  <option value="all">All Stages</option>
+                  {evolutionStages.map((stage) => (
+                    <option key={stage.value} value={stage.value}>
+                      {stage.label}
+                    </option>
+                  ))}
+                </select>
+                <label htmlFor="stageFilter">Evolution stage</label>
+                <div id="stageHelp" className="form-text">
+                  First stages or final forms
+                </div>
+              </div>
+
               {hasActiveFilters && (
                 <Button
                   variant="outline"
@@ -1,19 +1,103 @@
 /**
- * @file Preflight connectivity check page ensuring the database is reachable
- * before loading the main application. Displays status messages in centered
- * cards with clear focus states.
+ * @file Preflight diagnostics page ensuring every contract view is reachable
+ * before loading the main application. Lists one check per view with its
+ * query, row count, sample row, and missing columns, lets each check be
+ * retried, and offers a degraded mode when some views are unavailable.
+ * Optional views are listed too, but their failures show as warnings.
  */
 import '@/index.css';
-import { usePreflight } from '@/hooks/use-preflight';
+import { usePreflight, useRetryPreflightCheck } from '@/hooks/use-preflight';
 import { useGame } from '@/hooks/use-game';
-import { Card, CardContent } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
-import { AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import type { PreflightCheck } from '@/types/database';
+import { AlertTriangle, CheckCircle, RefreshCw, XCircle } from 'lucide-react';
 
-export default function Preflight() {
+interface PreflightProps {
+  /** Dismiss the report and load the app with failing views. */
+  onContinue?: () => void;
+}
+
+/**
+ * One view's check with its query, outcome, and a Retry for that view only.
+ */
+function CheckRow({
+  check,
+  retrying,
+  onRetry,
+}: {
+  check: PreflightCheck;
+  retrying: boolean;
+  onRetry: () => void;
+}) {
+  return (
+    <li
+      className="border border-border/40 rounded-lg p-3 space-y-2"
+      data-testid={`preflight-check-${check.view}`}
+    >
+      <div className="d-flex align-items-center gap-2">
+        {check.ok ? (
+          <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" aria-hidden />
+        ) : check.optional ? (
+          <AlertTriangle className="h-5 w-5 text-yellow-500 flex-shrink-0" aria-hidden />
+        ) : (
+          <XCircle className="h-5 w-5 text-destructive flex-shrink-0" aria-hidden />
+        )}
+        <span className="font-mono font-medium">{check.view}</span>
+        {check.optional && <Badge variant="secondary">Optional</Badge>}
+        <Badge variant="outline" className="ms-auto">
+          {check.count === null ? 'no count' : `${check.count.toLocaleString()} rows`}
+        </Badge>
+        {!check.ok && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onRetry}
+            disabled={retrying}
+            data-testid={`preflight-retry-${check.view}`}
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${retrying ? 'animate-spin' : ''}`} />
+            Retry
+          </Button>
+        )}
+      </div>
+
+      <code className="d-block text-xs text-muted-foreground text-break">{check.query}</code>
+
+      {check.error && (
+        <p className={`text-sm mb-0 ${check.optional ? 'text-muted-foreground' : 'text-destructive'}`}>
+          {check.error}
+        </p>
+      )}
+
+      {check.missingColumns.length > 0 && (
+        <div className="d-flex flex-wrap gap-1">
+          {check.missingColumns.map((column) => (
+            <Badge key={column} variant="destructive" className="font-mono text-[10px]">
+              {column}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {check.sample && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-muted-foreground">Sample row</summary>
+          <pre className="mt-2 p-2 bg-muted/30 rounded max-h-60 overflow-auto">
+            {JSON.stringify(check.sample, null, 2)}
+          </pre>
+        </details>
+      )}
+    </li>
+  );
+}
+
+export default function Preflight({ onContinue }: PreflightProps) {
   const { currentGame } = useGame();
-  const { data: preflightResult, isLoading, error, refetch } = usePreflight(currentGame);
+  const { data: preflightResult, isLoading, isFetching, error, refetch } = usePreflight(currentGame);
+  const retryCheck = useRetryPreflightCheck(currentGame);
 
   if (isLoading) {
     return (
@@ -34,33 +118,67 @@ export default function Preflight() {
   }
 
   if (error || !preflightResult?.isReady) {
+    const checks = preflightResult?.checks ?? [];
+    const required = checks.filter((c) => !c.optional);
+    const failing = required.filter((c) => !c.ok).length;
+
     return (
-      <div className="min-h-screen grid place-items-center">
-        <Card className="w-full max-w-md mx-4">
-          <CardContent className="p-4 text-center">
-            <AlertTriangle className="h-12 w-12 text-destructive mx-auto mb-4" />
-            <h2 className="text-xl font-bold text-destructive mb-2">
-              Database Connection Failed
-            </h2>
-            <p className="text-muted-foreground mb-4 text-sm">
-              {preflightResult?.error || error?.toString() || 'Unknown error occurred'}
-            </p>
-            <Button onClick={() => refetch()} data-testid="preflight-retry">
-              <RefreshCw className="h-4 w-4 mr-2" />
-              Try Again
-            </Button>
-            
-            <div className="mt-6 p-4 bg-muted/30 rounded-lg text-left">
-              <h3 className="font-semibold text-foreground mb-2">Troubleshooting:</h3>
-              <ul className="text-sm text-muted-foreground space-y-1">
-                <li>• Check VITE_SUPABASE_URL in Replit Secrets</li>
-                <li>• Check VITE_SUPABASE_ANON_KEY in Replit Secrets</li>
-                <li>• Verify database views are deployed</li>
-                <li>• Ensure RLS policies allow anon access</li>
-              </ul>
-            </div>
-          </CardContent>
-        </Card>
+      <div className="min-h-screen py-8">
+        <div className="max-w-3xl mx-auto px-4 space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="d-flex align-items-center gap-2 text-destructive">
+                <AlertTriangle className="h-6 w-6" />
+                Database Checks Failed
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-muted-foreground text-sm mb-0">
+                {checks.length
+                  ? `${failing} of ${required.length} required contract views failed for ${currentGame}` +
+                    (preflightResult?.source ? ` on the ${preflightResult.source} data source.` : '.')
+                  : error?.message || preflightResult?.error || 'Unknown error occurred'}
+              </p>
+              <div className="d-flex flex-wrap gap-2">
+                <Button onClick={() => refetch()} disabled={isFetching} data-testid="preflight-retry">
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                  Retry All
+                </Button>
+                {onContinue && (
+                  <Button variant="outline" onClick={onContinue} data-testid="preflight-continue">
+                    Continue in degraded mode
+                  </Button>
+                )}
+              </div>
+              {retryCheck.error && (
+                <p className="text-sm text-destructive mb-0">{retryCheck.error.message}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {checks.length > 0 && (
+            <ul className="list-unstyled space-y-3 mb-0">
+              {checks.map((check) => (
+                <CheckRow
+                  key={check.view}
+                  check={check}
+                  retrying={retryCheck.isPending && retryCheck.variables === check.view}
+                  onRetry={() => retryCheck.mutate(check.view)}
+                />
+              ))}
+            </ul>
+          )}
+
+          <div className="p-4 bg-muted/30 rounded-lg text-left">
+            <h3 className="font-semibold text-foreground mb-2">Troubleshooting:</h3>
+            <ul className="text-sm text-muted-foreground space-y-1">
+              <li>• Check SUPABASE_URL in Replit Secrets</li>
+              <li>• Check SUPABASE_ANON_KEY in Replit Secrets</li>
+              <li>• Verify database views are deployed</li>
+              <li>• Ensure RLS policies allow anon access</li>
+            </ul>
+          </div>
+        </div>
       </div>
     );
   }
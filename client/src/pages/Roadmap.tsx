@@ -0,0 +1,156 @@
+/**
+ * @file Gauntlet roadmap.
+ * A vertical timeline of the game's story splits, each with its level cap,
+ * the bosses that end it, the routes it opens, and the Pokémon first found
+ * in the wild there. The split the current run has reached, judged by the
+ * routes it has logged encounters on, is highlighted.
+ */
+import '@/index.css';
+import { Link } from 'wouter';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { Sprite } from '@/components/common/Sprite';
+import { cn } from '@/lib/utils';
+import { useGame } from '@/hooks/use-game';
+import { useCurrentRun } from '@/hooks/use-run';
+import { useSplits } from '@/hooks/use-splits';
+import { useLeaderTrainers } from '@/hooks/use-trainers';
+import { runEncounters } from '@/lib/run';
+import { currentSplitIndex, levelCaps } from '@/lib/splits';
+import { Crown, MapPin, Shield } from 'lucide-react';
+
+export default function Roadmap() {
+  const { currentGame } = useGame();
+  const { data: splits = [], isLoading } = useSplits(currentGame);
+  const { data: leaders } = useLeaderTrainers(currentGame);
+  const run = useCurrentRun();
+
+  const caps = levelCaps(splits);
+  const current = run ? currentSplitIndex(splits, runEncounters(run).map((e) => e.routeId)) : undefined;
+  const bosses = (split: string) => leaders?.items.filter((t) => t.split === split) ?? [];
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: `Roadmap (${currentGame})` }]} />
+
+      <div className="space-y-4">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Roadmap – {currentGame}</h1>
+          <p className="lead text-muted-foreground mb-0">Level caps, bosses, routes, and new Pokémon split by split</p>
+        </div>
+
+        {isLoading ? (
+          <LoadingSkeleton count={6} className="h-24 mb-4" />
+        ) : splits.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12 text-muted-foreground">
+              This game's trainers have no story splits.
+            </CardContent>
+          </Card>
+        ) : (
+          <ol className="list-none p-0 m-0 border-start border-2 ms-3" data-testid="roadmap">
+            {splits.map((split, i) => {
+              const isCurrent = i === current;
+              return (
+                <li key={split.name} className="position-relative ps-4 pb-4" data-testid={`roadmap-split-${i}`}>
+                  <span
+                    aria-hidden="true"
+                    className={cn(
+                      'position-absolute top-0 start-0 translate-middle-x mt-4 w-4 h-4',
+                      'rounded-full border-2 border-background',
+                      isCurrent ? 'bg-primary' : i < (current ?? -1) ? 'bg-muted-foreground' : 'bg-muted',
+                    )}
+                  />
+                  <Card
+                    className={cn(isCurrent && 'ring-2 ring-primary')}
+                    aria-current={isCurrent ? 'step' : undefined}
+                  >
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h2 className="text-xl font-semibold mb-0">
+                          <Link
+                            href={`/split/${encodeURIComponent(split.name)}?game=${currentGame}`}
+                            className="underline"
+                          >
+                            {split.name}
+                          </Link>
+                        </h2>
+                        {caps[i] !== undefined && (
+                          <Badge variant="destructive" className="font-mono">
+                            Cap Lv.{caps[i]}
+                          </Badge>
+                        )}
+                        {isCurrent && <Badge>You are here</Badge>}
+                      </div>
+
+                      {bosses(split.name).length > 0 && (
+                        <div className="flex flex-wrap gap-2" data-testid="roadmap-bosses">
+                          {bosses(split.name).map((t) => (
+                            <Link
+                              key={`${t.trainer_id}-${t.variant_key}`}
+                              href={`/trainer/${t.trainer_id}?game=${currentGame}`}
+                              className="inline-flex items-center gap-1 text-sm underline"
+                            >
+                              {t.is_leader ? <Shield className="w-4 h-4" /> : <Crown className="w-4 h-4" />}
+                              {t.trainer_name}
+                              {t.variant_key !== 'default' && ` (${t.variant_label})`}
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+
+                      {split.routes.length > 0 && (
+                        <div>
+                          <h3 className="text-sm font-medium text-muted-foreground mb-1">New routes</h3>
+                          <div className="flex flex-wrap gap-1">
+                            {split.routes.map((r) => (
+                              <Link
+                                key={r.route_id}
+                                href={`/encounters?game=${currentGame}&route=${r.route_id}`}
+                                className="inline-flex items-center gap-1 rounded bg-muted/40 px-2 py-0.5 text-xs"
+                              >
+                                <MapPin className="w-3 h-3" />
+                                {r.route_name}
+                              </Link>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {split.encounters.length > 0 && (
+                        <div>
+                          <h3 className="text-sm font-medium text-muted-foreground mb-1">
+                            New encounters ({split.encounters.length})
+                          </h3>
+                          <div className="flex flex-wrap gap-1">
+                            {split.encounters.map((e) => (
+                              <Link
+                                key={e.forme_id}
+                                href={`/pokemon/${e.forme_id}?game=${currentGame}`}
+                                title={e.forme_label}
+                              >
+                                <Sprite
+                                  src={e.sprite_default_url}
+                                  alt={e.forme_label}
+                                  size={40}
+                                  width={40}
+                                  height={40}
+                                />
+                              </Link>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </>
+  );
+}
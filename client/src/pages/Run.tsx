@@ -0,0 +1,398 @@
+/**
+ * @file Nuzlocke run page.
+ * Starts a run for the active game with a rule set, logs the encounter of
+ * each route, and tracks every catch across party, box, and graveyard.
+ * Encounters, party, and logged item use are checked against the rule set,
+ * and anything that breaks it is listed as a warning. The run is stored
+ * locally per game; a `route` query parameter preselects the route to log,
+ * which the Encounters page uses for its shortcut.
+ */
+import '@/index.css';
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { CatchCard } from '@/components/run/CatchCard';
+import { EncounterForm } from '@/components/run/EncounterForm';
+import { OutcomeBadge } from '@/components/run/OutcomeBadge';
+import { useGame } from '@/hooks/use-game';
+import { useRoutes } from '@/hooks/use-encounters';
+import { useEvolutionFamilies } from '@/hooks/use-pokedex';
+import { useCurrentRun, useRun } from '@/hooks/use-run';
+import { useSearchParams } from '@/hooks/use-search-params';
+import { gameTypeChart } from '@/lib/games';
+import {
+  encounterKey,
+  PARTY_SIZE,
+  RUN_BOXES,
+  runEncounters,
+  runPokemon,
+  usedRouteIds,
+  type Run as RunModel,
+  type RuleSetId,
+} from '@/lib/run';
+import {
+  RULE_SET_LIST,
+  RULE_SETS,
+  ruleSetOf,
+  ruleWarnings,
+  rerollChecker,
+  type FamilyOf,
+  type RuleSet,
+} from '@/lib/rules';
+import { AlertTriangle, Flag, Trash2 } from 'lucide-react';
+
+function StartRun({
+  types,
+  onStart,
+}: {
+  /** Types that exist in the current game. */
+  types: readonly string[];
+  onStart: (ruleSet: RuleSetId, monotype?: string) => void;
+}) {
+  const [ruleSet, setRuleSet] = useState<RuleSetId>('standard');
+  const [monotype, setMonotype] = useState<string>(types[0]);
+  const needsType = RULE_SETS[ruleSet].monotype;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Start a run</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="row g-2 align-items-end">
+          <div className="col-12 col-md-4">
+            <label htmlFor="run-rule-set" className="form-label">
+              Rule set
+            </label>
+            <select
+              id="run-rule-set"
+              className="form-select"
+              value={ruleSet}
+              onChange={(e) => setRuleSet(e.target.value as RuleSetId)}
+            >
+              {RULE_SET_LIST.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {needsType && (
+            <div className="col-12 col-md-3">
+              <label htmlFor="run-monotype" className="form-label">
+                Type
+              </label>
+              <select
+                id="run-monotype"
+                className="form-select text-capitalize"
+                value={monotype}
+                onChange={(e) => setMonotype(e.target.value)}
+              >
+                {types.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="col-12 col-md-3">
+            <Button onClick={() => onStart(ruleSet, needsType ? monotype : undefined)} data-testid="start-run">
+              <Flag className="h-4 w-4" />
+              Start run
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground mt-3 mb-0">{RULE_SETS[ruleSet].description}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Clauses of the rule set, warnings for the run, and the item-use log. */
+function RulesPanel({
+  run,
+  ruleSet,
+  familyOf,
+  onLogItem,
+  onRemoveEvent,
+}: {
+  run: RunModel;
+  ruleSet: RuleSet;
+  familyOf: FamilyOf;
+  onLogItem: (item: string) => void;
+  onRemoveEvent: (index: number) => void;
+}) {
+  const [item, setItem] = useState('');
+  const warnings = useMemo(() => ruleWarnings(run, ruleSet, familyOf), [run, ruleSet, familyOf]);
+  const clauses = [
+    ruleSet.dupesClause && 'Dupes clause',
+    ruleSet.speciesClause && 'Species clause',
+    ruleSet.shinyClause && 'Shiny clause',
+    !ruleSet.battleItems && 'No items in battle',
+    ruleSet.pairedParty && 'Paired party',
+    ruleSet.monotype && `Monotype${run.monotype ? `: ${run.monotype}` : ''}`,
+  ].filter((c): c is string => Boolean(c));
+
+  const logItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item.trim()) return;
+    onLogItem(item.trim());
+    setItem('');
+  };
+
+  return (
+    <Card data-testid="run-rules">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Rules</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="d-flex flex-wrap gap-1">
+          {clauses.map((c) => (
+            <Badge key={c} variant="outline" className="text-capitalize">
+              {c}
+            </Badge>
+          ))}
+        </div>
+        {warnings.length > 0 ? (
+          <ul className="list-unstyled mb-0 space-y-1" data-testid="rule-warnings">
+            {warnings.map((w, i) => (
+              <li key={`${w.key ?? 'run'}-${i}`} className="d-flex gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                {w.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground mb-0">No rules broken so far.</p>
+        )}
+        <form className="row g-2 align-items-end" onSubmit={logItem}>
+          <div className="col-8 col-md-4">
+            <label htmlFor="run-item" className="form-label">
+              Item used in battle
+            </label>
+            <input
+              id="run-item"
+              className="form-control"
+              placeholder="e.g. Hyper Potion"
+              value={item}
+              onChange={(e) => setItem(e.target.value)}
+            />
+          </div>
+          <div className="col-4 col-md-2">
+            <Button type="submit" variant="outline" disabled={!item.trim()}>
+              Log item
+            </Button>
+          </div>
+        </form>
+        {run.events.length > 0 && (
+          <ul className="list-group list-group-flush text-sm">
+            {run.events.map((event, i) => (
+              <li key={`${event.at}-${i}`} className="list-group-item d-flex align-items-center gap-2 px-0">
+                {event.item}
+                <span className="text-muted-foreground">{new Date(event.at).toLocaleString()}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ms-auto"
+                  onClick={() => onRemoveEvent(i)}
+                  aria-label={`Remove ${event.item}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function EncounterLog({ run, onRemove }: { run: RunModel; onRemove: (key: string) => void }) {
+  const encounters = runEncounters(run).reverse();
+  if (!encounters.length) {
+    return <p className="text-muted-foreground mb-0">No encounters logged yet.</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-sm align-middle text-sm mb-0" data-testid="encounter-log">
+        <thead>
+          <tr>
+            <th>Route</th>
+            <th>Outcome</th>
+            <th>Pokémon</th>
+            <th className="text-end">
+              <span className="sr-only">Actions</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {encounters.map((e) => (
+            <tr key={encounterKey(e)}>
+              <td>
+                <Link href={`/encounters?game=${run.gameId}&route=${e.routeId}`} className="underline">
+                  {e.routeName}
+                </Link>
+              </td>
+              <td>
+                <OutcomeBadge outcome={e.outcome} />
+              </td>
+              <td>
+                {e.species ?? '—'}
+                {e.nickname && <span className="text-muted-foreground"> “{e.nickname}”</span>}
+                {e.bonus && <span className="text-muted-foreground"> (shiny bonus)</span>}
+              </td>
+              <td className="text-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(encounterKey(e))}
+                  aria-label={`Remove encounter on ${e.routeName}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function Run() {
+  const { currentGame } = useGame();
+  const run = useCurrentRun();
+  const actions = useRun();
+  const { data: routes } = useRoutes(currentGame);
+  const [params] = useSearchParams();
+
+  const endRun = () => {
+    if (window.confirm(`End the ${currentGame} run? Its encounters and catches will be deleted.`)) {
+      actions.endRun(currentGame);
+    }
+  };
+
+  const ruleSet = run ? ruleSetOf(run) : undefined;
+  const familyOf = useEvolutionFamilies(currentGame);
+  const reroll = useMemo(
+    () => (run && ruleSet ? rerollChecker(run, ruleSet, familyOf) : () => undefined),
+    [run, ruleSet, familyOf],
+  );
+  const routeCount = routes?.length ?? 0;
+  const usedCount = usedRouteIds(run).size;
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: `Run (${currentGame})` }]} />
+
+      <div className="space-y-4">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Nuzlocke Run – {currentGame}</h1>
+          <p className="lead text-muted-foreground mb-0">
+            Log each route's encounter and keep track of your party, box, and graveyard
+          </p>
+        </div>
+
+        {!run || !ruleSet ? (
+          <StartRun
+            types={gameTypeChart(currentGame).types}
+            onStart={(id, monotype) => actions.startRun(currentGame, id, monotype)}
+          />
+        ) : (
+          <>
+            <Card>
+              <CardContent className="pt-6 d-flex flex-wrap align-items-center gap-3">
+                <Badge variant="secondary" data-testid="run-rule-set">
+                  {ruleSet.label} rules
+                </Badge>
+                <span className="text-sm text-muted-foreground">
+                  Started {new Date(run.startedAt).toLocaleDateString()}
+                </span>
+                <span className="text-sm" data-testid="run-progress">
+                  {usedCount}
+                  {routeCount > 0 && ` / ${routeCount}`} routes used
+                </span>
+                <Button variant="outline" size="sm" className="ms-auto" onClick={endRun}>
+                  End run
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Log encounter</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EncounterForm
+                  run={run}
+                  ruleSet={ruleSet}
+                  reroll={reroll}
+                  routes={routes ?? []}
+                  initialRouteId={params.get('route') ?? undefined}
+                  onSubmit={(encounter) => actions.recordEncounter(currentGame, encounter)}
+                />
+              </CardContent>
+            </Card>
+
+            <RulesPanel
+              run={run}
+              ruleSet={ruleSet}
+              familyOf={familyOf}
+              onLogItem={(item) => actions.recordEvent(currentGame, { kind: 'item-used', item })}
+              onRemoveEvent={(index) => actions.removeEvent(currentGame, index)}
+            />
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              {RUN_BOXES.map(({ value: box, label }) => {
+                const pokemon = runPokemon(run, box);
+                return (
+                  <Card key={box} data-testid={`run-${box}`}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg">
+                        {label}{' '}
+                        <span className="text-sm text-muted-foreground">
+                          ({pokemon.length}
+                          {box === 'party' && `/${PARTY_SIZE}`})
+                        </span>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {pokemon.length ? (
+                        <ul className="list-group">
+                          {pokemon.map((e) => (
+                            <CatchCard
+                              key={encounterKey(e)}
+                              run={run}
+                              encounter={e}
+                              onChange={(patch) => actions.updateCatch(currentGame, encounterKey(e), patch)}
+                              onMove={(to) => actions.moveCatch(currentGame, encounterKey(e), to)}
+                            />
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-muted-foreground mb-0">Empty.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Encounter log</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EncounterLog run={run} onRemove={(key) => actions.removeEncounter(currentGame, key)} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
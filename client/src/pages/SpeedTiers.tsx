@@ -0,0 +1,198 @@
+/**
+ * @file Speed tier explorer.
+ * Lists every trainer Pokémon of a story split by computed Speed, using its
+ * level, nature, and the game's estimated trainer IVs, with markers for Choice Scarf,
+ * Quick Claw, Trick Room, and attacking priority. The user's own Pokémon
+ * can be added at the split's level cap to see who they outspeed. The split
+ * is kept in the `split` query parameter.
+ */
+import '@/index.css';
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { PokemonPicker } from '@/components/pokemon/PokemonPicker';
+import { cn } from '@/lib/utils';
+import { useGame } from '@/hooks/use-game';
+import { usePokemonDetails } from '@/hooks/use-pokedex';
+import { useCurrentRun } from '@/hooks/use-run';
+import { useSearchParams } from '@/hooks/use-search-params';
+import { useSplits, useSplitSpeeds } from '@/hooks/use-splits';
+import { trainerIv } from '@/lib/games';
+import { runPokemon } from '@/lib/run';
+import { levelCaps } from '@/lib/splits';
+import { ownSpeedEntry, sortBySpeed, SPEED_MODIFIER_RULES, trainerSpeedEntry } from '@/lib/speed';
+import { X } from 'lucide-react';
+
+/** Level for the user's Pokémon when the split has no level cap. */
+const DEFAULT_LEVEL = 50;
+
+export default function SpeedTiers() {
+  const { currentGame } = useGame();
+  const [params, setParams] = useSearchParams();
+  const { data: splits = [] } = useSplits(currentGame);
+  const split = params.get('split') ?? splits[0]?.name;
+  const { data: members = [], isLoading } = useSplitSpeeds(currentGame, split);
+  const run = useCurrentRun();
+  const [ownIds, setOwnIds] = useState<string[]>([]);
+  const { data: ownDetails } = usePokemonDetails(currentGame, ownIds);
+
+  const splitIndex = splits.findIndex((s) => s.name === split);
+  const level = levelCaps(splits)[splitIndex] ?? DEFAULT_LEVEL;
+  const entries = sortBySpeed([
+    ...members.map((m) => trainerSpeedEntry(m, trainerIv(currentGame, m.trainer))),
+    ...ownIds.flatMap((id, i) => (ownDetails[id] ? [ownSpeedEntry(ownDetails[id], level, i)] : [])),
+  ]);
+  const partyIds = run ? runPokemon(run, 'party').flatMap((e) => (e.formeId ? [e.formeId] : [])) : [];
+
+  const selectSplit = (name: string) => {
+    const next = new URLSearchParams(params);
+    next.set('split', name);
+    setParams(next);
+  };
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: `Speed Tiers (${currentGame})` }]} />
+
+      <div className="space-y-4">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Speed Tiers – {currentGame}</h1>
+          <p className="lead text-muted-foreground mb-0">See which trainer Pokémon you outspeed before each boss</p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="row g-2 align-items-end">
+              <div className="col-12 col-md-4">
+                <label htmlFor="speed-split" className="form-label">
+                  Split
+                </label>
+                <select
+                  id="speed-split"
+                  className="form-select"
+                  value={split ?? ''}
+                  onChange={(e) => selectSplit(e.target.value)}
+                  data-testid="speed-split"
+                >
+                  {splits.map((s) => (
+                    <option key={s.name} value={s.name}>
+                      {s.name}
+                      {s.level_cap ? ` (cap ${s.level_cap})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-12 col-md-5">
+                <PokemonPicker
+                  label={`Add your Pokémon at Lv. ${level}`}
+                  onSelect={(p) => setOwnIds([...ownIds, p.forme_id])}
+                  data-testid="speed-add-pokemon"
+                />
+              </div>
+              <div className="col-12 col-md-3 d-flex gap-2">
+                {partyIds.length > 0 && (
+                  <Button variant="outline" onClick={() => setOwnIds([...ownIds, ...partyIds])}>
+                    Add my party
+                  </Button>
+                )}
+                {ownIds.length > 0 && (
+                  <Button variant="ghost" onClick={() => setOwnIds([])}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{split ?? 'No splits'}</CardTitle>
+            <p className="text-sm text-muted-foreground mb-0">
+              Trainer Pokémon use their recorded level and nature with estimated trainer IVs and no EVs, so
+              their Speeds are estimates. Yours use max IVs, no EVs, and a neutral nature, with the +Spe value
+              alongside.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <LoadingSkeleton count={8} className="h-8 mb-2" />
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground mb-0">No trainer Pokémon in this split.</p>
+            ) : (
+              <div className="table-responsive">
+                <table className="table table-sm align-middle text-sm mb-0" data-testid="speed-table">
+                  <thead>
+                    <tr>
+                      <th className="text-end">Speed</th>
+                      <th>Pokémon</th>
+                      <th className="text-end">Lv.</th>
+                      <th>Trainer</th>
+                      <th>Modifiers</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry) => (
+                      <tr key={entry.key} className={cn(!entry.trainer && 'table-primary')}>
+                        <td className="text-end tabular-nums font-semibold">
+                          {entry.speed}
+                          {entry.boosted !== undefined && (
+                            <span className="text-xs text-muted-foreground"> / {entry.boosted}</span>
+                          )}
+                        </td>
+                        <td>
+                          <Link href={`/pokemon/${entry.formeId}?game=${currentGame}`} className="underline">
+                            {entry.name}
+                          </Link>
+                        </td>
+                        <td className="text-end tabular-nums">{entry.level}</td>
+                        <td>
+                          {entry.trainer ? (
+                            <Link href={`/trainer/${entry.trainer.id}?game=${currentGame}`} className="underline">
+                              {entry.trainer.name}
+                            </Link>
+                          ) : (
+                            <span className="d-flex align-items-center gap-1">
+                              Yours
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-1"
+                                onClick={() => setOwnIds(ownIds.filter((_, i) => `own-${i}` !== entry.key))}
+                                aria-label={`Remove ${entry.name}`}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </span>
+                          )}
+                        </td>
+                        <td>
+                          <div className="flex flex-wrap gap-1">
+                            {entry.modifiers.map((m) => (
+                              <Badge
+                                key={m}
+                                variant="outline"
+                                className="text-xs"
+                                title={SPEED_MODIFIER_RULES[m].description}
+                              >
+                                {SPEED_MODIFIER_RULES[m].label}
+                              </Badge>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,292 @@
+/**
+ * @file Split overview page.
+ * Plans the stretch between two bosses on one page: the split's level cap,
+ * its trainers, the wild encounters on the routes it opens (routes belong
+ * to the first split with a trainer located on them), the key items and TMs
+ * obtained along the way, and the strongest Pokémon first catchable there by
+ * base stat total.
+ */
+import '@/index.css';
+import { useRoute, Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { LoadingSkeleton, TrainerCardSkeleton } from '@/components/ui/loading-skeleton';
+import { Sprite } from '@/components/common/Sprite';
+import { TypeBadge } from '@/components/pokemon/TypeBadge';
+import { TrainerCard } from '@/components/trainers/TrainerCard';
+import { useGame } from '@/hooks/use-game';
+import { useSplitEncounters, useSplitItems, useSplits } from '@/hooks/use-splits';
+import { useTrainers } from '@/hooks/use-trainers';
+import { levelCaps, strongestCatches } from '@/lib/splits';
+import type { ItemLocation, SplitRouteEncounter } from '@/types/database';
+import { ArrowLeft, ArrowRight, Gauge } from 'lucide-react';
+
+/** Trainers fetched for one split; splits rarely hold more. */
+const SPLIT_TRAINER_LIMIT = 200;
+
+/**
+ * Split name from the path. wouter decodes params with `decodeURI`, which
+ * leaves reserved characters such as an encoded `/` as escapes.
+ */
+function splitName(param: string | undefined) {
+  if (param === undefined) return undefined;
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    return param;
+  }
+}
+
+/** Item name with its machine number and move for TMs and HMs, e.g. `TM39 Rock Tomb`. */
+function itemLabel(item: ItemLocation) {
+  if (item.tm_no === undefined) return item.item_name;
+  return `${item.kind}${String(item.tm_no).padStart(2, '0')} ${item.move_name ?? item.item_name}`;
+}
+
+/** Encounters grouped by route, keeping route order. */
+function byRoute(encounters: SplitRouteEncounter[]) {
+  const groups = new Map<string, SplitRouteEncounter[]>();
+  for (const e of encounters) groups.set(e.route_id, [...(groups.get(e.route_id) ?? []), e]);
+  return Array.from(groups.values());
+}
+
+export default function SplitOverview() {
+  const [, params] = useRoute('/split/:name');
+  const name = splitName(params?.name);
+  const { currentGame } = useGame();
+  const { data: splits = [], isLoading } = useSplits(currentGame);
+  const { data: encounters = [], isLoading: encountersLoading } = useSplitEncounters(currentGame, name);
+  const { data: items = [], isLoading: itemsLoading } = useSplitItems(currentGame, name);
+  const { data: trainers, isLoading: trainersLoading } = useTrainers(currentGame, {
+    split: name,
+    page: 1,
+    perPage: SPLIT_TRAINER_LIMIT,
+  });
+
+  const index = splits.findIndex((s) => s.name === name);
+  const split = splits[index];
+  const previous = splits[index - 1];
+  const next = splits[index + 1];
+  const splitHref = (s: { name: string }) => `/split/${encodeURIComponent(s.name)}?game=${currentGame}`;
+
+  if (isLoading) {
+    return <LoadingSkeleton count={8} className="h-8 mb-4" />;
+  }
+
+  if (!split) {
+    return (
+      <>
+        <Breadcrumbs items={[{ label: 'Roadmap', href: `/roadmap?game=${currentGame}` }, { label: 'Not Found' }]} />
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            No split named “{name}” in {currentGame}.
+          </CardContent>
+        </Card>
+      </>
+    );
+  }
+
+  const cap = levelCaps(splits)[index];
+  const firstRoute = new Map(split.encounters.map((e) => [e.forme_id, e.route_id]));
+  const strongest = strongestCatches(split, encounters);
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: 'Roadmap', href: `/roadmap?game=${currentGame}` }, { label: split.name }]} />
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-bold text-foreground mb-0">{split.name}</h1>
+          {cap !== undefined && (
+            <Badge variant="destructive" className="font-mono">
+              Cap Lv.{cap}
+            </Badge>
+          )}
+          <div className="ms-auto flex gap-2">
+            {previous && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={splitHref(previous)}>
+                  <ArrowLeft className="w-4 h-4 me-1" />
+                  {previous.name}
+                </Link>
+              </Button>
+            )}
+            {next && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={splitHref(next)}>
+                  {next.name}
+                  <ArrowRight className="w-4 h-4 ms-1" />
+                </Link>
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/speed?game=${currentGame}&split=${encodeURIComponent(split.name)}`}>
+                <Gauge className="w-4 h-4 me-1" />
+                Speed tiers
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Strongest New Catches</CardTitle>
+            <p className="text-sm text-muted-foreground mb-0">
+              Pokémon first found in the wild here, by base stat total.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {encountersLoading ? (
+              <LoadingSkeleton count={3} className="h-8 mb-2" />
+            ) : strongest.length === 0 ? (
+              <p className="text-sm text-muted-foreground mb-0">No new Pokémon appear in this split.</p>
+            ) : (
+              <ol
+                className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2 list-none p-0 mb-0"
+                data-testid="strongest-catches"
+              >
+                {strongest.map((e) => (
+                  <li key={e.forme_id} className="flex items-center gap-2 rounded bg-muted/30 p-2">
+                    <Sprite src={e.sprite_default_url} alt={e.forme_label} size={40} width={40} height={40} />
+                    <div className="min-w-0">
+                      <Link href={`/pokemon/${e.forme_id}?game=${currentGame}`} className="font-medium underline">
+                        {e.forme_label}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        BST {e.base_stat_total ?? '—'} · {e.route_name}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Wild Encounters</CardTitle>
+            <p className="text-sm text-muted-foreground mb-0">
+              Routes first reached in this split. <Badge variant="secondary">New</Badge> marks Pokémon not found
+              earlier.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {encountersLoading ? (
+              <LoadingSkeleton count={6} className="h-8 mb-2" />
+            ) : encounters.length === 0 ? (
+              <p className="text-sm text-muted-foreground mb-0">No wild encounters on this split's routes.</p>
+            ) : (
+              byRoute(encounters).map((rows) => (
+                <div key={rows[0].route_id}>
+                  <h3 className="text-md font-semibold mb-2">
+                    <Link href={`/encounters?game=${currentGame}&route=${rows[0].route_id}`} className="underline">
+                      {rows[0].route_name}
+                    </Link>
+                  </h3>
+                  <table className="table table-sm align-middle text-sm mb-0">
+                    <thead>
+                      <tr>
+                        <th>Pokémon</th>
+                        <th>Types</th>
+                        <th>Method</th>
+                        <th className="text-end">Levels</th>
+                        <th className="text-end">Rate</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((e) => (
+                        <tr key={e.id}>
+                          <td>
+                            <Link href={`/pokemon/${e.forme_id}?game=${currentGame}`} className="underline">
+                              {e.forme_label}
+                            </Link>
+                            {firstRoute.get(e.forme_id) === e.route_id && (
+                              <Badge variant="secondary" className="ms-2 text-xs">
+                                New
+                              </Badge>
+                            )}
+                          </td>
+                          <td>
+                            <div className="flex gap-1">
+                              <TypeBadge type={e.type1_id} className="text-xs" />
+                              {e.type2_id && <TypeBadge type={e.type2_id} className="text-xs" />}
+                            </div>
+                          </td>
+                          <td>
+                            {e.method}
+                            {e.time_of_day ? ` (${e.time_of_day})` : ''}
+                          </td>
+                          <td className="text-end tabular-nums">
+                            {e.min_level === e.max_level ? e.min_level : `${e.min_level}–${e.max_level}`}
+                          </td>
+                          <td className="text-end tabular-nums">{e.rate}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card data-testid="split-items">
+          <CardHeader>
+            <CardTitle className="text-lg">Key Items &amp; TMs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {itemsLoading ? (
+              <LoadingSkeleton count={3} className="h-8 mb-2" />
+            ) : items.length === 0 ? (
+              <p className="text-sm text-muted-foreground mb-0">No key items or TMs recorded for this split.</p>
+            ) : (
+              <table className="table table-sm align-middle text-sm mb-0">
+                <thead>
+                  <tr>
+                    <th>Item</th>
+                    <th>Where</th>
+                    <th>How</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item) => (
+                    <tr key={item.id}>
+                      <td>
+                        {itemLabel(item)}
+                        {item.kind === 'KEY' && (
+                          <Badge variant="secondary" className="ms-2 text-xs">
+                            Key item
+                          </Badge>
+                        )}
+                      </td>
+                      <td>{item.route_name}</td>
+                      <td className="text-muted-foreground">{item.method ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Trainers ({trainers?.total ?? 0})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {trainersLoading ? (
+              <TrainerCardSkeleton />
+            ) : trainers?.items.length ? (
+              trainers.items.map((t) => <TrainerCard key={`${t.trainer_id}-${t.variant_key}`} trainer={t} />)
+            ) : (
+              <p className="text-sm text-muted-foreground mb-0">No trainers in this split.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * @file Team builder page.
+ * Assembles up to six Pokémon from the active game's Pokédex with moves from
+ * their learnsets, then reports offensive coverage, shared weaknesses, and
+ * speed tiers. Choosing a story split flags Pokémon not yet obtainable from
+ * its routes and moves learned above its level cap. Teams are saved by name
+ * per game.
+ */
+import '@/index.css';
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
+import { PokemonPicker } from '@/components/pokemon/PokemonPicker';
+import { TeamMemberCard } from '@/components/team/TeamMemberCard';
+import { TeamReport } from '@/components/team/TeamReport';
+import { useGame } from '@/hooks/use-game';
+import { useEvolutions, usePokemonDetails } from '@/hooks/use-pokedex';
+import { useSplits } from '@/hooks/use-splits';
+import { useTeamDraft, useTeams } from '@/hooks/use-teams';
+import { learnsetMoves } from '@/lib/builds';
+import { gameGeneration, gameTypeChart } from '@/lib/games';
+import { levelCaps, moveUnlockLevel, pokemonAvailability } from '@/lib/splits';
+import { addMember, emptyTeam, removeMember, setMemberMove, TEAM_SIZE } from '@/lib/team';
+import { Save, Trash2 } from 'lucide-react';
+
+/** Level for speed tiers when no split is chosen. */
+const DEFAULT_LEVEL = 50;
+
+export default function TeamBuilder() {
+  const { currentGame } = useGame();
+  const team = useTeamDraft(currentGame);
+  const savedTeams = useTeams((state) => state.saved[currentGame]);
+  const { setDraft, saveDraft, loadTeam, deleteTeam } = useTeams();
+  const { data: splits = [] } = useSplits(currentGame);
+  const { data: evolutions = [] } = useEvolutions(currentGame);
+  const { data: details } = usePokemonDetails(currentGame, team.members.map((m) => m.formeId));
+
+  const chart = gameTypeChart(currentGame);
+  const availableFrom = useMemo(() => pokemonAvailability(splits, evolutions), [splits, evolutions]);
+  const splitIndex = splits.findIndex((s) => s.name === team.split);
+  const split = splits[splitIndex];
+  const levelCap = split ? levelCaps(splits)[splitIndex] : undefined;
+
+  const unavailable = (formeId: string, name: string): string | undefined => {
+    if (!split) return undefined;
+    const from = availableFrom.get(formeId);
+    if (from === undefined) return `${name} is not found in the wild or by evolution; look for a gift or trade.`;
+    if (from > splitIndex) return `${name} is first obtainable in ${splits[from].name}.`;
+    return undefined;
+  };
+
+  const lateMoves = (formeId: string, moves: string[]): Record<string, number> => {
+    const detail = details[formeId];
+    if (!detail || levelCap === undefined) return {};
+    return Object.fromEntries(
+      moves
+        .map((move) => [move, moveUnlockLevel(detail, move)] as const)
+        .filter((entry): entry is readonly [string, number] => (entry[1] ?? 0) > levelCap),
+    );
+  };
+
+  const loaded = team.members.flatMap((m) => {
+    const detail = details[m.formeId];
+    return detail ? [{ detail, moves: learnsetMoves(detail).filter((lm) => m.moves.includes(lm.name)) }] : [];
+  });
+  const saved = Object.values(savedTeams ?? {}).sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: `Team Builder (${currentGame})` }]} />
+
+      <div className="space-y-4">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Team Builder – {currentGame}</h1>
+          <p className="lead text-muted-foreground mb-0">
+            Plan a team of up to {TEAM_SIZE} and check its coverage, weaknesses, and speed
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="row g-2 align-items-end">
+              <div className="col-12 col-md-4">
+                <label htmlFor="team-name" className="form-label">
+                  Team name
+                </label>
+                <input
+                  id="team-name"
+                  className="form-control"
+                  placeholder="e.g. Before Gym 5"
+                  value={team.name}
+                  onChange={(e) => setDraft(currentGame, { ...team, name: e.target.value })}
+                  data-testid="team-name"
+                />
+              </div>
+              <div className="col-12 col-md-4">
+                <label htmlFor="team-split" className="form-label">
+                  Obtainable by
+                </label>
+                <select
+                  id="team-split"
+                  className="form-select"
+                  value={team.split ?? ''}
+                  onChange={(e) => setDraft(currentGame, { ...team, split: e.target.value || undefined })}
+                  data-testid="team-split"
+                >
+                  <option value="">Any point in the game</option>
+                  {splits.map((s) => (
+                    <option key={s.name} value={s.name}>
+                      {s.name}
+                      {s.level_cap ? ` (cap ${s.level_cap})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-12 col-md-4 d-flex gap-2">
+                <Button onClick={() => saveDraft(currentGame)} disabled={!team.name.trim()} data-testid="save-team">
+                  <Save className="h-4 w-4 me-1" />
+                  Save
+                </Button>
+                <Button variant="outline" onClick={() => setDraft(currentGame, emptyTeam())}>
+                  New team
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {team.members.map((member, index) => {
+            const detail = details[member.formeId];
+            return (
+              <TeamMemberCard
+                key={`${member.formeId}-${index}`}
+                member={member}
+                detail={detail}
+                gameId={currentGame}
+                unavailable={unavailable(member.formeId, detail?.display_name ?? member.formeId)}
+                lateMoves={lateMoves(member.formeId, member.moves)}
+                onMoveChange={(slot, move) => setDraft(currentGame, setMemberMove(team, index, slot, move))}
+                onRemove={() => setDraft(currentGame, removeMember(team, index))}
+              />
+            );
+          })}
+          {team.members.length < TEAM_SIZE && (
+            <Card>
+              <CardContent className="p-4">
+                <PokemonPicker
+                  label={`Add Pokémon (${team.members.length}/${TEAM_SIZE})`}
+                  onSelect={(p) => setDraft(currentGame, addMember(team, p.forme_id))}
+                  data-testid="team-add-pokemon"
+                />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {loaded.length > 0 && (
+          <TeamReport
+            members={loaded}
+            chart={chart}
+            generation={gameGeneration(currentGame)}
+            level={levelCap ?? DEFAULT_LEVEL}
+          />
+        )}
+
+        {saved.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Saved teams</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="list-group" data-testid="saved-teams">
+                {saved.map((t) => (
+                  <li key={t.name} className="list-group-item d-flex align-items-center gap-2">
+                    <span className="font-medium">{t.name}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {t.members.length} Pokémon{t.split ? ` · ${t.split}` : ''}
+                    </span>
+                    <Button variant="outline" size="sm" className="ms-auto" onClick={() => loadTeam(currentGame, t.name)}>
+                      Load
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteTeam(currentGame, t.name)}
+                      aria-label={`Delete ${t.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,13 +1,11 @@
 /**
  * @file Comprehensive trainer detail page displaying full battle information,
- * team composition, and strategic insights. Uses the v_app_trainers_full view
- * for complete trainer data with pre-aggregated team details.
+ * team composition, and strategic insights. Reads the trainer through the API,
+ * which serves the v_app_trainers_full view with pre-aggregated team details.
  */
 import React from 'react';
 import '@/index.css';
 import { useRoute, Link } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -19,60 +17,27 @@ import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { Sprite } from '@/components/common/Sprite';
 import { InfoTooltip } from '@/components/ui/InfoTooltip';
+import { PlayerBuildCard } from '@/components/calc/PlayerBuildCard';
+import { MemberCalcs } from '@/components/calc/MemberCalcs';
+import { CounterFinder } from '@/components/trainers/CounterFinder';
+import { DangerBadges } from '@/components/trainers/DangerBadges';
+import { MemberStats } from '@/components/trainers/MemberStats';
+import { TeamCoverage } from '@/components/trainers/TeamCoverage';
 import { useGame } from '@/hooks/use-game';
-import { Trainer, TrainerPokemon, TrainerMove } from '@/types/database';
+import { useGames } from '@/hooks/use-games';
+import { useTrainer } from '@/hooks/use-trainers';
+import { usePokemonDetail, usePokemonDetails } from '@/hooks/use-pokedex';
+import { useCalcPokemon } from '@/hooks/use-calc-pokemon';
+import { useCurrentRun } from '@/hooks/use-run';
+import { baseStatsOf, learnsetMoves, toCalcPokemon, trainerBuild } from '@/lib/builds';
+import { coverageSummary } from '@/lib/coverage';
+import { gameGeneration, gameTypeChart, trainerIv, usesTypeBasedCategory } from '@/lib/games';
+import { runPokemon } from '@/lib/run';
+import { calcStats } from '@/lib/stats';
+import { speedTiers } from '@/lib/team';
+import { TrainerPokemon, TrainerMove } from '@/types/database';
 import { Crown, Shield, PawPrint, ArrowLeft, MapPin, Trophy } from 'lucide-react';
 
-/**
- * Normalize the raw team data returned by the API into a predictable array
- * of team member objects for rendering.
- */
-function normalizeTeam(raw: unknown): TrainerPokemon[] {
-  const asArray: any[] =
-    Array.isArray(raw)
-      ? raw
-      : typeof raw === 'string'
-      ? (() => {
-          try {
-            return JSON.parse(raw);
-          } catch {
-            return [];
-          }
-        })()
-      : [];
-
-  return asArray.map((m) => {
-    const moves = Array.isArray(m?.moves) ? m.moves : [];
-
-    return {
-      slot_no: Number(m?.slot_no ?? m?.slot ?? 0),
-      level: m?.level ?? null,
-      shiny: Boolean(m?.shiny),
-      forme_id: m?.forme_id ?? m?.forme ?? m?.formeId ?? '',
-      name: m?.name ?? m?.pokemon_name ?? '',
-      ability: m?.ability?.name ?? m?.ability_name ?? m?.ability ?? undefined,
-      ability_description: m?.ability?.description ?? m?.ability_description ?? undefined,
-      item: m?.item?.name ?? m?.item_name ?? m?.item ?? undefined,
-      nature: m?.nature?.name ?? m?.nature_name ?? m?.nature ?? undefined,
-      type1_id: m?.type1_id ?? m?.type1 ?? '',
-      type2_id: m?.type2_id ?? m?.type2 ?? undefined,
-      sprite_default_url: m?.sprite_default_url ?? m?.spriteDefaultUrl ?? undefined,
-      sprite_shiny_url: m?.sprite_shiny_url ?? m?.spriteShinyUrl ?? undefined,
-      moves: moves.map((mv: any) => ({
-        slot: Number(mv?.slot ?? mv?.move_slot ?? 0),
-        name: mv?.name ?? mv?.move_name ?? '',
-        type_id: mv?.type_id ?? mv?.move_type_id ?? '',
-        category: (mv?.category ?? mv?.move_category ?? 'STATUS') as 'PHYSICAL' | 'SPECIAL' | 'STATUS',
-        power: mv?.power ?? undefined,
-        accuracy: mv?.accuracy ?? undefined,
-        pp: mv?.pp ?? undefined,
-        priority: mv?.priority ?? undefined,
-        effect_text: mv?.effect_text ?? mv?.effect ?? undefined,
-      })),
-    };
-  });
-}
-
 /**
  * Convert snake_case or lowercase strings into Title Case labels.
  */
@@ -171,10 +136,34 @@ function TeamAnalysis({ team }: { team: TrainerPokemon[] }) {
   );
 }
 
+/** Type badges, or a muted note when there are none. */
+function TypeList({ types, empty }: { types: string[]; empty: string }) {
+  if (!types.length) return <p className="text-sm text-muted-foreground mb-0">{empty}</p>;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {types.map((t) => (
+        <TypeBadge key={t} type={t} className="text-xs" />
+      ))}
+    </div>
+  );
+}
+
 /**
- * Individual team member card with comprehensive details.
+ * Individual team member card with comprehensive details. `children` renders
+ * below the moves, e.g. inline damage calcs.
  */
-function TeamMemberCard({ member, gameId }: { member: TrainerPokemon; gameId: string }) {
+function TeamMemberCard({
+  member,
+  gameId,
+  stats,
+  children,
+}: {
+  member: TrainerPokemon;
+  gameId: string;
+  /** Computed stats, shown above the details. */
+  stats?: React.ReactNode;
+  children?: React.ReactNode;
+}) {
   return (
     <Card className="hover:shadow-md transition-all">
       <CardContent className="p-4">
@@ -212,6 +201,10 @@ function TeamMemberCard({ member, gameId }: { member: TrainerPokemon; gameId: st
               {member.type2_id && <TypeBadge type={member.type2_id} className="text-xs" />}
             </div>
 
+            <DangerBadges member={member} className="mb-3" />
+
+            {stats}
+
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3 text-sm">
               <div>
                 <span className="text-muted-foreground">Ability:</span>
@@ -251,6 +244,8 @@ function TeamMemberCard({ member, gameId }: { member: TrainerPokemon; gameId: st
                 </div>
               </div>
             )}
+
+            {children}
           </div>
         </div>
       </CardContent>
@@ -265,25 +260,20 @@ export default function TrainerDetail() {
   const [, params] = useRoute('/trainer/:trainerId');
   const { currentGame } = useGame();
 
-  const { data: trainer, isLoading, error, refetch } = useQuery<Trainer | null>({
-    queryKey: ['trainer-detail', params?.trainerId, currentGame],
-    staleTime: 5 * 60 * 1000,
-    gcTime: 15 * 60 * 1000,
-    queryFn: async () => {
-      if (!params?.trainerId) return null;
-      
-      const { data, error } = await supabase
-        .from('v_app_trainers_full')
-        .select('*')
-        .eq('game_id', currentGame)
-        .eq('trainer_id', params.trainerId)
-        .maybeSingle();
-      
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!params?.trainerId,
-  });
+  const { data: trainer, isLoading, error, refetch } = useTrainer(currentGame, params?.trainerId);
+  const { data: games } = useGames();
+  const { builds, setBuild } = useCalcPokemon();
+  const playerBuild = builds[currentGame];
+  const { data: playerDetail } = usePokemonDetail(currentGame, playerBuild?.formeId ?? '');
+  const { data: teamDetails } = usePokemonDetails(
+    currentGame,
+    trainer?.team.map((m) => m.forme_id) ?? [],
+  );
+  const run = useCurrentRun();
+  const ourFormeIds = run
+    ? [...runPokemon(run, 'party'), ...runPokemon(run, 'box')].flatMap((e) => (e.formeId ? [e.formeId] : []))
+    : [];
+  const { data: ourDetails } = usePokemonDetails(currentGame, ourFormeIds);
 
   if (!params?.trainerId) {
     return (
@@ -331,9 +321,28 @@ export default function TrainerDetail() {
     );
   }
 
-  const team = normalizeTeam(trainer.team);
+  const team = trainer.team;
   const isChampion = trainer.trainer_class === 'Champion';
 
+  const typeChart = gameTypeChart(currentGame);
+  const coverage = coverageSummary(team, typeChart);
+  const iv = trainerIv(currentGame, trainer);
+  // Speeds of the run's Pokémon at the cap, each species once.
+  const ourSpeeds = trainer.level_cap ? speedTiers(Object.values(ourDetails), trainer.level_cap) : undefined;
+
+  // Inline calcs use the trainer Pokémon's recorded build and the player's
+  // saved Pokémon under the current game's mechanics.
+  const calcOptions = {
+    generation: gameGeneration(currentGame),
+    typeChart,
+    typeBasedCategory: usesTypeBasedCategory(currentGame, games?.find((g) => g.id === currentGame)),
+  };
+  const player = playerBuild && playerDetail ? toCalcPokemon(playerDetail, playerBuild) : undefined;
+  const playerMoves =
+    playerBuild && playerDetail
+      ? learnsetMoves(playerDetail).filter((m) => playerBuild.moves.includes(m.name))
+      : [];
+
   return (
     <>
       <Breadcrumbs items={[
@@ -427,21 +436,56 @@ export default function TrainerDetail() {
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="team" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="team">Team Details</TabsTrigger>
             <TabsTrigger value="analysis">Battle Analysis</TabsTrigger>
+            <TabsTrigger value="counters">Find Counters</TabsTrigger>
           </TabsList>
 
           <TabsContent value="team" className="space-y-6">
+            {team.length > 0 && (
+              <PlayerBuildCard
+                build={playerBuild}
+                onChange={(build) => setBuild(currentGame, build)}
+                detail={playerDetail}
+              />
+            )}
+
             {team.length > 0 ? (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                {team.map((member, index) => (
-                  <TeamMemberCard
-                    key={`${member.forme_id}-${index}`}
-                    member={member}
-                    gameId={currentGame}
-                  />
-                ))}
+                {team.map((member, index) => {
+                  const detail = teamDetails[member.forme_id];
+                  const build = trainerBuild(member, iv);
+                  return (
+                    <TeamMemberCard
+                      key={`${member.forme_id}-${index}`}
+                      member={member}
+                      gameId={currentGame}
+                      stats={
+                        detail && (
+                          <MemberStats
+                            stats={calcStats(baseStatsOf(detail), build.level, build.ivs, build.evs, build.nature)}
+                            nature={member.nature}
+                            iv={iv}
+                            ourSpeeds={ourSpeeds}
+                            levelCap={trainer.level_cap}
+                          />
+                        )
+                      }
+                    >
+                      {player && detail && (
+                        <MemberCalcs
+                          enemy={{ ...toCalcPokemon(detail, build), name: member.name }}
+                          enemyIv={iv}
+                          enemyMoves={member.moves}
+                          player={player}
+                          playerMoves={playerMoves}
+                          options={calcOptions}
+                        />
+                      )}
+                    </TeamMemberCard>
+                  );
+                })}
               </div>
             ) : (
               <Card>
@@ -458,29 +502,31 @@ export default function TrainerDetail() {
 
           <TabsContent value="analysis" className="space-y-6">
             <TeamAnalysis team={team} />
-            
+
             {/* Battle Strategy Card */}
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Battle Strategy</CardTitle>
               </CardHeader>
-              <CardContent className="space-y-4">
+              <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <h4 className="font-medium mb-2">Recommended Counters</h4>
-                    <p className="text-sm text-muted-foreground">
-                      Based on this trainer's team composition, consider Pokémon with types that resist their main attacks and can exploit their weaknesses.
-                    </p>
+                  <div data-testid="coverage-walls">
+                    <h4 className="font-medium mb-2">Types that resist everything on this team</h4>
+                    <TypeList types={coverage.walls} empty="No single type resists every damaging move." />
                   </div>
-                  <div>
-                    <h4 className="font-medium mb-2">Key Threats</h4>
-                    <p className="text-sm text-muted-foreground">
-                      Watch out for high-level Pokémon with powerful movesets and held items that can turn the tide of battle.
-                    </p>
+                  <div data-testid="coverage-threatened">
+                    <h4 className="font-medium mb-2">Types most of the team hits super-effectively</h4>
+                    <TypeList types={coverage.threatened} empty="No type is threatened by most of the team." />
                   </div>
                 </div>
               </CardContent>
             </Card>
+
+            {team.length > 0 && <TeamCoverage team={team} chart={typeChart} generation={gameGeneration(currentGame)} />}
+          </TabsContent>
+
+          <TabsContent value="counters" className="space-y-6">
+            <CounterFinder trainer={trainer} team={team} gameId={currentGame} chart={typeChart} />
           </TabsContent>
         </Tabs>
       </div>
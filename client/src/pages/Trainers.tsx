@@ -6,14 +6,13 @@
  */
 import '@/index.css';
 import React from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
 import { Card } from '@/components/ui/card';
 import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
 import { TrainerCard } from '@/components/trainers/TrainerCard';
 import { TrainerCardSkeleton } from '@/components/ui/loading-skeleton';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { useGame } from '@/hooks/use-game';
+import { useLeaderTrainers } from '@/hooks/use-trainers';
 import { Trainer } from '@/types/database';
 
 /**
@@ -22,28 +21,8 @@ import { Trainer } from '@/types/database';
 export default function Trainers() {
   const { currentGame } = useGame();
 
-  const { data: leaders, isLoading, error, refetch } = useQuery<Trainer[]>({
-    queryKey: ['leader-trainers', currentGame],
-    staleTime: 5 * 60 * 1000,
-    gcTime: 15 * 60 * 1000,
-    queryFn: async () => {
-      let query = supabase
-        .from('v_app_trainers_full_base')
-        .select('*')
-        .eq('game_id', currentGame)
-        .or('is_leader.eq.true,trainer_class.eq.Champion,trainer_name.eq.Ghetsis')
-        .order('split_group_order', { nullsFirst: false })
-        .order('split_order', { nullsFirst: false })
-        .order('split_trainer_order', { nullsFirst: false });
-
-      const { data, error } = await query;
-      if (error) throw error;
-      
-      return (Array.isArray(data) ? data : []).filter(
-        (r) => typeof r.trainer_id === 'string' && typeof r.trainer_name === 'string'
-      ) as Trainer[];
-    },
-  });
+  const { data, isLoading, error, refetch } = useLeaderTrainers(currentGame);
+  const leaders = data?.items;
 
   if (error) {
     return (
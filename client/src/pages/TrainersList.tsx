@@ -3,25 +3,27 @@
  * specific story split. Uses the `v_app_trainers_full_base` view to ensure
  * team members include ability, item, and nature data. Includes robust sprite
  * fallbacks and filter UI, and groups trainers by level cap and story split
- * for easier navigation. Headings and breadcrumbs echo the active game so
+ * for easier navigation. Team filters find trainers fielding a Pokémon, a
+ * move, an ability, a held item, or a danger flag; they live in the URL
+ * alongside `split` so searches can be shared. Headings and breadcrumbs echo the active game so
  * players know which ROM hack's trainers they're viewing. Results render in a
  * responsive 1/2/12-column grid to keep cards compact across breakpoints.
 */
 import '@/index.css';
 import React, { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { TrainerCard } from '@/components/trainers/TrainerCard';
+import { TeamFiltersPanel } from '@/components/trainers/TeamFiltersPanel';
 import { TrainerCardSkeleton } from '@/components/ui/loading-skeleton';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { Breadcrumbs } from '@/components/layout/Breadcrumbs';
 import { useGame } from '@/hooks/use-game';
-import { Trainer } from '@/types/database';
+import { useTrainers } from '@/hooks/use-trainers';
+import { TeamFilters, Trainer, TrainerKind } from '@/types/database';
 import { Search, X } from 'lucide-react';
 import { useLocation, useSearch } from 'wouter';
 
@@ -43,6 +45,13 @@ export default function TrainersList() {
   const [location, navigate] = useLocation();
   const searchParams = new URLSearchParams(searchQuery);
   const split = searchParams.get('split') || '';
+  const team: TeamFilters = {
+    pokemon: searchParams.get('pokemon') || undefined,
+    move: searchParams.get('move') || undefined,
+    ability: searchParams.get('ability') || undefined,
+    item: searchParams.get('item') || undefined,
+    danger: searchParams.get('danger') === 'true' || undefined,
+  };
   const initialPage = parseInt(searchParams.get('page') || '1', 10);
   const [page, setPage] = useState(Math.max(1, initialPage));
 
@@ -54,35 +63,36 @@ export default function TrainersList() {
 
   useEffect(() => {
     setPage(1);
-  }, [search, trainerTypeFilter, split, currentGame]);
-
-  const { data, isLoading, error, refetch } = useQuery<{ items: Trainer[]; total: number }>({
-    queryKey: ['trainers', currentGame, search, trainerTypeFilter, split, page],
-    staleTime: 5 * 60 * 1000,
-    gcTime: 15 * 60 * 1000,
-    placeholderData: (prev) => prev,
-    queryFn: async () => {
-      let query = supabase
-        .from('v_app_trainers_full_base')
-        .select('*', { count: 'exact' })
-        .eq('game_id', currentGame);
+  }, [search, trainerTypeFilter, split, team.pokemon, team.move, team.ability, team.item, team.danger, currentGame]);
 
-      // Apply search filter
-        
-        // Basic runtime guards to ensure required fields exist
-        const filtered = (Array.isArray(data) ? data : []).filter(
-          (r) => typeof r.trainer_id === 'string' && typeof r.trainer_name === 'string'
-        ) as Trainer[];
-        return { items: filtered, total: count || 0 };
-      },
-    });
+  const { data, isLoading, error, refetch } = useTrainers(currentGame, {
+    search: search.trim(),
+    kind: trainerTypeFilter && trainerTypeFilter !== 'all'
+      ? (trainerTypeFilter as TrainerKind)
+      : undefined,
+    split: split || undefined,
+    ...team,
+    page,
+    perPage,
+  });
 
   const trainers = data?.items ?? [];
   const totalPages = Math.max(1, Math.ceil((data?.total || 0) / perPage));
 
+  /** Set or remove team filters in the URL. */
+  const setTeamFilters = (next: TeamFilters) => {
+    const params = new URLSearchParams(searchQuery);
+    Object.entries(next).forEach(([key, value]) => {
+      if (value) params.set(key, String(value));
+      else params.delete(key);
+    });
+    navigate(`${location.split('?')[0]}?${params.toString()}`, { replace: true });
+  };
+
   const clearFilters = () => {
     setSearch('');
     setTrainerTypeFilter('');
+    setTeamFilters({ pokemon: undefined, move: undefined, ability: undefined, item: undefined, danger: undefined });
   };
 
   /** Removes the `split` parameter from the URL and refreshes results */
@@ -94,7 +104,9 @@ export default function TrainersList() {
     navigate(newSearch ? `${basePath}?${newSearch}` : basePath);
   };
 
-  const hasFilters = search.trim() || (trainerTypeFilter && trainerTypeFilter !== 'all');
+  const hasTeamFilters = Object.values(team).some(Boolean);
+  const hasFilters =
+    search.trim() || (trainerTypeFilter && trainerTypeFilter !== 'all') || hasTeamFilters;
   const isFiltered = hasFilters || split;
 
   if (error) {
@@ -177,6 +189,8 @@ export default function TrainersList() {
               )}
             </div>
 
+            <TeamFiltersPanel gameId={currentGame} filters={team} onChange={setTeamFilters} />
+
             {split && (
             <div className="col-span-full flex items-center gap-2 mt-2">
                 <Badge variant="secondary">Filtered by: {split}</Badge>
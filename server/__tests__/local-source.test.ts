@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDataSource, likeToRegExp } from '../local-source';
+import type { SnapshotBundle } from '../snapshot';
+
+/**
+ * Unit tests for the offline snapshot data source.
+ * The storage layer issues identical queries online and offline, so the
+ * snapshot must honour the same ilike, list, `or`, ordering, and range semantics.
+ */
+const bundle: SnapshotBundle = {
+  game: { id: 'FRO', name: 'FireRed Omega', short_name: 'FRO', uses_type_based_damage: false },
+  views: {
+    v_pokedex_app: [
+      { forme_id: 'charmander', display_name: 'Charmander', game_id: 'FRO', type1_id: 'fire', type2_id: null },
+      { forme_id: 'bulbasaur', display_name: 'Bulbasaur', game_id: 'FRO', type1_id: 'grass', type2_id: 'poison' },
+      { forme_id: 'gastly', display_name: 'Gastly', game_id: 'FRO', type1_id: 'ghost', type2_id: 'poison' },
+      { forme_id: 'squirtle', display_name: 'Squirtle', game_id: 'FRO', type1_id: 'water', type2_id: null },
+    ],
+    v_app_trainers_full_base: [
+      { trainer_id: 't1', trainer_name: 'Brock', game_id: 'FRO', split_order: 2 },
+      { trainer_id: 't2', trainer_name: 'Youngster', game_id: 'FRO', split_order: null },
+      { trainer_id: 't3', trainer_name: 'Bug Catcher', game_id: 'FRO', split_order: 1 },
+    ],
+  },
+};
+
+describe('LocalDataSource', () => {
+  const source = new LocalDataSource([bundle]);
+
+  it('matches ilike patterns case-insensitively', async () => {
+    const { rows } = await source.query<{ forme_id: string }>({
+      view: 'v_pokedex_app',
+      filters: [{ column: 'display_name', op: 'ilike', value: '%SAUR%' }],
+    });
+    expect(rows.map((r) => r.forme_id)).toEqual(['bulbasaur']);
+    expect(likeToRegExp('c_arm%').test('Charmander')).toBe(true);
+  });
+
+  it('applies `or` groups across type columns and counts before paging', async () => {
+    const { rows, count } = await source.query<{ forme_id: string }>({
+      view: 'v_pokedex_app',
+      any: [
+        { column: 'type1_id', op: 'ilike', value: '%poison%' },
+        { column: 'type2_id', op: 'ilike', value: '%poison%' },
+      ],
+      order: [{ column: 'display_name' }],
+      range: [1, 1],
+      count: true,
+    });
+    expect(count).toBe(2);
+    expect(rows.map((r) => r.forme_id)).toEqual(['gastly']);
+  });
+
+  it('filters by list membership', async () => {
+    const { rows } = await source.query<{ forme_id: string }>({
+      view: 'v_pokedex_app',
+      filters: [{ column: 'forme_id', op: 'in', value: ['bulbasaur', 'gastly', 'missingno'] }],
+      order: [{ column: 'forme_id' }],
+    });
+    expect(rows.map((r) => r.forme_id)).toEqual(['bulbasaur', 'gastly']);
+  });
+
+  it('sorts nulls last unless asked otherwise', async () => {
+    const { rows } = await source.query<{ trainer_id: string }>({
+      view: 'v_app_trainers_full_base',
+      order: [{ column: 'split_order', nullsFirst: false }],
+    });
+    expect(rows.map((r) => r.trainer_id)).toEqual(['t3', 't1', 't2']);
+  });
+
+  it('serves trainer detail reads from the list view when absent', async () => {
+    const { rows } = await source.query<{ trainer_name: string }>({
+      view: 'v_app_trainers_full',
+      filters: [{ column: 'trainer_id', op: 'eq', value: 't1' }],
+    });
+    expect(rows[0]?.trainer_name).toBe('Brock');
+  });
+});
@@ -0,0 +1,331 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDataSource } from '../local-source';
+import { ViewStorage } from '../storage';
+import { demoSnapshotDir, PAGE_SIZE, type DataSource } from '../data-source';
+import type { SnapshotBundle } from '../snapshot';
+
+/**
+ * Storage tests against an in-memory snapshot, covering trainer filters on
+ * team members that the data sources cannot express as view filters, Pokédex
+ * evolution stages, the story splits derived from trainers and routes (also
+ * past one page of encounter slots), the base Speeds of a split's trainer
+ * Pokémon, move learners and the cached move list, a route's full slot table,
+ * databases missing an optional view, and the committed demo bundle.
+ */
+const member = (slot: number, forme: string, extra: Record<string, unknown> = {}) => ({
+  slot_no: slot,
+  level: 20,
+  shiny: false,
+  forme_id: forme,
+  name: forme,
+  type1_id: 'normal',
+  moves: [],
+  ...extra,
+});
+
+const trainer = (id: string, order: number, team: unknown[], extra: Record<string, unknown> = {}) => ({
+  trainer_id: id,
+  trainer_name: id,
+  trainer_class: 'Hiker',
+  game_id: 'FRO',
+  split_order: order,
+  variant_key: 'default',
+  variant_label: 'Default',
+  is_leader: false,
+  team,
+  ...extra,
+});
+
+const explosion = { slot: 1, name: 'Explosion', type_id: 'normal', category: 'PHYSICAL' };
+
+const bundle: SnapshotBundle = {
+  game: { id: 'FRO', name: 'FireRed Omega', short_name: 'FRO', uses_type_based_damage: false },
+  views: {
+    v_app_trainers_full_base: [
+      trainer('t1', 1, [member(1, 'geodude', { moves: [explosion], item: 'Sitrus Berry' }), member(2, 'onix')]),
+      trainer('t2', 2, [member(1, 'geodude', { ability: 'Sturdy' }), member(2, 'voltorb', { moves: [explosion] })]),
+      trainer('t3', 3, [member(1, 'geodude', { moves: [explosion] })], { split: 'Cerulean' }),
+    ],
+  },
+};
+
+describe('ViewStorage.getTrainers', () => {
+  const storage = new ViewStorage(new LocalDataSource([bundle]));
+  const ids = (result: { items: { trainer_id: string }[] }) => result.items.map((t) => t.trainer_id);
+
+  it('requires one member to satisfy every team filter', async () => {
+    const result = await storage.getTrainers('FRO', { pokemon: 'geodude', move: 'explosion', page: 1, perPage: 10 });
+    expect(ids(result)).toEqual(['t1', 't3']);
+    expect(ids(await storage.getTrainers('FRO', { ability: 'STURDY', page: 1, perPage: 10 }))).toEqual(['t2']);
+    expect(ids(await storage.getTrainers('FRO', { item: 'sitrus berry', page: 1, perPage: 10 }))).toEqual(['t1']);
+  });
+
+  it('combines team filters with view filters and pages the matches', async () => {
+    const split = await storage.getTrainers('FRO', { move: 'Explosion', split: 'Cerulean', page: 1, perPage: 10 });
+    expect(ids(split)).toEqual(['t3']);
+    const paged = await storage.getTrainers('FRO', { move: 'Explosion', page: 2, perPage: 2 });
+    expect(paged).toMatchObject({ total: 3, items: [{ trainer_id: 't3' }] });
+  });
+});
+
+const encounter = (route: string, sortIndex: number, forme: string) => ({
+  id: `${route}-${forme}`,
+  route_id: route,
+  route_name: route,
+  forme_id: forme,
+  forme_label: forme,
+  game_id: 'RP',
+  method: 'grass',
+  min_level: 5,
+  max_level: 7,
+  rate: 20,
+  slot_no: 1,
+  sort_index: sortIndex,
+  type1_id: 'normal',
+});
+
+const splitBundle: SnapshotBundle = {
+  game: { id: 'RP', name: 'Renegade Platinum', short_name: 'RP', uses_type_based_damage: false },
+  views: {
+    v_app_trainers_full_base: [
+      trainer('r1', 1, [], { game_id: 'RP', split: 'Roark', level_cap: 14, location_route_id: 'route-202' }),
+      trainer('r2', 2, [], { game_id: 'RP', split: 'Roark', level_cap: 12, location_route_id: 'oreburgh-gym' }),
+      trainer('r3', 3, [member(1, 'cherrim'), member(2, 'missingno')], {
+        game_id: 'RP',
+        split: 'Gardenia',
+        level_cap: 22,
+        location_route_id: 'route-204',
+      }),
+    ],
+    v_route_encounters_full: [
+      encounter('route-201', 1, 'starly'),
+      encounter('route-202', 2, 'shinx'),
+      encounter('route-203', 3, 'abra'),
+      encounter('route-204', 4, 'budew'),
+      encounter('route-204', 4, 'starly'),
+    ],
+    v_pokedex_detail_app: [
+      { forme_id: 'budew', game_id: 'RP', hp: 40, atk: 30, def: 35, spa: 50, spd: 70, spe: 55 },
+      { forme_id: 'cherrim', game_id: 'RP', hp: 70, atk: 60, def: 70, spa: 87, spd: 78, spe: 85 },
+    ],
+  },
+};
+
+describe('ViewStorage.getSplits', () => {
+  const storage = new ViewStorage(new LocalDataSource([splitBundle]));
+
+  it('orders splits and assigns routes and first wild formes to them', async () => {
+    const splits = await storage.getSplits('RP');
+    expect(splits.map((s) => [s.name, s.order, s.level_cap])).toEqual([
+      ['Roark', 0, 14],
+      ['Gardenia', 1, 22],
+    ]);
+    expect(splits.map((s) => s.routes.map((r) => r.route_id))).toEqual([
+      ['route-201', 'route-202', 'route-203'],
+      ['route-204'],
+    ]);
+    expect(splits.map((s) => s.encounters.map((e) => e.forme_id))).toEqual([['starly', 'shinx', 'abra'], ['budew']]);
+    expect(splits[0].encounters[0]).toEqual({ forme_id: 'starly', forme_label: 'starly', route_id: 'route-201' });
+  });
+});
+
+describe('ViewStorage over capped responses', () => {
+  // Like PostgREST, answer at most PAGE_SIZE rows per request.
+  const local = new LocalDataSource([
+    {
+      ...splitBundle,
+      views: {
+        ...splitBundle.views,
+        v_route_encounters_full: [
+          ...Array.from({ length: PAGE_SIZE + 1 }, (_, i) => ({ ...encounter('route-201', 1, 'starly'), id: `slot-${i}` })),
+          encounter('route-204', 4, 'budew'),
+        ],
+      },
+    },
+  ]);
+  const storage = new ViewStorage({
+    name: 'capped',
+    query: async (query) => {
+      const [from, to] = query.range ?? [0, PAGE_SIZE - 1];
+      return local.query({ ...query, range: [from, Math.min(to, from + PAGE_SIZE - 1)] });
+    },
+  });
+
+  it('assigns routes past the first page of encounter slots to their split', async () => {
+    const splits = await storage.getSplits('RP');
+    expect(splits.map((s) => s.routes.map((r) => r.route_id))).toEqual([['route-201'], ['route-204']]);
+  });
+
+  it('reads every encounter slot of a route', async () => {
+    expect(await storage.getRouteSlots('RP', 'route-201')).toHaveLength(PAGE_SIZE + 1);
+  });
+});
+
+describe('ViewStorage.getSplitSpeeds', () => {
+  const storage = new ViewStorage(new LocalDataSource([splitBundle]));
+
+  it('returns the split\'s trainer Pokémon with base Speed, skipping unknown formes', async () => {
+    const speeds = await storage.getSplitSpeeds('RP', 'Gardenia');
+    expect(speeds).toMatchObject([{ trainer: { trainer_id: 'r3' }, pokemon: { forme_id: 'cherrim' }, base_spe: 85 }]);
+    expect(await storage.getSplitSpeeds('RP', 'Roark')).toEqual([]);
+  });
+});
+
+describe('ViewStorage.getSplitEncounters', () => {
+  const storage = new ViewStorage(new LocalDataSource([splitBundle]));
+
+  it('returns the encounters on the split\'s routes with base stat totals', async () => {
+    const encounters = await storage.getSplitEncounters('RP', 'Gardenia');
+    expect(encounters.map((e) => [e.forme_id, e.base_stat_total])).toEqual([
+      ['budew', 280],
+      ['starly', undefined],
+    ]);
+    expect(await storage.getSplitEncounters('RP', 'Fantina')).toEqual([]);
+  });
+});
+
+describe('ViewStorage.getPokedex stages', () => {
+  const entry = (forme: string) => ({ forme_id: forme, display_name: forme, game_id: 'FRO', type1_id: 'grass' });
+  const evolution = (from: string, to: string) => ({
+    game_id: 'FRO',
+    from_forme_id: from,
+    from_name: from,
+    to_forme_id: to,
+    to_name: to,
+    method: 'level-up',
+  });
+  const pokedex = { v_pokedex_app: ['bulbasaur', 'ivysaur', 'venusaur', 'tangela'].map(entry) };
+  const query = { page: 1, perPage: 2 };
+  const names = (result: { items: { forme_id: string }[]; total: number }) => [
+    result.items.map((e) => e.forme_id),
+    result.total,
+  ];
+
+  it('filters and pages by evolution stage', async () => {
+    const storage = new ViewStorage(
+      new LocalDataSource([
+        {
+          ...bundle,
+          views: {
+            ...pokedex,
+            v_evolutions_app: [evolution('bulbasaur', 'ivysaur'), evolution('ivysaur', 'venusaur')],
+          },
+        },
+      ]),
+    );
+    expect(names(await storage.getPokedex('FRO', { ...query, stage: 'unevolved' }))).toEqual([['bulbasaur'], 1]);
+    expect(names(await storage.getPokedex('FRO', { ...query, stage: 'fully-evolved' }))).toEqual([
+      ['tangela', 'venusaur'],
+      2,
+    ]);
+  });
+
+  it('finds no unevolved formes without evolution data', async () => {
+    const storage = new ViewStorage(new LocalDataSource([{ ...bundle, views: pokedex }]));
+    expect(names(await storage.getPokedex('FRO', { ...query, stage: 'unevolved' }))).toEqual([[], 0]);
+    expect(names(await storage.getPokedex('FRO', { ...query, stage: 'fully-evolved' }))).toEqual([
+      ['bulbasaur', 'ivysaur'],
+      4,
+    ]);
+  });
+});
+
+describe('ViewStorage optional views', () => {
+  const local = new LocalDataSource([bundle]);
+  // A database where the evolutions view was never deployed.
+  const source: DataSource = {
+    name: 'test',
+    query: (query) =>
+      query.view === 'v_evolutions_app' ? Promise.reject(new Error('relation does not exist')) : local.query(query),
+  };
+  const storage = new ViewStorage(source);
+
+  it('reads a missing evolutions view as no evolutions', async () => {
+    expect(await storage.getEvolutions('FRO')).toEqual([]);
+  });
+
+  it('marks the failing check as optional', async () => {
+    const check = await storage.preflightView('FRO', 'v_evolutions_app');
+    expect(check).toMatchObject({ ok: false, optional: true });
+    expect((await storage.preflightView('FRO', 'v_app_trainers_full_base')).optional).toBe(false);
+  });
+});
+
+describe('ViewStorage moves', () => {
+  const learnset = (forme: string, method: string, extra: Record<string, unknown> = {}) => ({
+    game_id: 'FRO',
+    forme_id: forme,
+    move_uid: 'cut',
+    display_name: 'Cut',
+    type_id: 'normal',
+    category: 'PHYSICAL',
+    power: 50,
+    method,
+    ...extra,
+  });
+  const local = new LocalDataSource([
+    {
+      ...bundle,
+      views: {
+        v_learnsets_public_ui: [
+          learnset('sandshrew', 'TM', { tm_no: 1 }),
+          learnset('bulbasaur', 'LEVEL', { level: 9 }),
+        ],
+        v_pokedex_app: [
+          { forme_id: 'bulbasaur', display_name: 'Bulbasaur', game_id: 'FRO', type1_id: 'grass' },
+          { forme_id: 'sandshrew', display_name: 'Sandshrew', game_id: 'FRO', type1_id: 'ground' },
+        ],
+      },
+    },
+  ]);
+  const reads: string[] = [];
+  const storage = new ViewStorage({
+    name: 'test',
+    query: (query) => {
+      reads.push(query.view);
+      return local.query(query);
+    },
+  });
+
+  it('names learners from the Pokédex in learnset order', async () => {
+    const detail = await storage.getMove('FRO', 'cut');
+    expect(detail?.move).toMatchObject({ move_id: 'cut', name: 'Cut', type_id: 'normal', power: 50 });
+    expect(detail?.learners.map((l) => [l.display_name, l.method, l.level ?? l.tm_no])).toEqual([
+      ['Bulbasaur', 'LEVEL', 9],
+      ['Sandshrew', 'TM', 1],
+    ]);
+    expect(await storage.getMove('FRO', 'surf')).toBeNull();
+  });
+
+  it('reads the move list once per game', async () => {
+    reads.length = 0;
+    expect((await storage.getMoves('FRO')).map((m) => m.move_id)).toEqual(['cut']);
+    await storage.getMoves('FRO');
+    expect(reads).toEqual(['v_learnsets_public_ui']);
+  });
+});
+
+describe('demo snapshot', () => {
+  const storage = new ViewStorage(LocalDataSource.fromDirectory(demoSnapshotDir(), 'demo'));
+
+  it('passes every preflight check', async () => {
+    const result = await storage.preflight('FRO');
+    expect(result.checks.filter((c) => !c.ok)).toEqual([]);
+    expect(result).toMatchObject({ isReady: true, source: 'demo' });
+  });
+
+  it('places its routes in story splits', async () => {
+    const splits = await storage.getSplits('FRO');
+    expect(splits.map((s) => [s.name, s.level_cap, s.routes.map((r) => r.route_id)])).toEqual([
+      ['Brock', 14, ['route-1', 'viridian-forest']],
+      ['Misty', 21, ['route-3', 'mt-moon']],
+    ]);
+  });
+
+  it('lists the key items and TMs of a split, including routes known only by their trainers', async () => {
+    const names = async (split: string) => (await storage.getSplitItems('FRO', split)).map((i) => i.item_name);
+    expect(await names('Brock')).toEqual(['Old Amber', 'TM39']);
+    expect(await names('Misty')).toEqual(['Dome Fossil']);
+    expect(await names('Giovanni')).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { trainerSchema } from '@shared/contract';
+import { ContractViolationError, parseRows } from '../validation';
+
+/**
+ * Unit tests for contract row validation.
+ * Rows are normalized (nulls become undefined, missing lists become empty)
+ * and the first invalid row is reported by view, column path, and row.
+ */
+const trainer = {
+  trainer_id: 'sg_falkner',
+  trainer_name: 'Falkner',
+  trainer_class: 'Leader',
+  game_id: 'SG',
+  split: 'Falkner',
+  split_order: null,
+  variant_key: 'default',
+  variant_label: 'Default',
+  is_leader: true,
+  team: [
+    {
+      slot_no: 1,
+      level: 13,
+      shiny: false,
+      forme_id: 'pidgeotto',
+      name: 'Pidgeotto',
+      item: null,
+      type1_id: 'normal',
+      type2_id: 'flying',
+      moves: [{ slot: 1, name: 'Gust', type_id: 'flying', category: 'SPECIAL', power: 40 }],
+    },
+  ],
+};
+
+describe('parseRows', () => {
+  it('normalizes nulls and missing lists', () => {
+    const [row] = parseRows('v_app_trainers_full', trainerSchema, [{ ...trainer, team: null }]);
+    expect(row.split_order).toBeUndefined();
+    expect(row.team).toEqual([]);
+
+    const [full] = parseRows('v_app_trainers_full', trainerSchema, [trainer]);
+    expect(full.team[0].item).toBeUndefined();
+    expect(full.team[0].moves[0].name).toBe('Gust');
+  });
+
+  it('names the view, nested column, and row of the first violation', () => {
+    const bad = structuredClone(trainer);
+    bad.team[0].moves[0].category = 'physical';
+
+    let error: unknown;
+    try {
+      parseRows('v_app_trainers_full', trainerSchema, [trainer, bad]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ContractViolationError);
+    const violation = error as ContractViolationError;
+    expect(violation.status).toBe(502);
+    expect(violation.view).toBe('v_app_trainers_full');
+    expect(violation.column).toBe('team.0.moves.0.category');
+    expect(violation.row).toBe('row 1 (trainer_id=sg_falkner)');
+  });
+});
@@ -0,0 +1,117 @@
+import path from "path";
+import { LocalDataSource } from "./local-source";
+import { hasSupabaseCredentials, SupabaseDataSource } from "./supabase";
+
+/**
+ * Declarative read against one view. Storage methods describe what they need
+ * with this shape and each data source translates it to its own backend, so
+ * the same filter, sort and pagination semantics hold online and offline.
+ */
+export interface ViewQuery {
+  /** Contract view (or the `games` table) to read from. */
+  view: string;
+  /** Columns to return; all columns when omitted. */
+  columns?: string[];
+  /** Filters that must all match. */
+  filters?: ViewFilter[];
+  /** Filters of which at least one must match, like PostgREST `or(...)`. */
+  any?: ViewFilter[];
+  /** Sort keys applied in order. */
+  order?: ViewOrder[];
+  /** Inclusive row range, like PostgREST `range(from, to)`. */
+  range?: [number, number];
+  /** Return the total number of matching rows before `range` is applied. */
+  count?: boolean;
+}
+
+export type FilterValue = string | number | boolean;
+
+export type ViewFilter =
+  | {
+      column: string;
+      /** `ilike` values use SQL wildcards: `%` for any run, `_` for one character. */
+      op: "eq" | "neq" | "ilike";
+      value: FilterValue;
+    }
+  /** Membership in a list. */
+  | { column: string; op: "in"; value: FilterValue[] };
+
+export interface ViewOrder {
+  column: string;
+  ascending?: boolean;
+  /** Defaults to Postgres behavior: nulls last when ascending. */
+  nullsFirst?: boolean;
+}
+
+export interface ViewResult<T> {
+  rows: T[];
+  /** Total matching rows when `count` was requested, otherwise `null`. */
+  count: number | null;
+}
+
+/** Backend able to answer view queries. */
+export interface DataSource {
+  /** Short label used in logs and diagnostics. */
+  readonly name: string;
+  query<T = Record<string, unknown>>(query: ViewQuery): Promise<ViewResult<T>>;
+}
+
+/** PostgREST caps responses at 1000 rows, so large reads are made in pages. */
+export const PAGE_SIZE = 1000;
+
+/**
+ * Read every row matching `query` page by page. The query's `order` must be
+ * unique per row so pages never overlap or skip rows.
+ */
+export async function readAll<T>(source: DataSource, query: Omit<ViewQuery, "range" | "count">): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const page = await source.query<T>({ ...query, range: [from, from + PAGE_SIZE - 1] });
+    rows.push(...page.rows);
+    if (page.rows.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** Directory holding snapshot bundles, overridable through `SNAPSHOT_DIR`. */
+export function snapshotDir(): string {
+  return process.env.SNAPSHOT_DIR
+    ? path.resolve(process.env.SNAPSHOT_DIR)
+    : path.resolve(import.meta.dirname, "..", "snapshots");
+}
+
+/**
+ * Committed demo bundle: a small hand-written sample, not hack data, that
+ * keeps the app usable in demos and tests before any snapshot is exported.
+ */
+export function demoSnapshotDir(): string {
+  return path.resolve(import.meta.dirname, "..", "snapshots", "demo");
+}
+
+/**
+ * Pick the data source from the environment. `DATA_SOURCE=local` forces the
+ * snapshot; otherwise Supabase is used when credentials exist and the
+ * snapshot is the fallback. Until `snapshot:export` has written bundles, the
+ * snapshot serves the demo bundle and says so at startup.
+ */
+export function createDataSource(): DataSource {
+  const requested = process.env.DATA_SOURCE;
+
+  if (requested !== "local" && hasSupabaseCredentials()) {
+    return new SupabaseDataSource();
+  }
+  if (requested === "supabase") {
+    throw new Error(
+      "DATA_SOURCE=supabase but SUPABASE_URL and SUPABASE_ANON_KEY are not set.",
+    );
+  }
+
+  const dir = snapshotDir();
+  const local = LocalDataSource.fromDirectory(dir);
+  if (!local.isEmpty) return local;
+  console.warn(
+    `No snapshot bundles in ${dir}; serving the demo bundle from ${demoSnapshotDir()}. ` +
+      "It is a small sample, not hack data: set SUPABASE_URL and SUPABASE_ANON_KEY, " +
+      "or run `npm run snapshot:export` with them, for the real views.",
+  );
+  return LocalDataSource.fromDirectory(demoSnapshotDir(), "demo");
+}
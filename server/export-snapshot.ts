@@ -0,0 +1,116 @@
+/**
+ * Export every contract view for every game into versioned snapshot bundles.
+ *
+ *   npm run snapshot:export -- [--out <dir>] [--game <id> ...]
+ *
+ * Reads from Supabase (credentials as for the server) and writes one
+ * `<GAME>.json` per game with a manifest of row counts, export timestamp,
+ * content hash, and schema version. The output feeds the local data source,
+ * diffing between hack releases, and backups.
+ */
+import fs from "fs";
+import path from "path";
+import { CONTRACT_VIEWS, OPTIONAL_VIEWS, type ContractView, type Game } from "@shared/contract";
+import { readAll, snapshotDir } from "./data-source";
+import {
+  SNAPSHOT_SCHEMA_VERSION,
+  hashViews,
+  type SnapshotBundle,
+  type SnapshotRow,
+} from "./snapshot";
+import { SupabaseDataSource } from "./supabase";
+
+/** Unique sort keys per view so pages never overlap or skip rows. */
+const pageOrder: Record<ContractView, string[]> = {
+  v_pokedex_app: ["forme_id"],
+  v_pokedex_detail_app: ["forme_id"],
+  v_route_encounters_full: ["id"],
+  v_app_trainers_full: ["trainer_id", "variant_key"],
+  v_app_trainers_full_base: ["trainer_id", "variant_key"],
+  v_evolutions_app: ["from_forme_id", "to_forme_id"],
+  v_learnsets_public_ui: ["forme_id", "move_uid", "method", "level", "tm_no"],
+  v_items_app: ["id"],
+};
+
+function parseArgs(argv: string[]) {
+  const games: string[] = [];
+  let out = snapshotDir();
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--out") out = path.resolve(argv[++i]);
+    else if (argv[i] === "--game") games.push(argv[++i]);
+    else throw new Error(`Unknown argument: ${argv[i]}`);
+  }
+  return { out, games };
+}
+
+function readView(
+  source: SupabaseDataSource,
+  view: ContractView,
+  gameId: string,
+): Promise<SnapshotRow[]> {
+  return readAll<SnapshotRow>(source, {
+    view,
+    filters: [{ column: "game_id", op: "eq", value: gameId }],
+    order: pageOrder[view].map((column) => ({ column })),
+  });
+}
+
+async function exportGame(source: SupabaseDataSource, game: Game): Promise<SnapshotBundle> {
+  const views: SnapshotBundle["views"] = {};
+  const rowCounts: Record<string, number> = {};
+  for (const view of CONTRACT_VIEWS) {
+    try {
+      views[view] = await readView(source, view, game.id);
+    } catch (error) {
+      // The local source reads a view left out of the bundle as empty.
+      if (!OPTIONAL_VIEWS.includes(view)) throw error;
+      console.log(`  ${view}: skipped (${(error as { message?: string })?.message ?? error})`);
+      continue;
+    }
+    rowCounts[view] = views[view]!.length;
+    console.log(`  ${view}: ${rowCounts[view]} rows`);
+  }
+
+  return {
+    game,
+    manifest: {
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+      gameId: game.id,
+      exportedAt: new Date().toISOString(),
+      source: source.name,
+      rowCounts,
+      contentHash: hashViews(views),
+    },
+    views,
+  };
+}
+
+async function main() {
+  const { out, games: only } = parseArgs(process.argv.slice(2));
+  const source = new SupabaseDataSource();
+
+  const { rows: games } = await source.query<Game>({
+    view: "games",
+    columns: ["id", "name", "short_name", "uses_type_based_damage"],
+    order: [{ column: "id" }],
+  });
+  const selected = only.length ? games.filter((g) => only.includes(g.id)) : games;
+  if (!selected.length) {
+    throw new Error(only.length ? `No games match ${only.join(", ")}` : "No games found");
+  }
+
+  fs.mkdirSync(out, { recursive: true });
+  for (const game of selected) {
+    console.log(`Exporting ${game.id}`);
+    const bundle = await exportGame(source, game);
+    const file = path.join(out, `${game.id}.json`);
+    fs.writeFileSync(file, `${JSON.stringify(bundle, null, 2)}\n`);
+    console.log(`  wrote ${file} (${bundle.manifest!.contentHash.slice(0, 12)})`);
+  }
+}
+
+main().catch((error) => {
+  // Supabase rejects with plain `{ message }` objects rather than Errors.
+  console.error(`Snapshot export failed: ${error?.message ?? error}`);
+  process.exit(1);
+});
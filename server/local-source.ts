@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import type {
+  DataSource,
+  FilterValue,
+  ViewFilter,
+  ViewOrder,
+  ViewQuery,
+  ViewResult,
+} from "./data-source";
+import { SNAPSHOT_SCHEMA_VERSION, type SnapshotBundle, type SnapshotRow as Row } from "./snapshot";
+
+/**
+ * Views a snapshot may omit because another view carries the same rows.
+ * Trainer detail reads fall back to the list view, whose team JSON already
+ * includes abilities, items, and natures.
+ */
+const viewFallbacks: Record<string, string> = {
+  v_app_trainers_full: "v_app_trainers_full_base",
+};
+
+/** Convert an SQL `ilike` pattern into a case-insensitive regular expression. */
+export function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "%") return ".*";
+      if (ch === "_") return ".";
+      return ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function sameValue(actual: unknown, expected: FilterValue): boolean {
+  return actual === expected || (actual != null && String(actual) === String(expected));
+}
+
+function matches(row: Row, filter: ViewFilter): boolean {
+  const actual = row[filter.column];
+  if (filter.op === "in") return filter.value.some((v) => sameValue(actual, v));
+  if (filter.op === "eq") return sameValue(actual, filter.value);
+  if (filter.op === "neq") return actual != null && !sameValue(actual, filter.value);
+  return actual != null && likeToRegExp(String(filter.value)).test(String(actual));
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return String(a).localeCompare(String(b));
+}
+
+/** Sort comparator mirroring Postgres `ORDER BY ... [NULLS FIRST|LAST]`. */
+function byOrder(order: ViewOrder[]) {
+  return (a: Row, b: Row): number => {
+    for (const { column, ascending = true, nullsFirst = !ascending } of order) {
+      const av = a[column];
+      const bv = b[column];
+      const aNull = av === null || av === undefined;
+      const bNull = bv === null || bv === undefined;
+      if (aNull || bNull) {
+        if (aNull && bNull) continue;
+        return aNull === nullsFirst ? -1 : 1;
+      }
+      const diff = compare(av, bv);
+      if (diff !== 0) return ascending ? diff : -diff;
+    }
+    return 0;
+  };
+}
+
+function pick(row: Row, columns?: string[]): Row {
+  if (!columns) return row;
+  return Object.fromEntries(columns.map((c) => [c, row[c]]));
+}
+
+/**
+ * Data source backed by snapshot bundles held in memory. Supports the same
+ * `eq`/`neq`/`ilike`/`in` filters, `or` groups, ordering, and range pagination the
+ * storage layer issues against Supabase.
+ */
+export class LocalDataSource implements DataSource {
+  constructor(
+    private bundles: SnapshotBundle[],
+    readonly name = "local",
+  ) {}
+
+  /** Whether no bundle was loaded, so every query answers no rows. */
+  get isEmpty(): boolean {
+    return !this.bundles.length;
+  }
+
+  /** Load every `*.json` bundle in `dir`. A missing directory yields no data. */
+  static fromDirectory(dir: string, name?: string): LocalDataSource {
+    const files = fs.existsSync(dir)
+      ? fs.readdirSync(dir).filter((f) => f.endsWith(".json")).sort()
+      : [];
+    const bundles = files
+      .map((f) => JSON.parse(fs.readFileSync(path.join(dir, f), "utf-8")) as SnapshotBundle)
+      .filter((b, i) => {
+        if (!b?.game || !b?.views) return false;
+        const version = b.manifest?.schemaVersion ?? SNAPSHOT_SCHEMA_VERSION;
+        if (version !== SNAPSHOT_SCHEMA_VERSION) {
+          console.warn(
+            `Skipping snapshot ${files[i]}: schema version ${version}, expected ${SNAPSHOT_SCHEMA_VERSION}`,
+          );
+          return false;
+        }
+        return true;
+      });
+    return new LocalDataSource(bundles, name);
+  }
+
+  private rowsFor(view: string): Row[] {
+    if (view === "games") return this.bundles.map((b) => b.game as unknown as Row);
+    return this.bundles.flatMap((b) => {
+      const rows = b.views[view] ?? (viewFallbacks[view] ? b.views[viewFallbacks[view]] : undefined);
+      return rows ?? [];
+    });
+  }
+
+  async query<T>({ view, columns, filters, any, order, range, count }: ViewQuery) {
+    let rows = this.rowsFor(view).filter(
+      (row) =>
+        (filters ?? []).every((f) => matches(row, f)) &&
+        (!any?.length || any.some((f) => matches(row, f))),
+    );
+
+    if (order?.length) {
+      rows = [...rows].sort(byOrder(order));
+    }
+
+    const total = rows.length;
+    if (range) {
+      rows = rows.slice(range[0], range[1] + 1);
+    }
+
+    return {
+      rows: rows.map((r) => pick(r, columns)) as T[],
+      count: count ? total : null,
+    } as ViewResult<T>;
+  }
+}
@@ -1,13 +1,264 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
+import {
+  CONTRACT_VIEWS,
+  type ContractView,
+  type EvolutionStage,
+  type TrainerKind,
+} from "@shared/contract";
 import { storage } from "./storage";
 
+const trainerKinds: TrainerKind[] = ["champion", "leader", "regular"];
+const evolutionStages: EvolutionStage[] = ["unevolved", "fully-evolved"];
+
+/** Forward rejected promises from async handlers to the error middleware. */
+function handle(fn: (req: Request, res: Response) => Promise<void>): RequestHandler {
+  return (req, res, next) => {
+    fn(req, res).catch(next);
+  };
+}
+
+/** Read an optional string query parameter, treating `all` and blanks as unset. */
+function stringParam(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed && trimmed !== "all" ? trimmed : undefined;
+}
+
+/** Read a positive integer query parameter clamped to `max`. */
+function intParam(value: unknown, fallback: number, max = Number.MAX_SAFE_INTEGER): number {
+  const parsed = typeof value === "string" ? parseInt(value, 10) : NaN;
+  if (Number.isNaN(parsed) || parsed < 1) return fallback;
+  return Math.min(parsed, max);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  // All routes read the contract views through `storage` and are scoped by
+  // game so URLs mirror the client's `?game=` deep links.
+
+  app.get(
+    "/api/games",
+    handle(async (_req, res) => {
+      res.json(await storage.getGames());
+    }),
+  );
+
+  app.get(
+    "/api/:game/preflight",
+    handle(async (req, res) => {
+      res.json(await storage.preflight(req.params.game));
+    }),
+  );
+
+  app.get(
+    "/api/:game/preflight/:view",
+    handle(async (req, res) => {
+      const view = req.params.view as ContractView;
+      if (!CONTRACT_VIEWS.includes(view)) {
+        res.status(404).json({ message: `Unknown contract view: ${view}` });
+        return;
+      }
+      res.json(await storage.preflightView(req.params.game, view));
+    }),
+  );
+
+  app.get(
+    "/api/:game/pokedex",
+    handle(async (req, res) => {
+      const stage = stringParam(req.query.stage) as EvolutionStage | undefined;
+      res.json(
+        await storage.getPokedex(req.params.game, {
+          search: stringParam(req.query.search),
+          type: stringParam(req.query.type),
+          stage: stage && evolutionStages.includes(stage) ? stage : undefined,
+          page: intParam(req.query.page, 1),
+          perPage: intParam(req.query.perPage, 60, 200),
+        }),
+      );
+    }),
+  );
+
+  app.get(
+    "/api/:game/pokemon/:formeId",
+    handle(async (req, res) => {
+      const pokemon = await storage.getPokemon(req.params.game, req.params.formeId);
+      if (!pokemon) {
+        res.status(404).json({ message: "Pokémon not found" });
+        return;
+      }
+      res.json(pokemon);
+    }),
+  );
+
+  app.get(
+    "/api/:game/pokemon/:formeId/encounters",
+    handle(async (req, res) => {
+      res.json(await storage.getPokemonEncounters(req.params.game, req.params.formeId));
+    }),
+  );
+
+  app.get(
+    "/api/:game/pokemon/:formeId/trainers",
+    handle(async (req, res) => {
+      res.json(await storage.getPokemonTrainers(req.params.game, req.params.formeId));
+    }),
+  );
+
+  app.get(
+    "/api/:game/evolutions",
+    handle(async (req, res) => {
+      res.json(await storage.getEvolutions(req.params.game));
+    }),
+  );
+
+  app.get(
+    "/api/:game/moves",
+    handle(async (req, res) => {
+      res.json(await storage.getMoves(req.params.game));
+    }),
+  );
+
+  app.get(
+    "/api/:game/moves/:moveId",
+    handle(async (req, res) => {
+      const move = await storage.getMove(req.params.game, req.params.moveId);
+      if (!move) {
+        res.status(404).json({ message: "Move not found" });
+        return;
+      }
+      res.json(move);
+    }),
+  );
+
+  app.get(
+    "/api/:game/attack-types",
+    handle(async (req, res) => {
+      res.json(await storage.getAttackTypes(req.params.game, intParam(req.query.maxLevel, 100, 100)));
+    }),
+  );
+
+  app.get(
+    "/api/:game/abilities",
+    handle(async (req, res) => {
+      res.json(await storage.getAbilities(req.params.game));
+    }),
+  );
+
+  app.get(
+    "/api/:game/abilities/:abilityId",
+    handle(async (req, res) => {
+      const ability = await storage.getAbility(req.params.game, req.params.abilityId);
+      if (!ability) {
+        res.status(404).json({ message: "Ability not found" });
+        return;
+      }
+      res.json(ability);
+    }),
+  );
+
+  app.get(
+    "/api/:game/routes",
+    handle(async (req, res) => {
+      res.json(await storage.getRoutes(req.params.game));
+    }),
+  );
+
+  app.get(
+    "/api/:game/routes/:routeId/filters",
+    handle(async (req, res) => {
+      res.json(await storage.getEncounterFilters(req.params.game, req.params.routeId));
+    }),
+  );
+
+  app.get(
+    "/api/:game/routes/:routeId/encounters",
+    handle(async (req, res) => {
+      res.json(
+        await storage.getEncounters(req.params.game, req.params.routeId, {
+          method: stringParam(req.query.method),
+          time: stringParam(req.query.time),
+          search: stringParam(req.query.search),
+          page: intParam(req.query.page, 1),
+          pageSize: intParam(req.query.pageSize, 50, 200),
+        }),
+      );
+    }),
+  );
+
+  app.get(
+    "/api/:game/routes/:routeId/slots",
+    handle(async (req, res) => {
+      res.json(await storage.getRouteSlots(req.params.game, req.params.routeId));
+    }),
+  );
+
+  app.get(
+    "/api/:game/trainers",
+    handle(async (req, res) => {
+      const game = req.params.game;
+      if (req.query.leaders === "true") {
+        const leaders = await storage.getLeaders(game);
+        res.json({ items: leaders, total: leaders.length });
+        return;
+      }
+
+      const kind = stringParam(req.query.kind) as TrainerKind | undefined;
+      res.json(
+        await storage.getTrainers(game, {
+          search: stringParam(req.query.search),
+          kind: kind && trainerKinds.includes(kind) ? kind : undefined,
+          split: stringParam(req.query.split),
+          pokemon: stringParam(req.query.pokemon),
+          move: stringParam(req.query.move),
+          ability: stringParam(req.query.ability),
+          item: stringParam(req.query.item),
+          danger: req.query.danger === "true" || undefined,
+          page: intParam(req.query.page, 1),
+          perPage: intParam(req.query.perPage, 30, 200),
+        }),
+      );
+    }),
+  );
+
+  app.get(
+    "/api/:game/splits",
+    handle(async (req, res) => {
+      res.json(await storage.getSplits(req.params.game));
+    }),
+  );
+
+  app.get(
+    "/api/:game/splits/:split/speeds",
+    handle(async (req, res) => {
+      res.json(await storage.getSplitSpeeds(req.params.game, req.params.split));
+    }),
+  );
+
+  app.get(
+    "/api/:game/splits/:split/encounters",
+    handle(async (req, res) => {
+      res.json(await storage.getSplitEncounters(req.params.game, req.params.split));
+    }),
+  );
+
+  app.get(
+    "/api/:game/splits/:split/items",
+    handle(async (req, res) => {
+      res.json(await storage.getSplitItems(req.params.game, req.params.split));
+    }),
+  );
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  app.get(
+    "/api/:game/trainers/:trainerId",
+    handle(async (req, res) => {
+      const trainer = await storage.getTrainer(req.params.game, req.params.trainerId);
+      if (!trainer) {
+        res.status(404).json({ message: "Trainer not found" });
+        return;
+      }
+      res.json(trainer);
+    }),
+  );
 
   const httpServer = createServer(app);
 
@@ -0,0 +1,41 @@
+import { createHash } from "crypto";
+import type { Game, GameId } from "@shared/contract";
+
+/**
+ * On-disk snapshot format shared by the export command and the local data
+ * source. Bump `SNAPSHOT_SCHEMA_VERSION` whenever the bundle layout or the
+ * exported view columns change incompatibly.
+ */
+export const SNAPSHOT_SCHEMA_VERSION = 1;
+
+export type SnapshotRow = Record<string, unknown>;
+
+/** Export metadata written alongside each bundle's rows. */
+export interface SnapshotManifest {
+  schemaVersion: number;
+  gameId: GameId;
+  /** ISO timestamp of the export. */
+  exportedAt: string;
+  /** Data source the rows were read from. */
+  source: string;
+  /** Number of rows exported per view. */
+  rowCounts: Record<string, number>;
+  /** SHA-256 of the serialized views, stable across identical exports. */
+  contentHash: string;
+}
+
+/** One game's exported view rows as stored on disk (`<GAME>.json`). */
+export interface SnapshotBundle {
+  game: Game;
+  /** Absent in hand-written bundles; always present in exported ones. */
+  manifest?: SnapshotManifest;
+  views: Partial<Record<string, SnapshotRow[]>>;
+}
+
+/** Hash view rows so two exports of unchanged data compare equal. */
+export function hashViews(views: SnapshotBundle["views"]): string {
+  const ordered = Object.keys(views)
+    .sort()
+    .map((view) => [view, views[view]]);
+  return createHash("sha256").update(JSON.stringify(ordered)).digest("hex");
+}
@@ -1,38 +1,924 @@
-import { type User, type InsertUser } from "@shared/schema";
-import { randomUUID } from "crypto";
+import {
+  CONTRACT_VIEWS,
+  OPTIONAL_VIEWS,
+  type Ability,
+  type AbilityDetail,
+  type AbilityHolder,
+  type AbilitySlot,
+  CONTRACT_VIEW_SCHEMAS,
+  evolutionSchema,
+  gameSchema,
+  itemLocationSchema,
+  learnsetEntrySchema,
+  pokedexDetailSchema,
+  pokedexEntrySchema,
+  routeEncounterSchema,
+  routeSummarySchema,
+  trainerSchema,
+  type EncounterFilters,
+  type EncounterPage,
+  type EncounterQuery,
+  type Evolution,
+  type Game,
+  type GameId,
+  type ItemLocation,
+  type ContractView,
+  type LearnsetEntry,
+  type Move,
+  type MoveDetail,
+  type Paged,
+  type PokedexDetail,
+  type PokedexEntry,
+  type PokedexQuery,
+  type PokemonAttackTypes,
+  type PreflightCheck,
+  type PreflightResult,
+  type RouteEncounter,
+  type RouteSummary,
+  type Split,
+  type SplitEncounter,
+  type SplitRouteEncounter,
+  type Trainer,
+  type TrainerPokemonUse,
+  type TrainerPokemonSpeed,
+  type TeamFilters,
+  type TrainerPokemon,
+  type TrainerQuery,
+} from "@shared/contract";
+import {
+  createDataSource,
+  readAll,
+  type DataSource,
+  type ViewFilter,
+  type ViewOrder,
+  type ViewResult,
+} from "./data-source";
+import { dangerFlags } from "@shared/danger";
+import { learnerGroup } from "@shared/learnset";
+import type { z } from "zod";
+import { ContractViolationError, parseRows } from "./validation";
 
-// modify the interface with any CRUD methods
-// you might need
+// Read-only access to the contract views. Every query the UI needs lives
+// behind this interface so the view contract is enforced in one place: each
+// row is parsed with its shared schema before it leaves the server.
 
 export interface IStorage {
-  getUser(id: string): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  getGames(): Promise<Game[]>;
+  getPokedex(gameId: GameId, query: PokedexQuery): Promise<Paged<PokedexEntry>>;
+  getPokemon(gameId: GameId, formeId: string): Promise<PokedexDetail | null>;
+  getEvolutions(gameId: GameId): Promise<Evolution[]>;
+  getPokemonEncounters(gameId: GameId, formeId: string): Promise<RouteEncounter[]>;
+  getPokemonTrainers(gameId: GameId, formeId: string): Promise<TrainerPokemonUse[]>;
+  getMoves(gameId: GameId): Promise<Move[]>;
+  getMove(gameId: GameId, moveId: string): Promise<MoveDetail | null>;
+  getAttackTypes(gameId: GameId, maxLevel: number): Promise<PokemonAttackTypes[]>;
+  getAbilities(gameId: GameId): Promise<Ability[]>;
+  getAbility(gameId: GameId, abilityId: string): Promise<AbilityDetail | null>;
+  getRoutes(gameId: GameId): Promise<RouteSummary[]>;
+  getEncounterFilters(gameId: GameId, routeId: string): Promise<EncounterFilters>;
+  getEncounters(
+    gameId: GameId,
+    routeId: string,
+    query: EncounterQuery,
+  ): Promise<EncounterPage>;
+  getRouteSlots(gameId: GameId, routeId: string): Promise<RouteEncounter[]>;
+  getTrainers(gameId: GameId, query: TrainerQuery): Promise<Paged<Trainer>>;
+  getLeaders(gameId: GameId): Promise<Trainer[]>;
+  getSplits(gameId: GameId): Promise<Split[]>;
+  getSplitSpeeds(gameId: GameId, split: string): Promise<TrainerPokemonSpeed[]>;
+  getSplitEncounters(gameId: GameId, split: string): Promise<SplitRouteEncounter[]>;
+  getSplitItems(gameId: GameId, split: string): Promise<ItemLocation[]>;
+  getTrainer(gameId: GameId, trainerId: string): Promise<Trainer | null>;
+  preflight(gameId: GameId): Promise<PreflightResult>;
+  preflightView(gameId: GameId, view: ContractView): Promise<PreflightCheck>;
 }
 
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+/** Trainer sort order matching the story progression. */
+const splitOrder: ViewOrder[] = [
+  { column: "split_group_order", nullsFirst: false },
+  { column: "split_order", nullsFirst: false },
+  { column: "split_trainer_order", nullsFirst: false },
+];
 
-  constructor() {
-    this.users = new Map();
+/** Unique learnset row order, so paged reads never overlap or skip rows. */
+const learnsetOrder: ViewOrder[] = [
+  { column: "forme_id" },
+  { column: "move_uid" },
+  { column: "method" },
+  { column: "level" },
+  { column: "tm_no" },
+];
+
+/**
+ * Learners of one move in the contract's learnset order: by method, then
+ * level for level-up moves and machine number for TMs and HMs.
+ */
+const learnerOrder: ViewOrder[] = [
+  { column: "method" },
+  { column: "level" },
+  { column: "tm_no" },
+  { column: "forme_id" },
+];
+
+/** Move columns of a learnset row. */
+const learnsetMoveColumns = learnsetEntrySchema.pick({
+  move_uid: true,
+  display_name: true,
+  type_id: true,
+  category: true,
+  power: true,
+  accuracy: true,
+  pp: true,
+  priority: true,
+  effect_text: true,
+});
+
+function toMove(row: z.infer<typeof learnsetMoveColumns>): Move {
+  return {
+    move_id: row.move_uid,
+    name: row.display_name,
+    type_id: row.type_id,
+    category: row.category,
+    power: row.power,
+    accuracy: row.accuracy,
+    pp: row.pp,
+    priority: row.priority,
+    effect_text: row.effect_text,
+  };
+}
+
+/** Ability columns of a Pokédex detail row, without the heavy learnset. */
+const abilityColumns = pokedexDetailSchema.pick({
+  forme_id: true,
+  display_name: true,
+  game_id: true,
+  type1_id: true,
+  type2_id: true,
+  sprite_default_url: true,
+  sprite_shiny_url: true,
+  ability1_id: true,
+  ability2_id: true,
+  hidden_ability_id: true,
+  ability1_name: true,
+  ability2_name: true,
+  hidden_ability_name: true,
+  ability1_description: true,
+  ability2_description: true,
+  hidden_ability_description: true,
+});
+
+type AbilityRow = z.infer<typeof abilityColumns>;
+
+/** The abilities of a forme by slot; empty slots are skipped. */
+function abilitySlots(row: AbilityRow): [AbilitySlot, Ability][] {
+  const slots: [AbilitySlot, string | undefined, string | undefined, string | undefined][] = [
+    ["ability1", row.ability1_id, row.ability1_name, row.ability1_description],
+    ["ability2", row.ability2_id, row.ability2_name, row.ability2_description],
+    ["hidden", row.hidden_ability_id, row.hidden_ability_name, row.hidden_ability_description],
+  ];
+  return slots
+    .filter((slot): slot is [AbilitySlot, string, string | undefined, string | undefined] => Boolean(slot[1]))
+    .map(([slot, ability_id, name, description]) => [
+      slot,
+      { ability_id, name: name ?? ability_id, description },
+    ]);
+}
+
+const sameName = (a: string | undefined, b: string) => a?.toLowerCase() === b.toLowerCase();
+
+/** Whether a team member satisfies every team filter that is set. */
+function memberMatches(
+  member: TrainerPokemon,
+  { pokemon, move, ability, item, danger }: TeamFilters,
+): boolean {
+  return (
+    (!danger || dangerFlags(member).length > 0) &&
+    (!pokemon || member.forme_id === pokemon) &&
+    (!move || member.moves.some((m) => sameName(m.name, move))) &&
+    (!ability || sameName(member.ability, ability)) &&
+    (!item || sameName(member.item, item))
+  );
+}
+
+/** Trainer columns that place a trainer in the story. */
+const splitColumns = trainerSchema.pick({
+  split: true,
+  level_cap: true,
+  location_route_id: true,
+});
+
+/** Item pockets a split overview lists. */
+const splitItemKinds = ["KEY", "TM", "HM"];
+
+/** Base stat columns of a forme. */
+const baseStatColumns = pokedexDetailSchema.pick({
+  forme_id: true,
+  hp: true,
+  atk: true,
+  def: true,
+  spa: true,
+  spd: true,
+  spe: true,
+});
+
+/** Encounter columns naming a forme's first wild appearance. */
+const splitEncounterColumns = routeEncounterSchema.pick({
+  forme_id: true,
+  forme_label: true,
+  route_id: true,
+  sprite_default_url: true,
+});
+
+/** Message from an `Error` or a Supabase error object. */
+function errorMessage(error: unknown): string {
+  const message = (error as { message?: unknown })?.message;
+  return typeof message === "string" ? message : "Unknown error occurred";
+}
+
+/** Memoize `load` per key; a failed load is forgotten so the next call retries. */
+function memoize<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = load();
+    cache.set(key, pending);
+    pending.catch(() => cache.delete(key));
   }
+  return pending;
+}
+
+/** A forme's damaging move types by how it learns them. */
+type DamagingLearnset = Pick<LearnsetEntry, "forme_id" | "method" | "level" | "type_id">;
+
+/** Storage that reads the contract views from a pluggable data source. */
+export class ViewStorage implements IStorage {
+  /**
+   * Per-game results derived from the whole learnset view, which takes many
+   * paged reads. The views only change with a data release, so entries live
+   * as long as the server.
+   */
+  private moveLists = new Map<GameId, Promise<Move[]>>();
+  private damagingLearnsets = new Map<GameId, Promise<DamagingLearnset[]>>();
 
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+  constructor(readonly source: DataSource) {}
+
+  async getGames(): Promise<Game[]> {
+    const { rows } = await this.source.query({
+      view: "games",
+      // Select known columns from the games table. Avoid requesting
+      // non-existent fields which would trigger a 400 response.
+      columns: ["id", "name", "short_name", "uses_type_based_damage"],
+    });
+    // Normalize Sacred Gold naming across data sources. Supabase may
+    // return "SG/SS" but the UI should consistently show just "SG".
+    return parseRows("games", gameSchema, rows).map((g) =>
+      g.id === "SG" ? { ...g, short_name: "SG" } : g,
+    );
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
+  async getPokedex(gameId: GameId, { search, type, stage, page, perPage }: PokedexQuery) {
+    const filters: ViewFilter[] = [{ column: "game_id", op: "eq", value: gameId }];
+    if (search?.trim()) {
+      filters.push({ column: "display_name", op: "ilike", value: `%${search.trim()}%` });
+    }
+    const any: ViewFilter[] | undefined = type
+      ? [
+          { column: "type1_id", op: "ilike", value: `%${type}%` },
+          { column: "type2_id", op: "ilike", value: `%${type}%` },
+        ]
+      : undefined;
+    const from = (page - 1) * perPage;
+
+    // Stages come from the evolution view: a forme that evolves into something
+    // is not fully evolved, and one that something evolves into is not a first
+    // stage. The Pokédex view has no stage column and the forme id lists can
+    // run to hundreds, so stage filters read every entry matching the rest and
+    // page through the matches here.
+    if (stage) {
+      const evolutions = await this.getEvolutions(gameId);
+      const evolves = new Set(evolutions.map((e) => e.from_forme_id));
+      const evolved = new Set(evolutions.map((e) => e.to_forme_id));
+      if (stage === "unevolved" && !evolves.size) return { items: [], total: 0 };
+
+      const rows = await readAll(this.source, {
+        view: "v_pokedex_app",
+        filters,
+        any,
+        order: [{ column: "display_name" }, { column: "forme_id" }],
+      });
+      const matches = parseRows("v_pokedex_app", pokedexEntrySchema, rows).filter((entry) =>
+        stage === "fully-evolved"
+          ? !evolves.has(entry.forme_id)
+          : evolves.has(entry.forme_id) && !evolved.has(entry.forme_id),
+      );
+      return { items: matches.slice(from, from + perPage), total: matches.length };
+    }
+
+    const { rows, count } = await this.source.query({
+      view: "v_pokedex_app",
+      filters,
+      any,
+      order: [{ column: "display_name" }],
+      range: [from, from + perPage - 1],
+      count: true,
+    });
+    return { items: parseRows("v_pokedex_app", pokedexEntrySchema, rows), total: count ?? 0 };
+  }
+
+  async getPokemon(gameId: GameId, formeId: string) {
+    const { rows } = await this.source.query({
+      view: "v_pokedex_detail_app",
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "forme_id", op: "eq", value: formeId },
+      ],
+      range: [0, 0],
+    });
+    return parseRows("v_pokedex_detail_app", pokedexDetailSchema, rows)[0] ?? null;
+  }
+
+  /** Evolution steps of the game; empty when the optional view is not deployed. */
+  async getEvolutions(gameId: GameId) {
+    const rows = await this.readOptional({
+      view: "v_evolutions_app",
+      filters: [{ column: "game_id", op: "eq", value: gameId }],
+      order: [{ column: "from_forme_id" }, { column: "to_forme_id" }],
+    });
+    return parseRows("v_evolutions_app", evolutionSchema, rows);
+  }
+
+  /** Every wild encounter slot of a forme across the game's routes, in route order. */
+  async getPokemonEncounters(gameId: GameId, formeId: string) {
+    const rows = await readAll(this.source, {
+      view: "v_route_encounters_full",
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "forme_id", op: "eq", value: formeId },
+      ],
+      order: [{ column: "sort_index" }, { column: "method" }, { column: "slot_no" }, { column: "id" }],
+    });
+    return parseRows("v_route_encounters_full", routeEncounterSchema, rows);
+  }
+
+  /** Every trainer Pokémon of a forme with its trainer, in split order. */
+  async getPokemonTrainers(gameId: GameId, formeId: string) {
+    return (await this.trainerPokemon(gameId)).filter((use) => use.pokemon.forme_id === formeId);
+  }
+
+  /**
+   * Every move some forme learns in the game, sorted by name. PostgREST has no
+   * `distinct`, so the list is built from the whole learnset view once per game.
+   */
+  getMoves(gameId: GameId) {
+    return memoize(this.moveLists, gameId, async () => {
+      const rows = await this.readOptional({
+        view: "v_learnsets_public_ui",
+        columns: Object.keys(learnsetMoveColumns.shape),
+        filters: [{ column: "game_id", op: "eq", value: gameId }],
+        order: learnsetOrder,
+      });
+
+      const moves = new Map<string, Move>();
+      for (const row of parseRows("v_learnsets_public_ui", learnsetMoveColumns, rows)) {
+        if (!moves.has(row.move_uid)) moves.set(row.move_uid, toMove(row));
+      }
+      return Array.from(moves.values()).sort((a, b) => a.name.localeCompare(b.name));
+    });
+  }
+
+  /** A move with its learners, named and drawn from `v_pokedex_app`. */
+  async getMove(gameId: GameId, moveId: string) {
+    const rows = await this.readOptional({
+      view: "v_learnsets_public_ui",
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "move_uid", op: "eq", value: moveId },
+      ],
+      order: learnerOrder,
+    });
+    const entries = parseRows("v_learnsets_public_ui", learnsetEntrySchema, rows);
+    if (!entries.length) return null;
+
+    const formeIds = Array.from(new Set(entries.map((e) => e.forme_id)));
+    const formes = await readAll(this.source, {
+      view: "v_pokedex_app",
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "forme_id", op: "in", value: formeIds },
+      ],
+      order: [{ column: "forme_id" }],
+    });
+    const byId = new Map(parseRows("v_pokedex_app", pokedexEntrySchema, formes).map((f) => [f.forme_id, f]));
+
+    return {
+      move: toMove(entries[0]),
+      learners: entries.flatMap(({ forme_id, method, level, tm_no }) => {
+        const forme = byId.get(forme_id);
+        return forme ? [{ ...forme, method, level, tm_no }] : [];
+      }),
+    };
+  }
+
+  /**
+   * Every forme with the types of the damaging moves it can learn by
+   * `maxLevel`. Moves taught by TMs, tutors, or breeding always count, since
+   * the views do not say when they become available.
+   */
+  async getAttackTypes(gameId: GameId, maxLevel: number) {
+    const types = new Map<string, Set<string>>();
+    for (const row of await this.damagingLearnset(gameId)) {
+      if (learnerGroup(row.method) === "LEVEL" && (row.level ?? 0) > maxLevel) continue;
+      const known = types.get(row.forme_id) ?? new Set<string>();
+      known.add(row.type_id);
+      types.set(row.forme_id, known);
+    }
+
+    return (await this.abilityRows(gameId)).map((row) => ({
+      forme_id: row.forme_id,
+      display_name: row.display_name,
+      game_id: row.game_id,
+      type1_id: row.type1_id,
+      type2_id: row.type2_id,
+      sprite_default_url: row.sprite_default_url,
+      sprite_shiny_url: row.sprite_shiny_url,
+      abilities: Array.from(new Set(abilitySlots(row).map(([, ability]) => ability.name))),
+      attack_types: Array.from(types.get(row.forme_id) ?? []),
+    }));
+  }
+
+  /** Every ability some forme can have in the game, sorted by name. */
+  async getAbilities(gameId: GameId) {
+    const abilities = new Map<string, Ability>();
+    for (const row of await this.abilityRows(gameId)) {
+      for (const [, ability] of abilitySlots(row)) {
+        const known = abilities.get(ability.ability_id);
+        if (!known || (!known.description && ability.description)) {
+          abilities.set(ability.ability_id, ability);
+        }
+      }
+    }
+    return Array.from(abilities.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getAbility(gameId: GameId, abilityId: string) {
+    let ability: Ability | undefined;
+    const pokemon: AbilityHolder[] = [];
+    for (const row of await this.abilityRows(gameId)) {
+      for (const [slot, a] of abilitySlots(row)) {
+        if (a.ability_id !== abilityId) continue;
+        if (!ability?.description) ability = a;
+        pokemon.push({
+          forme_id: row.forme_id,
+          display_name: row.display_name,
+          game_id: row.game_id,
+          type1_id: row.type1_id,
+          type2_id: row.type2_id,
+          sprite_default_url: row.sprite_default_url,
+          sprite_shiny_url: row.sprite_shiny_url,
+          slot,
+        });
+      }
+    }
+    if (!ability) return null;
+
+    // Trainer teams name abilities rather than referencing their ids.
+    const name = ability.name.toLowerCase();
+    const trainers = (await this.trainerPokemon(gameId)).filter(
+      (use) => use.pokemon.ability?.toLowerCase() === name,
     );
+    return { ability, pokemon, trainers };
+  }
+
+  /** The game's damaging learnset rows, read once per game. */
+  private damagingLearnset(gameId: GameId) {
+    return memoize(this.damagingLearnsets, gameId, async () => {
+      const learnable = learnsetEntrySchema.pick({ forme_id: true, method: true, level: true, type_id: true });
+      const rows = await this.readOptional({
+        view: "v_learnsets_public_ui",
+        columns: Object.keys(learnable.shape),
+        filters: [
+          { column: "game_id", op: "eq", value: gameId },
+          { column: "category", op: "neq", value: "STATUS" },
+        ],
+        order: learnsetOrder,
+      });
+      return parseRows("v_learnsets_public_ui", learnable, rows);
+    });
+  }
+
+  /** Ability columns of every forme in the game, sorted by name. */
+  private async abilityRows(gameId: GameId) {
+    const rows = await readAll(this.source, {
+      view: "v_pokedex_detail_app",
+      columns: Object.keys(abilityColumns.shape),
+      filters: [{ column: "game_id", op: "eq", value: gameId }],
+      order: [{ column: "display_name" }, { column: "forme_id" }],
+    });
+    return parseRows("v_pokedex_detail_app", abilityColumns, rows);
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
-    return user;
+  /** Every trainer Pokémon in the game with its trainer, in split order. */
+  private async trainerPokemon(gameId: GameId): Promise<TrainerPokemonUse[]> {
+    const rows = await readAll(this.source, {
+      view: "v_app_trainers_full_base",
+      filters: [{ column: "game_id", op: "eq", value: gameId }],
+      order: [...splitOrder, { column: "trainer_id" }, { column: "variant_key" }],
+    });
+    return parseRows("v_app_trainers_full_base", trainerSchema, rows).flatMap(({ team, ...trainer }) =>
+      team.map((pokemon) => ({ trainer, pokemon })),
+    );
+  }
+
+  /**
+   * Routes of the game in story order. The view has one row per encounter
+   * slot, so every slot is read and the routes are deduplicated here.
+   */
+  async getRoutes(gameId: GameId) {
+    const rows = await readAll(this.source, {
+      view: "v_route_encounters_full",
+      columns: ["route_id", "route_name", "sort_index"],
+      filters: [{ column: "game_id", op: "eq", value: gameId }],
+      order: [{ column: "sort_index" }, { column: "route_id" }, { column: "id" }],
+    });
+
+    const seen = new Set<string>();
+    return parseRows("v_route_encounters_full", routeSummarySchema, rows).filter((r) => {
+      if (seen.has(r.route_id)) return false;
+      seen.add(r.route_id);
+      return true;
+    });
+  }
+
+  async getEncounterFilters(gameId: GameId, routeId: string) {
+    const result = await this.source.query({
+      view: "v_route_encounters_full",
+      columns: ["method", "time_of_day", "route_name"],
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "route_id", op: "eq", value: routeId },
+      ],
+    });
+    const rows = parseRows(
+      "v_route_encounters_full",
+      routeEncounterSchema.pick({ method: true, time_of_day: true, route_name: true }),
+      result.rows,
+    );
+
+    return {
+      route_name: rows[0]?.route_name ?? "Unknown Route",
+      methods: Array.from(new Set(rows.map((r) => r.method))).sort(),
+      times_of_day: Array.from(
+        new Set(rows.map((r) => r.time_of_day).filter((t): t is string => Boolean(t))),
+      ).sort(),
+    };
+  }
+
+  async getEncounters(
+    gameId: GameId,
+    routeId: string,
+    { method, time, search, page, pageSize }: EncounterQuery,
+  ) {
+    // Request one extra row so we know whether another page exists.
+    const start = (page - 1) * pageSize;
+    const result = await this.source.query({
+      view: "v_route_encounters_full",
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "route_id", op: "eq", value: routeId },
+        ...(method ? [{ column: "method", op: "eq" as const, value: method }] : []),
+        ...(time ? [{ column: "time_of_day", op: "eq" as const, value: time }] : []),
+        ...(search?.trim()
+          ? [{ column: "forme_label", op: "ilike" as const, value: `%${search.trim()}%` }]
+          : []),
+      ],
+      order: [{ column: "sort_index" }, { column: "method" }, { column: "slot_no" }],
+      range: [start, start + pageSize],
+    });
+    const rows = parseRows("v_route_encounters_full", routeEncounterSchema, result.rows);
+
+    return { rows: rows.slice(0, pageSize), hasMore: rows.length > pageSize };
+  }
+
+  /** Every encounter slot of a route across methods and times of day, unpaged. */
+  async getRouteSlots(gameId: GameId, routeId: string) {
+    const rows = await readAll(this.source, {
+      view: "v_route_encounters_full",
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "route_id", op: "eq", value: routeId },
+      ],
+      order: [{ column: "sort_index" }, { column: "method" }, { column: "slot_no" }, { column: "id" }],
+    });
+    return parseRows("v_route_encounters_full", routeEncounterSchema, rows);
+  }
+
+  async getTrainers(gameId: GameId, query: TrainerQuery) {
+    const { search, kind, split, page, perPage, ...team } = query;
+    const filters: ViewFilter[] = [{ column: "game_id", op: "eq", value: gameId }];
+
+    if (kind === "champion") {
+      filters.push({ column: "trainer_class", op: "eq", value: "Champion" });
+    } else if (kind === "leader") {
+      filters.push({ column: "is_leader", op: "eq", value: true });
+    } else if (kind === "regular") {
+      filters.push(
+        { column: "is_leader", op: "eq", value: false },
+        { column: "trainer_class", op: "neq", value: "Champion" },
+      );
+    }
+
+    if (split) filters.push({ column: "split", op: "eq", value: split });
+
+    const s = search?.trim();
+    const any: ViewFilter[] | undefined = s
+      ? [
+          { column: "trainer_name", op: "ilike", value: `%${s}%` },
+          { column: "trainer_class", op: "ilike", value: `%${s}%` },
+          { column: "display_location", op: "ilike", value: `%${s}%` },
+        ]
+      : undefined;
+    const from = (page - 1) * perPage;
+
+    // Team JSON cannot be filtered by the data sources, so team filters read
+    // every trainer matching the rest and page through the matches here.
+    if (Object.values(team).some(Boolean)) {
+      const rows = await readAll(this.source, {
+        view: "v_app_trainers_full_base",
+        filters,
+        any,
+        order: [...splitOrder, { column: "trainer_id" }, { column: "variant_key" }],
+      });
+      const matches = parseRows("v_app_trainers_full_base", trainerSchema, rows).filter((t) =>
+        t.team.some((member) => memberMatches(member, team)),
+      );
+      return { items: matches.slice(from, from + perPage), total: matches.length };
+    }
+
+    const { rows, count } = await this.source.query({
+      view: "v_app_trainers_full_base",
+      filters,
+      any,
+      order: splitOrder,
+      range: [from, from + perPage - 1],
+      count: true,
+    });
+    return {
+      items: parseRows("v_app_trainers_full_base", trainerSchema, rows),
+      total: count ?? 0,
+    };
+  }
+
+  async getLeaders(gameId: GameId) {
+    const { rows } = await this.source.query({
+      view: "v_app_trainers_full_base",
+      filters: [{ column: "game_id", op: "eq", value: gameId }],
+      any: [
+        { column: "is_leader", op: "eq", value: true },
+        { column: "trainer_class", op: "eq", value: "Champion" },
+        { column: "trainer_name", op: "eq", value: "Ghetsis" },
+      ],
+      order: splitOrder,
+    });
+    return parseRows("v_app_trainers_full_base", trainerSchema, rows);
+  }
+
+  /**
+   * Story splits in order with the routes and wild formes each one opens up.
+   * A route belongs to the first split with a trainer on it; routes without
+   * trainers join the split of the route before them, since routes are
+   * sorted in story order.
+   */
+  async getSplits(gameId: GameId) {
+    return (await this.storySplits(gameId)).splits;
+  }
+
+  /**
+   * The splits of `getSplits` with the split of every route id they know:
+   * trainer locations and the routes of the encounter view.
+   */
+  private async storySplits(gameId: GameId) {
+    const rows = await readAll(this.source, {
+      view: "v_app_trainers_full_base",
+      columns: Object.keys(splitColumns.shape),
+      filters: [{ column: "game_id", op: "eq", value: gameId }],
+      order: [...splitOrder, { column: "trainer_id" }, { column: "variant_key" }],
+    });
+
+    const splits = new Map<string, Split>();
+    const routeSplits = new Map<string, Split>();
+    for (const row of parseRows("v_app_trainers_full_base", splitColumns, rows)) {
+      if (!row.split) continue;
+      let split = splits.get(row.split);
+      if (!split) {
+        split = { name: row.split, order: splits.size, routes: [], encounters: [] };
+        splits.set(row.split, split);
+      }
+      if (row.level_cap !== undefined) split.level_cap = Math.max(split.level_cap ?? 0, row.level_cap);
+      if (row.location_route_id && !routeSplits.has(row.location_route_id)) {
+        routeSplits.set(row.location_route_id, split);
+      }
+    }
+    const ordered = Array.from(splits.values());
+    if (!ordered.length) return { splits: ordered, routeSplits };
+
+    let current = ordered[0];
+    for (const route of await this.getRoutes(gameId)) {
+      current = routeSplits.get(route.route_id) ?? current;
+      current.routes.push(route);
+      routeSplits.set(route.route_id, current);
+    }
+
+    const encounters = await readAll(this.source, {
+      view: "v_route_encounters_full",
+      columns: Object.keys(splitEncounterColumns.shape),
+      filters: [{ column: "game_id", op: "eq", value: gameId }],
+      order: [{ column: "sort_index" }, { column: "method" }, { column: "slot_no" }, { column: "id" }],
+    });
+    const firstSplit = new Map<string, { split: Split; encounter: SplitEncounter }>();
+    for (const encounter of parseRows("v_route_encounters_full", splitEncounterColumns, encounters)) {
+      const split = routeSplits.get(encounter.route_id);
+      const known = firstSplit.get(encounter.forme_id);
+      if (split && (!known || split.order < known.split.order)) firstSplit.set(encounter.forme_id, { split, encounter });
+    }
+    firstSplit.forEach(({ split, encounter }) => split.encounters.push(encounter));
+    return { splits: ordered, routeSplits };
+  }
+
+  /**
+   * Every trainer Pokémon in a split with its base Speed, in split order.
+   * Members whose forme is missing from the Pokédex view are left out, since
+   * their Speed cannot be computed.
+   */
+  async getSplitSpeeds(gameId: GameId, split: string) {
+    const rows = await readAll(this.source, {
+      view: "v_pokedex_detail_app",
+      columns: ["forme_id", "spe"],
+      filters: [{ column: "game_id", op: "eq", value: gameId }],
+      order: [{ column: "forme_id" }],
+    });
+    const bases = parseRows("v_pokedex_detail_app", pokedexDetailSchema.pick({ forme_id: true, spe: true }), rows);
+    const speeds = new Map(bases.map((r) => [r.forme_id, r.spe]));
+
+    return (await this.trainerPokemon(gameId)).flatMap((use) => {
+      const base = speeds.get(use.pokemon.forme_id);
+      return use.trainer.split === split && base !== undefined ? [{ ...use, base_spe: base }] : [];
+    });
+  }
+
+  /**
+   * Every wild encounter on the routes a split opens, in route order, with
+   * the base stat total of its forme when the Pokédex view has it.
+   */
+  async getSplitEncounters(gameId: GameId, split: string) {
+    const target = (await this.getSplits(gameId)).find((s) => s.name === split);
+    if (!target?.routes.length) return [];
+
+    const [encounters, stats] = await Promise.all([
+      readAll(this.source, {
+        view: "v_route_encounters_full",
+        filters: [
+          { column: "game_id", op: "eq", value: gameId },
+          { column: "route_id", op: "in", value: target.routes.map((r) => r.route_id) },
+        ],
+        order: [{ column: "sort_index" }, { column: "method" }, { column: "slot_no" }, { column: "id" }],
+      }),
+      readAll(this.source, {
+        view: "v_pokedex_detail_app",
+        columns: Object.keys(baseStatColumns.shape),
+        filters: [{ column: "game_id", op: "eq", value: gameId }],
+        order: [{ column: "forme_id" }],
+      }),
+    ]);
+    const bases = parseRows("v_pokedex_detail_app", baseStatColumns, stats);
+    const totals = new Map(bases.map((b) => [b.forme_id, b.hp + b.atk + b.def + b.spa + b.spd + b.spe]));
+
+    return parseRows("v_route_encounters_full", routeEncounterSchema, encounters).map((row) => ({
+      ...row,
+      base_stat_total: totals.get(row.forme_id),
+    }));
+  }
+
+  /**
+   * Key items, TMs, and HMs obtained in a split, in route order. An item
+   * belongs to the split of its route; items on routes with neither trainers
+   * nor encounters join the split of the last route sorted before them.
+   * Empty when the optional items view is not deployed.
+   */
+  async getSplitItems(gameId: GameId, split: string) {
+    const { splits, routeSplits } = await this.storySplits(gameId);
+    const target = splits.find((s) => s.name === split);
+    if (!target) return [];
+
+    const rows = await this.readOptional({
+      view: "v_items_app",
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "kind", op: "in", value: splitItemKinds },
+      ],
+      order: [{ column: "sort_index" }, { column: "id" }],
+    });
+
+    const routes = splits.flatMap((s) => s.routes.map((route) => ({ sort_index: route.sort_index, split: s })));
+    let next = 0;
+    let current = splits[0];
+    return parseRows("v_items_app", itemLocationSchema, rows).filter((item) => {
+      while (next < routes.length && routes[next].sort_index <= item.sort_index) current = routes[next++].split;
+      return (routeSplits.get(item.route_id) ?? current) === target;
+    });
+  }
+
+  async getTrainer(gameId: GameId, trainerId: string) {
+    const { rows } = await this.source.query({
+      view: "v_app_trainers_full",
+      filters: [
+        { column: "game_id", op: "eq", value: gameId },
+        { column: "trainer_id", op: "eq", value: trainerId },
+      ],
+      range: [0, 0],
+    });
+    return parseRows("v_app_trainers_full", trainerSchema, rows)[0] ?? null;
+  }
+
+  /**
+   * Read every row of an optional view. A failed query, usually because the
+   * view is not deployed, reads as no rows so only the features built on the
+   * view go empty.
+   */
+  private async readOptional(query: Parameters<typeof readAll>[1]): Promise<Record<string, unknown>[]> {
+    try {
+      return await readAll(this.source, query);
+    } catch (error) {
+      console.warn(`Optional view ${query.view} unavailable: ${errorMessage(error)}`);
+      return [];
+    }
+  }
+
+  async preflight(gameId: GameId) {
+    const checks = await Promise.all(CONTRACT_VIEWS.map((view) => this.preflightView(gameId, view)));
+    const failed = checks.find((c) => !c.ok && !c.optional);
+    return {
+      isReady: !failed,
+      error: failed ? `${failed.view}: ${failed.error}` : undefined,
+      source: this.source.name,
+      checks,
+    };
+  }
+
+  /**
+   * Probe one view for the game: count its rows, fetch a sample, and check the
+   * sample against the view's row schema.
+   */
+  async preflightView(gameId: GameId, view: ContractView): Promise<PreflightCheck> {
+    const check: PreflightCheck = {
+      view,
+      optional: OPTIONAL_VIEWS.includes(view),
+      query: `select * from ${view} where game_id = '${gameId}' limit 1 (with count)`,
+      ok: false,
+      count: null,
+      sample: null,
+      missingColumns: [],
+    };
+
+    let result: ViewResult<Record<string, unknown>>;
+    try {
+      result = await this.source.query({
+        view,
+        filters: [{ column: "game_id", op: "eq", value: gameId }],
+        range: [0, 0],
+        count: true,
+      });
+    } catch (error) {
+      return { ...check, error: `Query failed: ${errorMessage(error)}` };
+    }
+
+    const sample = result.rows[0] ?? null;
+    const count = result.count ?? result.rows.length;
+    if (!sample) {
+      return { ...check, count, error: `No rows found for game ${gameId}` };
+    }
+
+    // Optional columns may be absent from a view; only required ones must exist.
+    const schema = CONTRACT_VIEW_SCHEMAS[view];
+    const missingColumns = Object.entries(schema.shape)
+      .filter(([column, type]) => !(column in sample) && !type.isOptional())
+      .map(([column]) => column);
+    if (missingColumns.length) {
+      return {
+        ...check,
+        count,
+        sample,
+        missingColumns,
+        error: `Missing columns: ${missingColumns.join(", ")}`,
+      };
+    }
+
+    try {
+      parseRows(view, schema, [sample]);
+    } catch (error) {
+      if (!(error instanceof ContractViolationError)) throw error;
+      return { ...check, count, sample, error: error.message };
+    }
+    return { ...check, ok: true, count, sample };
   }
 }
 
-export const storage = new MemStorage();
+export const storage = new ViewStorage(createDataSource());
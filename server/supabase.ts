@@ -0,0 +1,80 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { DataSource, FilterValue, ViewFilter, ViewQuery, ViewResult } from "./data-source";
+
+/**
+ * Server-side Supabase access. Credentials are read from the process
+ * environment so they never ship in the browser bundle. The `VITE_` names are
+ * accepted as a fallback for existing Replit Secrets.
+ */
+function credentials() {
+  return {
+    url: process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL,
+    anonKey: process.env.SUPABASE_ANON_KEY ?? process.env.VITE_SUPABASE_ANON_KEY,
+  };
+}
+
+export function hasSupabaseCredentials(): boolean {
+  const { url, anonKey } = credentials();
+  return Boolean(url && anonKey);
+}
+
+// Characters with meaning in the filter grammar would break the expression.
+function safeValue(value: FilterValue): string {
+  return String(value).replace(/[,()]/g, " ").trim();
+}
+
+/** A PostgREST value list such as `(a,b,c)`. */
+function safeList(values: FilterValue[]): string {
+  return `(${values.map(safeValue).join(",")})`;
+}
+
+/** Render a filter as a PostgREST `column.op.value` term for `or(...)`. */
+function orTerm(filter: ViewFilter): string {
+  if (filter.op === "in") return `${filter.column}.in.${safeList(filter.value)}`;
+  return `${filter.column}.${filter.op}.${safeValue(filter.value)}`;
+}
+
+/** Data source that forwards view queries to Supabase via PostgREST. */
+export class SupabaseDataSource implements DataSource {
+  readonly name = "supabase";
+  private client: SupabaseClient;
+
+  constructor() {
+    const { url, anonKey } = credentials();
+    if (!url || !anonKey) {
+      throw new Error(
+        "Missing Supabase environment variables. Set SUPABASE_URL and SUPABASE_ANON_KEY (or the VITE_ equivalents).",
+      );
+    }
+    this.client = createClient(url, anonKey, { auth: { persistSession: false } });
+  }
+
+  async query<T>({ view, columns, filters, any, order, range, count }: ViewQuery) {
+    let query = this.client
+      .from(view)
+      .select(columns?.join(", ") ?? "*", count ? { count: "exact" } : undefined);
+
+    for (const filter of filters ?? []) {
+      const { column } = filter;
+      if (filter.op === "in") query = query.in(column, filter.value);
+      else if (filter.op === "eq") query = query.eq(column, filter.value);
+      else if (filter.op === "neq") query = query.neq(column, filter.value);
+      else query = query.ilike(column, String(filter.value));
+    }
+
+    if (any?.length) {
+      query = query.or(any.map(orTerm).join(","));
+    }
+
+    for (const { column, ascending = true, nullsFirst } of order ?? []) {
+      query = query.order(column, { ascending, nullsFirst });
+    }
+
+    const { data, error, count: total } = range
+      ? await query.range(range[0], range[1])
+      : await query;
+    if (error) throw error;
+
+    return { rows: (data ?? []) as T[], count: count ? total ?? 0 : null } as ViewResult<T>;
+  }
+}
@@ -0,0 +1,53 @@
+import type { z } from "zod";
+
+/** Columns that identify a row in error messages, in order of preference. */
+const rowKeys = ["trainer_id", "forme_id", "id", "route_id"];
+
+/**
+ * A view returned a row that does not match the shared contract. Surfaced
+ * as a 502 so the client shows which view, column, and row broke instead of
+ * rendering blanks.
+ */
+export class ContractViolationError extends Error {
+  readonly status = 502;
+
+  constructor(
+    readonly view: string,
+    readonly column: string,
+    readonly row: string,
+    readonly issue: string,
+  ) {
+    super(`${view}.${column} is invalid in ${row}: ${issue}`);
+    this.name = "ContractViolationError";
+  }
+}
+
+/** Describe a row by its identifying column, falling back to its position. */
+function describeRow(row: unknown, index: number): string {
+  const record = (row ?? {}) as Record<string, unknown>;
+  const key = rowKeys.find((k) => typeof record[k] === "string" || typeof record[k] === "number");
+  return key ? `row ${index} (${key}=${record[key]})` : `row ${index}`;
+}
+
+/**
+ * Parse every row read from `view` with `schema`. The first invalid row
+ * throws a `ContractViolationError` naming the view, column path, and row.
+ */
+export function parseRows<S extends z.ZodTypeAny>(
+  view: string,
+  schema: S,
+  rows: unknown[],
+): z.output<S>[] {
+  return rows.map((row, index) => {
+    const result = schema.safeParse(row);
+    if (result.success) return result.data;
+
+    const [issue] = result.error.issues;
+    throw new ContractViolationError(
+      view,
+      issue.path.length ? issue.path.join(".") : "(row)",
+      describeRow(row, index),
+      issue.message,
+    );
+  });
+}
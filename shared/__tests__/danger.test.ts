@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { dangerFlags } from '../danger';
+import type { TrainerMove, TrainerPokemon } from '../contract';
+
+/**
+ * Unit tests for danger flag rules over trainer moves, abilities, and items.
+ */
+const move = (name: string, extra: Partial<TrainerMove> = {}): TrainerMove => ({
+  slot: 1,
+  name,
+  type_id: 'normal',
+  category: 'PHYSICAL',
+  ...extra,
+});
+
+const member = (extra: Partial<TrainerPokemon> = {}): TrainerPokemon => ({
+  slot_no: 1,
+  level: 30,
+  shiny: false,
+  forme_id: 'golem',
+  name: 'Golem',
+  type1_id: 'rock',
+  moves: [],
+  ...extra,
+});
+
+describe('dangerFlags', () => {
+  it('matches names across spellings and flags abilities and items', () => {
+    const golem = member({
+      moves: [move('Selfdestruct'), move('Fissure')],
+      ability: 'Sand Stream',
+      item: 'Focus Sash',
+    });
+    expect(dangerFlags(golem)).toEqual(['ohko', 'self-destruct', 'weather', 'focus-sash']);
+  });
+
+  it('flags attacking priority moves but not priority status moves', () => {
+    expect(dangerFlags(member({ moves: [move('Fake Out', { priority: 3 })] }))).toEqual(['priority']);
+    expect(dangerFlags(member({ moves: [move('Protect', { priority: 4, category: 'STATUS' })] }))).toEqual([]);
+    expect(dangerFlags(member({ item: 'Scope Lens' }))).toEqual(['crit']);
+  });
+});
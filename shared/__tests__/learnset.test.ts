@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { learnerGroup } from '../learnset';
+
+/**
+ * Unit tests for learn method normalisation.
+ */
+describe('learnerGroup', () => {
+  it('groups method keys case-insensitively', () => {
+    expect(['LEVEL', 'level-up', 'Level-Up'].map(learnerGroup)).toEqual(['LEVEL', 'LEVEL', 'LEVEL']);
+    expect(['TM', 'hm'].map(learnerGroup)).toEqual(['MACHINE', 'MACHINE']);
+    expect(['tutor', 'EGG', 'EVENT'].map(learnerGroup)).toEqual(['TUTOR', 'EGG', 'OTHER']);
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * @file Shared data contract between the API server and the client.
+ * Describes the rows exposed by the approved Supabase views together with the
+ * request and response shapes of the `/api` endpoints that serve them.
+ * View rows are zod schemas so the server can validate every row it reads;
+ * the TypeScript types are inferred from them.
+ */
+import { z } from 'zod';
+
+/** Views the server is allowed to read. No base tables are queried directly. */
+export const CONTRACT_VIEWS = [
+  'v_pokedex_app',
+  'v_pokedex_detail_app',
+  'v_route_encounters_full',
+  'v_app_trainers_full',
+  'v_app_trainers_full_base',
+  'v_evolutions_app',
+  'v_learnsets_public_ui',
+  'v_items_app',
+] as const;
+
+export type ContractView = (typeof CONTRACT_VIEWS)[number];
+
+/**
+ * Views the app runs without: `v_evolutions_app` and `v_items_app` are not part
+ * of the published data contract and the contract marks `v_learnsets_public_ui`
+ * optional. Their preflight checks are reported but never block startup, and
+ * the features built on them come back empty when the view is missing.
+ */
+export const OPTIONAL_VIEWS: readonly ContractView[] = ['v_evolutions_app', 'v_learnsets_public_ui', 'v_items_app'];
+
+/** Identifier for a supported game. */
+export type GameId = string;
+
+/**
+ * Optional view column. Postgres returns `null` for missing values; rows are
+ * normalized to `undefined` so optional fields read the same everywhere.
+ */
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+}
+
+/** JSON array column that the view leaves `null` when there are no entries. */
+function list<T extends z.ZodTypeAny>(schema: T) {
+  return z
+    .array(schema)
+    .nullish()
+    .transform((value): z.output<T>[] => value ?? []);
+}
+
+export const moveCategorySchema = z.enum(['PHYSICAL', 'SPECIAL', 'STATUS']);
+
+/** Game metadata fetched from Supabase. */
+export const gameSchema = z.object({
+  /** Unique game identifier such as `FRO` or `SG`. */
+  id: z.string(),
+  /** Human readable game name. */
+  name: z.string(),
+  /** Short display name or slug for URLs and badges. */
+  short_name: z.string(),
+  /** Whether the game applies type-based damage adjustments. */
+  uses_type_based_damage: z.boolean(),
+  /** Optional longer description for marketing or hero cards. */
+  description: optional(z.string()),
+});
+
+export const pokedexEntrySchema = z.object({
+  forme_id: z.string(),
+  display_name: z.string(),
+  game_id: z.string(),
+  type1_id: z.string(),
+  type2_id: optional(z.string()),
+  sprite_default_url: optional(z.string()),
+  sprite_shiny_url: optional(z.string()),
+});
+
+/** A move as it exists in one game; hacks change power, accuracy, and types. */
+export const moveSchema = z.object({
+  move_id: z.string(),
+  name: z.string(),
+  type_id: z.string(),
+  category: moveCategorySchema,
+  power: optional(z.number()),
+  /** Missing for moves that never miss. */
+  accuracy: optional(z.number()),
+  pp: optional(z.number()),
+  priority: optional(z.number()),
+  effect_text: optional(z.string()),
+});
+
+export const learnsetMoveSchema = moveSchema.extend({
+  level: optional(z.number()),
+});
+
+export const pokedexDetailSchema = pokedexEntrySchema.extend({
+  type1: z.string(),
+  type2: optional(z.string()),
+  ability1_id: optional(z.string()),
+  ability2_id: optional(z.string()),
+  hidden_ability_id: optional(z.string()),
+  ability1_name: optional(z.string()),
+  ability2_name: optional(z.string()),
+  hidden_ability_name: optional(z.string()),
+  ability1_description: optional(z.string()),
+  ability2_description: optional(z.string()),
+  hidden_ability_description: optional(z.string()),
+  hp: z.number(),
+  atk: z.number(),
+  def: z.number(),
+  spa: z.number(),
+  spd: z.number(),
+  spe: z.number(),
+  /** Moves grouped by learn method key, e.g. `LEVEL` or `TM`; see `shared/learnset.ts`. */
+  learnset: z
+    .record(z.array(learnsetMoveSchema))
+    .nullish()
+    .transform((value) => value ?? {}),
+});
+
+export const routeEncounterSchema = z.object({
+  id: z.string(),
+  route_id: z.string(),
+  route_name: z.string(),
+  forme_id: z.string(),
+  forme_label: z.string(),
+  game_id: z.string(),
+  method: z.string(),
+  subarea: optional(z.string()),
+  time_of_day: optional(z.string()),
+  weather: optional(z.string()),
+  min_level: z.number(),
+  max_level: z.number(),
+  rate: z.number(),
+  slot_no: z.number(),
+  sort_index: z.number(),
+  types: list(z.string()),
+  type1_id: z.string(),
+  type2_id: optional(z.string()),
+  sprite_default_url: optional(z.string()),
+  sprite_shiny_url: optional(z.string()),
+});
+
+/**
+ * One evolution step as the hack defines it. Drayano games rework many
+ * methods, e.g. trade evolutions become level or item evolutions.
+ */
+export const evolutionSchema = z.object({
+  game_id: z.string(),
+  from_forme_id: z.string(),
+  from_name: z.string(),
+  from_sprite_url: optional(z.string()),
+  to_forme_id: z.string(),
+  to_name: z.string(),
+  to_sprite_url: optional(z.string()),
+  /** How the evolution is triggered, e.g. `level-up`, `item`, `trade`, or `friendship`. */
+  method: z.string(),
+  level: optional(z.number()),
+  item: optional(z.string()),
+  /** Extra requirement such as a time of day, location, or held item. */
+  condition: optional(z.string()),
+});
+
+/**
+ * One way a forme learns a move, as a flat row of `v_learnsets_public_ui`.
+ * Move columns follow the view's move shape (`move_uid`, `display_name`,
+ * `type_id`); the forme is named by id only and joined with `v_pokedex_app`
+ * where its name or sprite is shown.
+ */
+export const learnsetEntrySchema = z.object({
+  game_id: z.string(),
+  forme_id: z.string(),
+  move_uid: z.string(),
+  display_name: z.string(),
+  type_id: z.string(),
+  category: moveCategorySchema,
+  power: optional(z.number()),
+  accuracy: optional(z.number()),
+  pp: optional(z.number()),
+  priority: optional(z.number()),
+  effect_text: optional(z.string()),
+  /** Learn method: `LEVEL`, `TM`, `HM`, `TUTOR`, or `EGG`. */
+  method: z.string(),
+  /** Learn level for `LEVEL` moves. */
+  level: optional(z.number()),
+  /** Machine number for `TM` and `HM` moves. */
+  tm_no: optional(z.number()),
+});
+
+/**
+ * One place an item is obtained, as a row of `v_items_app`. Rows name their
+ * route like encounter rows do, so items can be placed in story splits.
+ */
+export const itemLocationSchema = z.object({
+  id: z.string(),
+  game_id: z.string(),
+  item_id: z.string(),
+  item_name: z.string(),
+  /** Bag pocket: `KEY`, `TM`, or `HM`, or another pocket such as `ITEM`. */
+  kind: z.string(),
+  /** Machine number for `TM` and `HM` items. */
+  tm_no: optional(z.number()),
+  /** Move taught by a `TM` or `HM`. */
+  move_name: optional(z.string()),
+  route_id: z.string(),
+  route_name: z.string(),
+  sort_index: z.number(),
+  /** How the item is obtained, e.g. `Gift from Brock` or `Hidden in the grass`. */
+  method: optional(z.string()),
+});
+
+export const trainerMoveSchema = z.object({
+  slot: z.number(),
+  name: z.string(),
+  type_id: z.string(),
+  category: moveCategorySchema,
+  power: optional(z.number()),
+  accuracy: optional(z.number()),
+  pp: optional(z.number()),
+  priority: optional(z.number()),
+  effect_text: optional(z.string()),
+});
+
+export const trainerPokemonSchema = z.object({
+  slot_no: z.number(),
+  level: z.number(),
+  shiny: z.boolean(),
+  forme_id: z.string(),
+  name: z.string(),
+  ability: optional(z.string()),
+  ability_description: optional(z.string()),
+  item: optional(z.string()),
+  nature: optional(z.string()),
+  type1_id: z.string(),
+  type2_id: optional(z.string()),
+  sprite_default_url: optional(z.string()),
+  sprite_shiny_url: optional(z.string()),
+  moves: list(trainerMoveSchema),
+});
+
+export const trainerSchema = z.object({
+  trainer_id: z.string(),
+  trainer_name: z.string(),
+  trainer_class: z.string(),
+  game_id: z.string(),
+  split: optional(z.string()),
+  split_group_order: optional(z.number()),
+  split_order: optional(z.number()),
+  split_trainer_order: optional(z.number()),
+  display_location: optional(z.string()),
+  location_route_id: optional(z.string()),
+  variant_key: z.string(),
+  variant_label: z.string(),
+  level_cap: optional(z.number()),
+  is_leader: z.boolean(),
+  /** Optional sprite for visualizing the trainer */
+  sprite_url: optional(z.string()),
+  /** Optional mugshot or portrait for detail views */
+  mugshot_url: optional(z.string()),
+  team: list(trainerPokemonSchema),
+});
+
+export type MoveCategory = z.infer<typeof moveCategorySchema>;
+export type Game = z.infer<typeof gameSchema>;
+export type PokedexEntry = z.infer<typeof pokedexEntrySchema>;
+export type PokedexDetail = z.infer<typeof pokedexDetailSchema>;
+export type LearnsetMove = z.infer<typeof learnsetMoveSchema>;
+export type RouteEncounter = z.infer<typeof routeEncounterSchema>;
+export type Trainer = z.infer<typeof trainerSchema>;
+export type TrainerPokemon = z.infer<typeof trainerPokemonSchema>;
+export type TrainerMove = z.infer<typeof trainerMoveSchema>;
+export type Evolution = z.infer<typeof evolutionSchema>;
+export type Move = z.infer<typeof moveSchema>;
+export type LearnsetEntry = z.infer<typeof learnsetEntrySchema>;
+export type ItemLocation = z.infer<typeof itemLocationSchema>;
+
+/** A forme that learns a move and how it learns it. */
+export type MoveLearner = PokedexEntry & Pick<LearnsetEntry, 'method' | 'level' | 'tm_no'>;
+
+/** A move with every forme that learns it, served by `GET /api/:game/moves/:moveId`. */
+export interface MoveDetail {
+  move: Move;
+  learners: MoveLearner[];
+}
+
+/** An ability as described in the game's Pokédex data. */
+export interface Ability {
+  ability_id: string;
+  name: string;
+  description?: string;
+}
+
+/** Which of a forme's ability slots holds an ability. */
+export type AbilitySlot = 'ability1' | 'ability2' | 'hidden';
+
+/** A forme that can have an ability, and the slot it has it in. */
+export type AbilityHolder = PokedexEntry & { slot: AbilitySlot };
+
+/** A trainer's Pokémon together with the trainer fielding it. */
+export interface TrainerPokemonUse {
+  trainer: Omit<Trainer, 'team'>;
+  pokemon: TrainerPokemon;
+}
+
+/**
+ * A trainer's Pokémon with its species' base Speed, served by
+ * `GET /api/:game/splits/:split/speeds`.
+ */
+export type TrainerPokemonSpeed = TrainerPokemonUse & { base_spe: number };
+
+/**
+ * A forme's typing and abilities with the types of the damaging moves it can
+ * learn, served by `GET /api/:game/attack-types`.
+ */
+export type PokemonAttackTypes = PokedexEntry & {
+  /** Ability names in slot order. */
+  abilities: string[];
+  /** Types of damaging moves learned by level-up up to `maxLevel` or by any other method. */
+  attack_types: string[];
+};
+
+/**
+ * An ability with every forme that can have it and every trainer Pokémon
+ * running it, served by `GET /api/:game/abilities/:abilityId`.
+ */
+export interface AbilityDetail {
+  ability: Ability;
+  pokemon: AbilityHolder[];
+  trainers: TrainerPokemonUse[];
+}
+
+/**
+ * A story split: the stretch of the game between two bosses, derived from
+ * trainer `split` columns and served by `GET /api/:game/splits` in story order.
+ */
+export interface Split {
+  name: string;
+  /** Position in the story, starting at 0. */
+  order: number;
+  /** Highest level cap among the split's trainers. */
+  level_cap?: number;
+  /** Routes first reached in this split, in route order. */
+  routes: RouteSummary[];
+  /** Formes first found in the wild in this split, with the route that has them first. */
+  encounters: SplitEncounter[];
+}
+
+/**
+ * A wild encounter on a route a split opens, with the forme's base stat
+ * total, served by `GET /api/:game/splits/:split/encounters`.
+ */
+export type SplitRouteEncounter = RouteEncounter & { base_stat_total?: number };
+
+/** A forme's first wild appearance in the story. */
+export type SplitEncounter = Pick<RouteEncounter, 'forme_id' | 'forme_label' | 'route_id' | 'sprite_default_url'>;
+
+/** A page of rows plus the total row count across all pages. */
+export interface Paged<T> {
+  items: T[];
+  total: number;
+}
+
+/** Route entry for the encounters sidebar, deduplicated by `route_id`. */
+export const routeSummarySchema = routeEncounterSchema.pick({
+  route_id: true,
+  route_name: true,
+  sort_index: true,
+});
+
+export type RouteSummary = z.infer<typeof routeSummarySchema>;
+
+/** Methods and times of day present on a route, used for stable filter tabs. */
+export interface EncounterFilters {
+  route_name: string;
+  methods: string[];
+  times_of_day: string[];
+}
+
+/** A page of encounters; `hasMore` signals that a further page exists. */
+export interface EncounterPage {
+  rows: RouteEncounter[];
+  hasMore: boolean;
+}
+
+/**
+ * Evolution stage filter: `unevolved` is a first stage that can still evolve,
+ * `fully-evolved` anything that cannot evolve further.
+ */
+export type EvolutionStage = 'unevolved' | 'fully-evolved';
+
+/** Filters accepted by `GET /api/:game/pokedex`. */
+export interface PokedexQuery {
+  search?: string;
+  type?: string;
+  stage?: EvolutionStage;
+  page: number;
+  perPage: number;
+}
+
+/** Filters accepted by `GET /api/:game/routes/:routeId/encounters`. */
+export interface EncounterQuery {
+  method?: string;
+  time?: string;
+  search?: string;
+  page: number;
+  pageSize: number;
+}
+
+/** Trainer groupings accepted by the `kind` filter of the trainers endpoint. */
+export type TrainerKind = 'champion' | 'leader' | 'regular';
+
+/**
+ * Filters on the members of a trainer's team. A trainer matches when one
+ * member satisfies every filter set; names compare case-insensitively.
+ */
+export interface TeamFilters {
+  /** `forme_id` of the member. */
+  pokemon?: string;
+  /** Name of a move the member knows. */
+  move?: string;
+  ability?: string;
+  /** Held item. */
+  item?: string;
+  /** Only members raising a danger flag, see `shared/danger.ts`. */
+  danger?: boolean;
+}
+
+/** Filters accepted by `GET /api/:game/trainers`. */
+export interface TrainerQuery extends TeamFilters {
+  search?: string;
+  kind?: TrainerKind;
+  split?: string;
+  page: number;
+  perPage: number;
+}
+
+/** Row schema each contract view must satisfy; used by preflight checks. */
+export const CONTRACT_VIEW_SCHEMAS = {
+  v_pokedex_app: pokedexEntrySchema,
+  v_pokedex_detail_app: pokedexDetailSchema,
+  v_route_encounters_full: routeEncounterSchema,
+  v_app_trainers_full: trainerSchema,
+  v_app_trainers_full_base: trainerSchema,
+  v_evolutions_app: evolutionSchema,
+  v_learnsets_public_ui: learnsetEntrySchema,
+  v_items_app: itemLocationSchema,
+} satisfies Record<ContractView, z.AnyZodObject>;
+
+/** Result of probing one contract view for the current game. */
+export interface PreflightCheck {
+  view: ContractView;
+  /** Listed in `OPTIONAL_VIEWS`; a failure does not stop the app from loading. */
+  optional: boolean;
+  /** Human readable form of the query that was run. */
+  query: string;
+  ok: boolean;
+  /** Rows the view holds for the game, or `null` when the query failed. */
+  count: number | null;
+  /** First row returned, for eyeballing the data. */
+  sample: Record<string, unknown> | null;
+  /** Columns of the row schema that the sample row lacks. */
+  missingColumns: string[];
+  /** Data source or validation error explaining a failed check. */
+  error?: string;
+}
+
+/** Outcome of the startup check across every contract view. */
+export interface PreflightResult {
+  /** No required view failed; optional views may still have. */
+  isReady: boolean;
+  /** Summary of the first failing required check. */
+  error?: string;
+  /** Data source the checks ran against, e.g. `supabase` or `local`. */
+  source?: string;
+  checks: PreflightCheck[];
+}
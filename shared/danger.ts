@@ -0,0 +1,98 @@
+/**
+ * @file Danger flags for trainer Pokémon.
+ * Rules mark the moves, abilities, and held items that end Nuzlocke runs:
+ * one-hit KOs, self-destructing moves, critical hit boosts, priority attacks,
+ * weather, Focus Sash, Trick Room, and Perish Song. Shared so the server can
+ * filter trainers by flags and the client can badge the same members.
+ */
+import type { TrainerPokemon } from './contract';
+
+export const DANGER_FLAGS = [
+  'ohko',
+  'self-destruct',
+  'crit',
+  'priority',
+  'weather',
+  'focus-sash',
+  'trick-room',
+  'perish-song',
+] as const;
+
+export type DangerFlag = (typeof DANGER_FLAGS)[number];
+
+/** What makes a member dangerous; a member matching any part gets the flag. */
+export interface DangerRule {
+  label: string;
+  description: string;
+  moves?: string[];
+  abilities?: string[];
+  items?: string[];
+  /** Extra check for rules that cannot be expressed as names. */
+  match?: (member: TrainerPokemon) => boolean;
+}
+
+export const DANGER_RULES: Record<DangerFlag, DangerRule> = {
+  ohko: {
+    label: 'OHKO',
+    description: 'Knows a one-hit KO move.',
+    moves: ['Fissure', 'Guillotine', 'Horn Drill', 'Sheer Cold'],
+  },
+  'self-destruct': {
+    label: 'Self-KO',
+    description: 'Can faint itself to deal damage or cripple your Pokémon.',
+    moves: ['Explosion', 'Self-Destruct', 'Memento', 'Final Gambit'],
+  },
+  crit: {
+    label: 'Crits',
+    description: 'Raises its critical hit rate with its ability or item.',
+    abilities: ['Super Luck'],
+    items: ['Scope Lens', 'Razor Claw', 'Lucky Punch', 'Stick', 'Leek'],
+  },
+  priority: {
+    label: 'Priority',
+    description: 'Has an attacking move that goes first.',
+    match: (member) => member.moves.some((m) => (m.priority ?? 0) > 0 && m.category !== 'STATUS'),
+  },
+  weather: {
+    label: 'Weather',
+    description: 'Sets rain, sun, sand, or hail.',
+    moves: ['Rain Dance', 'Sunny Day', 'Sandstorm', 'Hail'],
+    abilities: ['Drizzle', 'Drought', 'Sand Stream', 'Snow Warning'],
+  },
+  'focus-sash': {
+    label: 'Focus Sash',
+    description: 'Survives any hit from full HP.',
+    items: ['Focus Sash'],
+  },
+  'trick-room': {
+    label: 'Trick Room',
+    description: 'Reverses turn order for five turns.',
+    moves: ['Trick Room'],
+  },
+  'perish-song': {
+    label: 'Perish Song',
+    description: 'Faints everything on the field in three turns.',
+    moves: ['Perish Song'],
+  },
+};
+
+/** Compare names across generations, e.g. `Selfdestruct` and `Self-Destruct`. */
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const includesName = (names: string[] | undefined, name: string | undefined) =>
+  Boolean(names && name && names.some((n) => normalize(n) === normalize(name)));
+
+/** Whether a team member has any of the rule's moves, abilities, or items. */
+export function matchesRule(rule: DangerRule, member: TrainerPokemon): boolean {
+  return (
+    member.moves.some((m) => includesName(rule.moves, m.name)) ||
+    includesName(rule.abilities, member.ability) ||
+    includesName(rule.items, member.item) ||
+    Boolean(rule.match?.(member))
+  );
+}
+
+/** Flags a team member raises, in `DANGER_FLAGS` order. */
+export function dangerFlags(member: TrainerPokemon): DangerFlag[] {
+  return DANGER_FLAGS.filter((flag) => matchesRule(DANGER_RULES[flag], member));
+}
@@ -0,0 +1,18 @@
+/**
+ * @file Learn method normalisation.
+ * Learnset method keys arrive upper-case (`LEVEL`, `TM`, `HM`, `TUTOR`,
+ * `EGG`), though some rows spell level-up moves `LEVEL-UP`. Shared so the
+ * server's attack types and the client's learnset views group moves alike.
+ */
+
+/** Learn method groups; TMs and HMs share one group. */
+export type LearnerGroup = 'LEVEL' | 'MACHINE' | 'TUTOR' | 'EGG' | 'OTHER';
+
+/** Group of a learn method key, compared case-insensitively. */
+export function learnerGroup(method: string): LearnerGroup {
+  const key = method.toUpperCase();
+  if (key === 'LEVEL' || key === 'LEVEL-UP') return 'LEVEL';
+  if (key === 'TM' || key === 'HM') return 'MACHINE';
+  if (key === 'TUTOR' || key === 'EGG') return key;
+  return 'OTHER';
+}
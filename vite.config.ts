@@ -28,6 +28,7 @@ export default defineConfig({
     alias: {
       "@": path.resolve(__dirname, "client/src"),
       "@/*": path.resolve(__dirname, "client/src/*"),
+      "@shared": path.resolve(__dirname, "shared"),
       "~~/*": path.resolve(__dirname, "*"),
     },
   },
@@ -37,6 +38,10 @@ export default defineConfig({
     emptyOutDir: true,
   },
   server: {
+    // Forward API calls to the Express server when running `dev:client`.
+    proxy: {
+      "/api": `http://localhost:${process.env.PORT || "5000"}`,
+    },
     fs: {
       strict: true,
       deny: ["**/.*"],